@@ -1,10 +1,16 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { FlightInput } from './components/FlightInput';
 import { Globe3D } from './components/Globe3D';
 import { TimelineScrubber } from './components/TimelineScrubber';
 import { SunlightAnalytics } from './components/SunlightAnalytics';
-import { FlightData, FlightTimeline } from './types';
-import { generateFlightTimeline } from './utils/timeline';
+import { DepartureSweep } from './components/DepartureSweep';
+import { SeasonalCalendar } from './components/SeasonalCalendar';
+import { WindowView } from './components/WindowView';
+import { DepartureSlot, FlightData, FlightTimeline } from './types';
+import { TimelineAnalysis } from './utils/computeJobs';
+import { useComputeJob } from './hooks/useComputeJob';
+import { WindowSeat } from './utils/windowView';
+import { CameraMode } from './utils/globeCamera';
 
 function App() {
   const [flightData, setFlightData] = useState<FlightData | null>(null);
@@ -13,21 +19,62 @@ function App() {
   const [isPlaying, setIsPlaying] = useState(false);
   const [playbackSpeed, setPlaybackSpeed] = useState(1);
   const [showAnalytics, setShowAnalytics] = useState(true);
+  const [windowSeat, setWindowSeat] = useState<WindowSeat | null>(null);  // Null shows the globe
+  // Camera settings are kept from one flight to the next
+  const [cameraMode, setCameraMode] = useState<CameraMode>('orbit');
+  const [headingUp, setHeadingUp] = useState(false);
   const [selectedTimezone, setSelectedTimezone] = useState<string>('UTC');
+  const [sweep, setSweep] = useState<{ data: FlightData; slots: DepartureSlot[] } | null>(null);
+  const [calendar, setCalendar] = useState<{ data: FlightData; slots: DepartureSlot[]; localTime: string } | null>(null);
+  const [analysis, setAnalysis] = useState<TimelineAnalysis | null>(null);
+
+  // Calculations run in a worker: one job for the input screen, one for the analytics panel
+  const inputJob = useComputeJob();
+  const analysisJob = useComputeJob();
 
   const handleFlightSubmit = (data: FlightData) => {
-    // Generate flight timeline with solar data
-    const flightTimeline = generateFlightTimeline(
-      data.origin,
-      data.destination,
-      data.departureDate
-    );
-    
-    setFlightData(data);
-    setTimeline(flightTimeline);
-    setCurrentIndex(0);
-    setIsPlaying(false);
-    setSelectedTimezone(data.timezone || 'UTC');
+    // Generate flight timeline with solar data (stitched across legs for itineraries)
+    inputJob.start('Calculating flight', { type: 'timeline', flight: data }, flightTimeline => {
+      setFlightData(data);
+      setTimeline(flightTimeline);
+      setCurrentIndex(0);
+      setIsPlaying(false);
+      setSelectedTimezone(data.timezone || 'UTC');
+    });
+  };
+
+  // Fly the route at every departure through the origin's local day
+  const handleSweep = (data: FlightData) => {
+    inputJob.start('Comparing departure times', { type: 'sweep', flight: data }, slots => {
+      setSweep({ data, slots });
+    });
+  };
+
+  // Fly the route every day of the year at the same local departure time
+  const handleYearView = (data: FlightData) => {
+    inputJob.start('Flying every day of the year', { type: 'calendar', flight: data }, ({ slots, localTime }) => {
+      setCalendar({ data, slots, localTime });
+    });
+  };
+
+  // Window sides and daylight briefing for each new timeline
+  const { start: startAnalysis, cancel: cancelAnalysis } = analysisJob;
+  useEffect(() => {
+    setAnalysis(null);
+    if (timeline) {
+      startAnalysis('Analysing flight', { type: 'analysis', timeline }, setAnalysis);
+    } else {
+      cancelAnalysis();
+    }
+  }, [timeline, startAnalysis, cancelAnalysis]);
+
+  // Open one departure of a sweep or the year view as a flight
+  const openSlot = (data: FlightData, slot: DepartureSlot) => {
+    handleFlightSubmit({
+      ...data,
+      departureDate: slot.departureTime,
+      departureTime: slot.departureTime.toISOString().slice(11, 16)
+    });
   };
 
   const handlePlayPause = () => {
@@ -58,8 +105,34 @@ function App() {
       {/* Main Content */}
       {!timeline ? (
         // Input Screen
-        <div className="flex items-center justify-center min-h-[calc(100vh-120px)]">
-          <FlightInput onSubmit={handleFlightSubmit} />
+        <div className="flex flex-col items-center justify-center gap-6 py-6 min-h-[calc(100vh-120px)]">
+          <FlightInput
+            onSubmit={handleFlightSubmit}
+            onSweep={handleSweep}
+            onYearView={handleYearView}
+            job={inputJob.status}
+            jobError={inputJob.error}
+            onCancelJob={inputJob.cancel}
+          />
+          {sweep && (
+            <DepartureSweep
+              slots={sweep.slots}
+              routeLabel={routeLabel(sweep.data)}
+              timezone={sweep.data.origin.timezone}
+              onSelect={slot => openSlot(sweep.data, slot)}
+              onClose={() => setSweep(null)}
+            />
+          )}
+          {calendar && (
+            <SeasonalCalendar
+              slots={calendar.slots}
+              routeLabel={routeLabel(calendar.data)}
+              localTime={calendar.localTime}
+              timezone={calendar.data.origin.timezone}
+              onSelect={slot => openSlot(calendar.data, slot)}
+              onClose={() => setCalendar(null)}
+            />
+          )}
         </div>
       ) : (
         // Full-Screen Globe with Overlays
@@ -69,9 +142,52 @@ function App() {
             <Globe3D
               timeline={timeline}
               currentPointIndex={currentIndex}
+              onPointClick={setCurrentIndex}
+              cameraMode={cameraMode}
+              headingUp={headingUp}
             />
           </div>
 
+          {/* Camera Mode - Top Left */}
+          {!windowSeat && (
+            <div className="absolute top-20 left-6 z-10 flex items-center gap-3 bg-black/60 backdrop-blur-sm rounded-lg p-1 text-sm">
+              <div className="flex">
+                {CAMERA_MODES.map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    onClick={() => setCameraMode(mode)}
+                    className={`px-3 py-1.5 rounded transition-colors ${
+                      cameraMode === mode ? 'bg-white/30 text-white' : 'text-gray-300 hover:bg-white/20'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {cameraMode === 'follow' && (
+                <label className="flex items-center gap-1.5 pr-2 text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={headingUp}
+                    onChange={e => setHeadingUp(e.target.checked)}
+                  />
+                  Heading up
+                </label>
+              )}
+            </div>
+          )}
+
+          {/* View from a window seat, over the globe */}
+          {windowSeat && timeline.points[currentIndex] && (
+            <div className="absolute inset-0 pt-16 pb-28">
+              <WindowView
+                timeline={timeline}
+                currentPoint={timeline.points[currentIndex]}
+                seat={windowSeat}
+              />
+            </div>
+          )}
+
           {/* Top Bar Overlay */}
           <div className="absolute top-0 left-0 right-0 bg-black/60 backdrop-blur-sm text-white p-4 z-10">
             <div className="max-w-7xl mx-auto flex items-center justify-between">
@@ -84,8 +200,11 @@ function App() {
                 <div className="flex items-center gap-2">
                   <div className="text-sm">
                     <span className="text-gray-300">
-                      {flightData?.origin.iata} → {flightData?.destination.iata}
+                      {flightData && routeLabel(flightData)}
                     </span>
+                    {flightData?.aircraft && (
+                      <span className="text-gray-400"> · {flightData.aircraft.name}</span>
+                    )}
                   </div>
                   {/* Info Icon */}
                   <div className="relative group">
@@ -108,12 +227,27 @@ function App() {
                   </div>
                 </div>
               </div>
-              <button
-                onClick={resetView}
-                className="px-4 py-2 bg-white/20 hover:bg-white/30 text-white rounded-lg transition-colors backdrop-blur-sm text-sm"
-              >
-                ← New Flight
-              </button>
+              <div className="flex items-center gap-3">
+                <div className="flex rounded-lg overflow-hidden bg-white/10 text-sm">
+                  {([null, 'LEFT', 'RIGHT'] as const).map(seat => (
+                    <button
+                      key={seat ?? 'globe'}
+                      onClick={() => setWindowSeat(seat)}
+                      className={`px-3 py-2 transition-colors ${
+                        windowSeat === seat ? 'bg-white/30 text-white' : 'text-gray-300 hover:bg-white/20'
+                      }`}
+                    >
+                      {seat === null ? 'Globe' : seat === 'LEFT' ? 'Left window' : 'Right window'}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={resetView}
+                  className="px-4 py-2 bg-white/20 hover:bg-white/30 text-white rounded-lg transition-colors backdrop-blur-sm text-sm"
+                >
+                  ← New Flight
+                </button>
+              </div>
             </div>
           </div>
 
@@ -148,6 +282,9 @@ function App() {
                   <SunlightAnalytics
                     timeline={timeline}
                     currentPoint={timeline.points[currentIndex]}
+                    analysis={analysis}
+                    analysisStatus={analysisJob.status}
+                    analysisError={analysisJob.error}
                   />
                 </div>
               </div>
@@ -164,6 +301,9 @@ function App() {
                   <SunlightAnalytics
                     timeline={timeline}
                     currentPoint={timeline.points[currentIndex]}
+                    analysis={analysis}
+                    analysisStatus={analysisJob.status}
+                    analysisError={analysisJob.error}
                   />
                 </div>
               </div>
@@ -175,5 +315,19 @@ function App() {
   );
 }
 
+const CAMERA_MODES: { mode: CameraMode; label: string }[] = [
+  { mode: 'orbit', label: 'Free' },
+  { mode: 'follow', label: 'Follow' },
+  { mode: 'fit', label: 'Whole route' }
+];
+
+// "SIN → DXB → LHR" for itineraries, "JFK → LHR" for direct flights
+function routeLabel(data: FlightData): string {
+  const airports = data.legs && data.legs.length > 1
+    ? [data.legs[0].origin, ...data.legs.map(leg => leg.destination)]
+    : [data.origin, data.destination];
+  return airports.map(airport => airport.iata).join(' → ');
+}
+
 export default App;
 
@@ -0,0 +1,56 @@
+import { Disambiguation, LocalTimeResolution, formatUtcOffset, getLocalTime, getTimeZoneOffset, resolveLocalTime } from '@/utils/timezone';
+
+interface DaylightSavingNoticeProps {
+  date: string;        // Local date, YYYY-MM-DD
+  time: string;        // Local time, HH:mm
+  timeZone?: string;   // Unknown until an airport is chosen
+  value: Disambiguation;
+  onChange: (value: Disambiguation) => void;
+}
+
+/**
+ * Asks which instant is meant when a local time falls in a DST change:
+ * twice when clocks go back, or not at all when they go forward
+ * Renders nothing for ordinary times.
+ */
+export function DaylightSavingNotice({ date, time, timeZone, value, onChange }: DaylightSavingNoticeProps) {
+  if (!timeZone) return null;
+
+  let resolution: LocalTimeResolution;
+  try {
+    resolution = resolveLocalTime(date, time, timeZone);
+  } catch {
+    return null;
+  }
+  if (resolution.kind === 'unique') return null;
+
+  const skipped = resolution.kind === 'skipped';
+  const chosen = value === 'compatible' ? (skipped ? 'later' : 'earlier') : value;
+
+  // Skipped times read as the clock time each way round the gap
+  const option = (choice: 'earlier' | 'later', instant: Date) => (
+    <button
+      type="button"
+      onClick={() => onChange(choice)}
+      className={`px-3 py-1.5 rounded text-sm transition-colors ${
+        chosen === choice ? 'bg-amber-500 text-gray-900' : 'bg-white/10 text-gray-200 hover:bg-white/20'
+      }`}
+    >
+      {skipped ? getLocalTime(instant, timeZone) : time} ({formatUtcOffset(getTimeZoneOffset(instant, timeZone))})
+    </button>
+  );
+
+  return (
+    <div className="mt-3 p-3 bg-amber-500/10 border border-amber-500/40 rounded-lg text-sm text-amber-200">
+      <div className="mb-2">
+        {skipped
+          ? `${time} on ${date} doesn't exist in ${timeZone}: the clocks go forward. Use:`
+          : `${time} on ${date} happens twice in ${timeZone}: the clocks go back. Which one?`}
+      </div>
+      <div className="flex gap-2">
+        {option('earlier', resolution.earlier)}
+        {option('later', resolution.later)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Sunrise, Sunset } from 'lucide-react';
+import { DepartureSlot } from '@/types';
+
+interface DepartureSweepProps {
+  slots: DepartureSlot[];
+  routeLabel: string;
+  timezone: string;
+  onSelect: (slot: DepartureSlot) => void;
+  onClose: () => void;
+}
+
+// Stacked series, bottom to top, in the colours used by the flight analysis
+const SERIES: { key: keyof Pick<DepartureSlot, 'leftSideMinutes' | 'rightSideMinutes' | 'overheadMinutes' | 'noSunMinutes'>; label: string; className: string }[] = [
+  { key: 'leftSideMinutes', label: 'Left', className: 'bg-cyan-400' },
+  { key: 'rightSideMinutes', label: 'Right', className: 'bg-purple-400' },
+  { key: 'overheadMinutes', label: 'Overhead', className: 'bg-orange-400' },
+  { key: 'noSunMinutes', label: 'No sun', className: 'bg-gray-600' }
+];
+
+/**
+ * Chart of sun exposure against departure time; clicking a slot opens that flight
+ */
+export function DepartureSweep({ slots, routeLabel, timezone, onSelect, onClose }: DepartureSweepProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const maxMinutes = Math.max(...slots.map(totalMinutes), 1);
+  const detail = hovered !== null ? slots[hovered] : null;
+
+  const formatTime = (date: Date) => date.toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+    timeZone: timezone
+  });
+
+  return (
+    <div className="w-full max-w-5xl mx-auto p-6 bg-gray-900/50 backdrop-blur-sm rounded-xl shadow-2xl border border-gray-700/50 text-white">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold">Departure Times</h2>
+          <div className="text-sm text-gray-400">
+            {routeLabel} · {slots.length} departures from {slots.length > 0 && formatTime(slots[0].departureTime)} ({timezone})
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 bg-white/20 hover:bg-white/30 text-white rounded-lg transition-colors text-sm"
+        >
+          Close
+        </button>
+      </div>
+
+      {/* Sunrise/sunset markers above the bars */}
+      <div className="flex gap-px h-5 mb-1">
+        {slots.map((slot, i) => (
+          <div key={i} className="flex-1 flex justify-center items-end">
+            {slot.sunrises > 0 && <Sunrise className="w-3 h-3 text-yellow-300" />}
+            {slot.sunsets > 0 && <Sunset className="w-3 h-3 text-orange-400" />}
+          </div>
+        ))}
+      </div>
+
+      {/* Stacked bars: minutes of each exposure per departure */}
+      <div className="flex gap-px h-64 items-end" onMouseLeave={() => setHovered(null)}>
+        {slots.map((slot, i) => (
+          <button
+            key={i}
+            type="button"
+            onClick={() => onSelect(slot)}
+            onMouseEnter={() => setHovered(i)}
+            className={`flex-1 flex flex-col-reverse h-full justify-start rounded-t overflow-hidden transition-opacity ${
+              hovered !== null && hovered !== i ? 'opacity-60' : ''
+            }`}
+            title={`Depart ${formatTime(slot.departureTime)}`}
+          >
+            {SERIES.map(series => (
+              <div
+                key={series.key}
+                className={series.className}
+                style={{ height: `${(slot[series.key] / maxMinutes) * 100}%` }}
+              />
+            ))}
+          </button>
+        ))}
+      </div>
+
+      {/* Hour labels */}
+      <div className="flex gap-px mt-1 text-xs text-gray-400">
+        {slots.map((slot, i) => (
+          <div key={i} className="flex-1 text-center overflow-visible whitespace-nowrap">
+            {isLabelled(slots, i, timezone) ? formatTime(slot.departureTime).slice(0, 2) : ''}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-4 mt-4 text-xs text-gray-400">
+        {SERIES.map(series => (
+          <span key={series.key} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded-sm ${series.className}`} />
+            {series.label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1"><Sunrise className="w-3 h-3 text-yellow-300" /> Sunrise</span>
+        <span className="flex items-center gap-1"><Sunset className="w-3 h-3 text-orange-400" /> Sunset</span>
+      </div>
+
+      {/* Hovered slot details */}
+      <div className="mt-4 p-4 bg-white/10 rounded-lg text-sm min-h-[4rem]">
+        {detail ? (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <div className="col-span-2 md:col-span-4 font-medium">
+              Depart {formatTime(detail.departureTime)} · arrive {formatTime(detail.arrivalTime)}
+              {(detail.sunrises > 0 || detail.sunsets > 0) && (
+                <span className="text-gray-400">
+                  {' '}· {[
+                    detail.sunrises > 0 && `${detail.sunrises} sunrise${detail.sunrises > 1 ? 's' : ''}`,
+                    detail.sunsets > 0 && `${detail.sunsets} sunset${detail.sunsets > 1 ? 's' : ''}`
+                  ].filter(Boolean).join(', ')}
+                </span>
+              )}
+            </div>
+            {SERIES.map(series => (
+              <div key={series.key}>
+                <span className="text-gray-400">{series.label}: </span>
+                {Math.round(detail[series.key])} min
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-gray-400">Hover over a departure for details, click to open that flight.</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function totalMinutes(slot: DepartureSlot): number {
+  return slot.leftSideMinutes + slot.rightSideMinutes + slot.overheadMinutes + slot.noSunMinutes;
+}
+
+// Label the first slot of every third local hour
+function isLabelled(slots: DepartureSlot[], i: number, timezone: string): boolean {
+  const hour = (date: Date) => Number(date.toLocaleString('en-US', { hour: '2-digit', hour12: false, timeZone: timezone })) % 24;
+  const current = hour(slots[i].departureTime);
+  return current % 3 === 0 && (i === 0 || hour(slots[i - 1].departureTime) !== current);
+}
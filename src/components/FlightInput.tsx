@@ -1,218 +1,322 @@
 import React, { useState, useMemo } from 'react';
-import { Airport, FlightData } from '@/types';
+import { Airport, FlightData, HorizonDefinition, ItineraryLeg, SolarModel, WindGrid } from '@/types';
+import { DEFAULT_CONNECTION_MINUTES } from '@/utils/timeline';
+import { loadWindGridFile } from '@/utils/wind';
+import { parseTrackFile, findNearestAirport } from '@/utils/trackImport';
+import { AIRCRAFT_PROFILES, DEFAULT_AIRCRAFT_ID, getAircraftProfile } from '@/utils/aircraftProfiles';
+import { Disambiguation, formatUtcOffset, getTimeZoneOffset, localTimeToUtc, parseDuration } from '@/utils/timezone';
+import { DaylightSavingNotice } from './DaylightSavingNotice';
 import airportsData from '@/data/airports.json';
+import { ComputeJobStatus } from '@/hooks/useComputeJob';
+import { JobProgress } from './JobProgress';
 
 interface FlightInputProps {
   onSubmit: (data: FlightData) => void;
+  onSweep?: (data: FlightData) => void;  // Compare departure times across a day instead
+  onYearView?: (data: FlightData) => void;  // Fly the route every day of the year instead
+  job?: ComputeJobStatus | null;  // Calculation running for the form
+  jobError?: string | null;  // Why the last calculation failed
+  onCancelJob?: () => void;
 }
 
-// Comprehensive list of timezones for global flight bookings
-const TIMEZONES = [
-  // UTC
-  { value: 'UTC', label: 'UTC +0:00', offset: 0 },
-  
-  // Americas
-  { value: 'America/New_York', label: 'New York (EST/EDT) -5:00/-4:00', offset: -5 },
-  { value: 'America/Chicago', label: 'Chicago (CST/CDT) -6:00/-5:00', offset: -6 },
-  { value: 'America/Denver', label: 'Denver (MST/MDT) -7:00/-6:00', offset: -7 },
-  { value: 'America/Los_Angeles', label: 'Los Angeles (PST/PDT) -8:00/-7:00', offset: -8 },
-  { value: 'America/Anchorage', label: 'Anchorage (AKST) -9:00', offset: -9 },
-  { value: 'America/Toronto', label: 'Toronto (EST/EDT) -5:00/-4:00', offset: -5 },
-  { value: 'America/Mexico_City', label: 'Mexico City (CST) -6:00', offset: -6 },
-  { value: 'America/Sao_Paulo', label: 'São Paulo (BRT) -3:00', offset: -3 },
-  { value: 'America/Buenos_Aires', label: 'Buenos Aires (ART) -3:00', offset: -3 },
-  
-  // Europe
-  { value: 'Europe/London', label: 'London (GMT/BST) +0:00/+1:00', offset: 0 },
-  { value: 'Europe/Paris', label: 'Paris (CET/CEST) +1:00/+2:00', offset: 1 },
-  { value: 'Europe/Berlin', label: 'Berlin (CET/CEST) +1:00/+2:00', offset: 1 },
-  { value: 'Europe/Rome', label: 'Rome (CET/CEST) +1:00/+2:00', offset: 1 },
-  { value: 'Europe/Madrid', label: 'Madrid (CET/CEST) +1:00/+2:00', offset: 1 },
-  { value: 'Europe/Moscow', label: 'Moscow (MSK) +3:00', offset: 3 },
-  { value: 'Europe/Istanbul', label: 'Istanbul (TRT) +3:00', offset: 3 },
-  
-  // Middle East & Africa
-  { value: 'Africa/Cairo', label: 'Cairo (EET) +2:00', offset: 2 },
-  { value: 'Africa/Johannesburg', label: 'Johannesburg (SAST) +2:00', offset: 2 },
-  { value: 'Africa/Lagos', label: 'Lagos (WAT) +1:00', offset: 1 },
-  { value: 'Asia/Dubai', label: 'Dubai (GST) +4:00', offset: 4 },
-  { value: 'Asia/Riyadh', label: 'Riyadh (AST) +3:00', offset: 3 },
-  { value: 'Asia/Tehran', label: 'Tehran (IRST) +3:30', offset: 3.5 },
-  
-  // Asia
-  { value: 'Asia/Kolkata', label: 'India (IST) +5:30', offset: 5.5 },
-  { value: 'Asia/Karachi', label: 'Karachi (PKT) +5:00', offset: 5 },
-  { value: 'Asia/Dhaka', label: 'Dhaka (BST) +6:00', offset: 6 },
-  { value: 'Asia/Bangkok', label: 'Bangkok (ICT) +7:00', offset: 7 },
-  { value: 'Asia/Singapore', label: 'Singapore (SGT) +8:00', offset: 8 },
-  { value: 'Asia/Hong_Kong', label: 'Hong Kong (HKT) +8:00', offset: 8 },
-  { value: 'Asia/Shanghai', label: 'Shanghai (CST) +8:00', offset: 8 },
-  { value: 'Asia/Tokyo', label: 'Tokyo (JST) +9:00', offset: 9 },
-  { value: 'Asia/Seoul', label: 'Seoul (KST) +9:00', offset: 9 },
-  
-  // Oceania
-  { value: 'Australia/Perth', label: 'Perth (AWST) +8:00', offset: 8 },
-  { value: 'Australia/Sydney', label: 'Sydney (AEDT) +10:00/+11:00', offset: 10 },
-  { value: 'Australia/Melbourne', label: 'Melbourne (AEDT) +10:00/+11:00', offset: 10 },
-  { value: 'Pacific/Auckland', label: 'Auckland (NZDT) +12:00/+13:00', offset: 12 },
-  
-  // Pacific
-  { value: 'Pacific/Honolulu', label: 'Honolulu (HST) -10:00', offset: -10 },
-  { value: 'Pacific/Fiji', label: 'Fiji (FJT) +12:00', offset: 12 },
+// Timezone suggestions shown before anything is typed, and search results shown
+const TIMEZONE_RESULTS = 8;
+
+// How the schedule is entered: departure only (duration estimated from the
+// route), departure and arrival, or arrival and scheduled block time
+type ScheduleMode = 'departure' | 'departure-arrival' | 'arrival-block';
+
+const SCHEDULE_MODES: { value: ScheduleMode; label: string }[] = [
+  { value: 'departure', label: 'Departure' },
+  { value: 'departure-arrival', label: 'Departure + Arrival' },
+  { value: 'arrival-block', label: 'Arrival + Block Time' }
+];
+
+const MAX_BLOCK_MINUTES = 24 * 60;
+
+const HORIZON_OPTIONS: { value: HorizonDefinition; label: string; description: string }[] = [
+  {
+    value: 'ground',
+    label: 'Ground',
+    description: 'Standard sea-level sunrise and sunset times, as published for the places you fly over.'
+  },
+  {
+    value: 'window',
+    label: 'From the window',
+    description: 'Uses the lower horizon seen at cruise level: the sun rises earlier and sets later than on the ground.'
+  }
+];
+
+const SOLAR_MODEL_OPTIONS: { value: SolarModel; label: string; description: string }[] = [
+  {
+    value: 'meeus',
+    label: 'Standard',
+    description: 'Fast sun position, accurate to about a minute of sunrise time.'
+  },
+  {
+    value: 'spa',
+    label: 'High precision',
+    description: 'NREL Solar Position Algorithm: sunrise and sunset to within seconds, for photographers. Slower on long itineraries.'
+  }
 ];
 
-export function FlightInput({ onSubmit }: FlightInputProps) {
+// Intermediate airport of a multi-leg itinerary
+interface ConnectionStop {
+  airport: Airport | null;
+  search: string;
+  connectionMinutes: number;
+}
+
+// Match airports by IATA, name, city or country
+function searchAirports(airports: Airport[], query: string): Airport[] {
+  if (!query) return [];
+  const search = query.toLowerCase();
+  return airports
+    .filter(airport =>
+      airport.iata.toLowerCase().includes(search) ||
+      airport.name.toLowerCase().includes(search) ||
+      airport.city.toLowerCase().includes(search) ||
+      airport.country.toLowerCase().includes(search)
+    )
+    .slice(0, 10); // Show more results with larger database
+}
+
+export function FlightInput({ onSubmit, onSweep, onYearView, job, jobError, onCancelJob }: FlightInputProps) {
   const [origin, setOrigin] = useState<Airport | null>(null);
   const [destination, setDestination] = useState<Airport | null>(null);
   const [date, setDate] = useState<string>(new Date().toISOString().split('T')[0]);
   const [time, setTime] = useState<string>('08:00');
-  const [timezone, setTimezone] = useState<string>('UTC');
+  const [scheduleMode, setScheduleMode] = useState<ScheduleMode>('departure');
+  const [arrivalDate, setArrivalDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [arrivalTime, setArrivalTime] = useState<string>('14:00');
+  const [blockTime, setBlockTime] = useState('');
+  const [timezoneChoice, setTimezoneChoice] = useState<string | null>(null);  // Null follows the origin airport
+  const [departureDisambiguation, setDepartureDisambiguation] = useState<Disambiguation>('compatible');
+  const [arrivalDisambiguation, setArrivalDisambiguation] = useState<Disambiguation>('compatible');
   const [originSearch, setOriginSearch] = useState('');
   const [destinationSearch, setDestinationSearch] = useState('');
-  const [timezoneSearch, setTimezoneSearch] = useState('UTC +0:00');
+  const [stops, setStops] = useState<ConnectionStop[]>([]);
+  const [windGrid, setWindGrid] = useState<WindGrid | null>(null);
+  const [windFileName, setWindFileName] = useState('');
+  const [aircraftId, setAircraftId] = useState(DEFAULT_AIRCRAFT_ID);
+  const [horizon, setHorizon] = useState<HorizonDefinition>('ground');
+  const [solarModel, setSolarModel] = useState<SolarModel>('meeus');
+  const [timezoneSearch, setTimezoneSearch] = useState('');
   const [showTimezoneDropdown, setShowTimezoneDropdown] = useState(false);
   const [error, setError] = useState('');
 
   const airports = airportsData.airports as Airport[];
+  const timezone = timezoneChoice ?? origin?.timezone ?? 'UTC';
+
+  // Every airport's IANA timezone, plus UTC
+  const timeZones = useMemo(
+    () => ['UTC', ...[...new Set(airports.map(airport => airport.timezone))].sort()],
+    [airports]
+  );
 
   // Filter airports based on search (IATA, name, city, country)
-  const filteredOrigins = useMemo(() => {
-    if (!originSearch) return [];
-    const search = originSearch.toLowerCase();
-    return airports
-      .filter(airport =>
-        airport.iata.toLowerCase().includes(search) ||
-        airport.name.toLowerCase().includes(search) ||
-        airport.city.toLowerCase().includes(search) ||
-        airport.country.toLowerCase().includes(search)
-      )
-      .slice(0, 10); // Show more results with larger database
-  }, [originSearch, airports]);
-
-  const filteredDestinations = useMemo(() => {
-    if (!destinationSearch) return [];
-    const search = destinationSearch.toLowerCase();
-    return airports
-      .filter(airport =>
-        airport.iata.toLowerCase().includes(search) ||
-        airport.name.toLowerCase().includes(search) ||
-        airport.city.toLowerCase().includes(search) ||
-        airport.country.toLowerCase().includes(search)
-      )
-      .slice(0, 10); // Show more results with larger database
-  }, [destinationSearch, airports]);
-
-  // Filter timezones based on search
+  const filteredOrigins = useMemo(
+    () => searchAirports(airports, originSearch),
+    [originSearch, airports]
+  );
+
+  const filteredDestinations = useMemo(
+    () => searchAirports(airports, destinationSearch),
+    [destinationSearch, airports]
+  );
+
+  // Filter timezones based on search; the route's own zones first
   const filteredTimezones = useMemo(() => {
-    if (!timezoneSearch) return TIMEZONES.slice(0, 8); // Show first 8 by default
-    const search = timezoneSearch.toLowerCase();
-    return TIMEZONES.filter(tz =>
-      tz.label.toLowerCase().includes(search) ||
-      tz.value.toLowerCase().includes(search)
-    ).slice(0, 8); // Limit to 8 results
-  }, [timezoneSearch]);
+    if (!timezoneSearch) {
+      return [...new Set([origin?.timezone, destination?.timezone, 'UTC'].filter((zone): zone is string => !!zone))];
+    }
+    const search = timezoneSearch.toLowerCase().replace(/ /g, '_');
+    return timeZones.filter(zone => zone.toLowerCase().includes(search)).slice(0, TIMEZONE_RESULTS);
+  }, [timezoneSearch, timeZones, origin, destination]);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+  // Validate the form and convert it to flight data; null after reporting an error
+  const buildFlightData = (): FlightData | null => {
     setError('');
 
     if (!origin || !destination) {
       setError('Please select both origin and destination airports');
-      return;
+      return null;
     }
 
     if (origin.iata === destination.iata) {
       setError('Origin and destination must be different airports');
-      return;
+      return null;
     }
 
-    // Convert local time in selected timezone to UTC
+    if (stops.some(stop => !stop.airport)) {
+      setError('Please select an airport for every connection');
+      return null;
+    }
+
+    // Consecutive airports of the itinerary must differ
+    const route = [origin, ...stops.map(stop => stop.airport as Airport), destination];
+    for (let i = 1; i < route.length; i++) {
+      if (route[i].iata === route[i - 1].iata) {
+        setError('Consecutive airports in the itinerary must be different');
+        return null;
+      }
+    }
+
+    if (stops.some(stop => isNaN(stop.connectionMinutes) || stop.connectionMinutes < 0)) {
+      setError('Connection times must be zero or more minutes');
+      return null;
+    }
+
+    // Convert the entered local times to a UTC departure (and block time)
     let departureDate: Date;
-    
-    try {
-      // Parse date and time parts
-      const [year, month, day] = date.split('-').map(Number);
-      const [hours, minutes] = time.split(':').map(Number);
-      
-      if (timezone === 'UTC') {
-        // Direct UTC time
-        departureDate = new Date(Date.UTC(year, month - 1, day, hours, minutes, 0));
-      } else {
-        // Get the timezone offset from our TIMEZONES array
-        const selectedTz = TIMEZONES.find(tz => tz.value === timezone);
-        if (!selectedTz) {
-          setError('Invalid timezone selected');
-          return;
-        }
-        
-        // Create UTC date by subtracting the timezone offset
-        // For example: 8:00 AM IST (UTC+5.5) should become 2:30 AM UTC
-        const offsetHours = selectedTz.offset;
-        const offsetMinutes = Math.floor((offsetHours % 1) * 60);
-        const offsetHoursInt = Math.floor(offsetHours);
-        
-        // Create date in "local" time (treating it as if it's in the selected timezone)
-        let utcHours = hours - offsetHoursInt;
-        let utcMinutes = minutes - offsetMinutes;
-        let utcDay = day;
-        let utcMonth = month;
-        let utcYear = year;
-        
-        // Handle minute overflow/underflow
-        if (utcMinutes < 0) {
-          utcMinutes += 60;
-          utcHours -= 1;
-        } else if (utcMinutes >= 60) {
-          utcMinutes -= 60;
-          utcHours += 1;
-        }
-        
-        // Handle hour overflow/underflow
-        if (utcHours < 0) {
-          utcHours += 24;
-          utcDay -= 1;
-          if (utcDay < 1) {
-            utcMonth -= 1;
-            if (utcMonth < 1) {
-              utcMonth = 12;
-              utcYear -= 1;
-            }
-            // Get last day of previous month (simplified)
-            utcDay = new Date(utcYear, utcMonth, 0).getDate();
-          }
-        } else if (utcHours >= 24) {
-          utcHours -= 24;
-          utcDay += 1;
-          const daysInMonth = new Date(utcYear, utcMonth, 0).getDate();
-          if (utcDay > daysInMonth) {
-            utcDay = 1;
-            utcMonth += 1;
-            if (utcMonth > 12) {
-              utcMonth = 1;
-              utcYear += 1;
-            }
+    let blockMinutes: number | undefined;
+
+    if (scheduleMode !== 'departure') {
+      if (stops.length > 0) {
+        setError('Arrival times are only supported for direct flights');
+        return null;
+      }
+
+      // Each time is local to its own airport
+      try {
+        const arrival = localTimeToUtc(arrivalDate, arrivalTime, destination.timezone, arrivalDisambiguation);
+        if (scheduleMode === 'departure-arrival') {
+          departureDate = localTimeToUtc(date, time, origin.timezone, departureDisambiguation);
+          blockMinutes = (arrival.getTime() - departureDate.getTime()) / 60000;
+        } else {
+          const minutes = parseDuration(blockTime);
+          if (minutes === null) {
+            setError('Enter the block time as hours and minutes, e.g. 7:45');
+            return null;
           }
+          blockMinutes = minutes;
+          departureDate = new Date(arrival.getTime() - minutes * 60000);
         }
-        
-        departureDate = new Date(Date.UTC(utcYear, utcMonth - 1, utcDay, utcHours, utcMinutes, 0));
-      }
-      
-      if (isNaN(departureDate.getTime())) {
+      } catch (error) {
         setError('Invalid date or time');
-        return;
+        return null;
+      }
+
+      if (blockMinutes <= 0) {
+        setError('Arrival must be after departure (check the dates in each local timezone)');
+        return null;
+      }
+      if (blockMinutes > MAX_BLOCK_MINUTES) {
+        setError('Block time must be less than 24 hours');
+        return null;
+      }
+    } else {
+      // Convert local time in the selected timezone to UTC, with its DST rules
+      try {
+        departureDate = localTimeToUtc(date, time, timezone, departureDisambiguation);
+      } catch (error) {
+        setError('Invalid date, time, or timezone');
+        return null;
       }
-    } catch (error) {
-      setError('Invalid date, time, or timezone');
-      return;
     }
 
-    onSubmit({
+    const legs: ItineraryLeg[] | undefined = stops.length > 0
+      ? route.slice(1).map((airport, i) => ({
+          origin: route[i],
+          destination: airport,
+          connectionMinutes: stops[i]?.connectionMinutes
+        }))
+      : undefined;
+
+    return {
       origin,
       destination,
       departureDate,
-      departureTime: time,
-      timezone
-    });
+      departureTime: departureDate.toISOString().slice(11, 16),
+      timezone: scheduleMode === 'departure' ? timezone : origin.timezone,
+      legs,
+      windGrid: windGrid || undefined,
+      aircraft: getAircraftProfile(aircraftId),
+      blockMinutes,
+      horizon,
+      solarModel
+    };
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = buildFlightData();
+    if (data) onSubmit(data);
+  };
+
+  const handleSweep = () => {
+    const data = buildFlightData();
+    if (data && onSweep) onSweep(data);
+  };
+
+  const handleYearView = () => {
+    const data = buildFlightData();
+    if (data && onYearView) onYearView(data);
+  };
+
+  // Analyse a recorded track instead of a generated route. Selected airports
+  // take precedence; otherwise the airports nearest the track ends are used.
+  const handleTrackFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError('');
+
+    try {
+      const track = parseTrackFile(await file.text(), file.name);
+      const first = track[0];
+      const last = track[track.length - 1];
+      const trackOrigin = origin || findNearestAirport(first.lat, first.lon, airports);
+      const trackDestination = destination || findNearestAirport(last.lat, last.lon, airports);
+
+      if (!trackOrigin || !trackDestination) {
+        setError('Could not match the track to airports');
+        return;
+      }
+
+      onSubmit({
+        origin: trackOrigin,
+        destination: trackDestination,
+        departureDate: first.timestamp,
+        departureTime: first.timestamp.toISOString().slice(11, 16),
+        timezone,
+        track,
+        aircraft: getAircraftProfile(aircraftId),
+        horizon,
+        solarModel
+      });
+    } catch (err) {
+      setError(`Could not import track: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const handleWindFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setWindGrid(null);
+    setWindFileName('');
+    if (!file) return;
+
+    try {
+      setWindGrid(await loadWindGridFile(file));
+      setWindFileName(file.name);
+      setError('');
+    } catch (err) {
+      setError(`Could not load wind data: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const addStop = () => {
+    setStops([...stops, { airport: null, search: '', connectionMinutes: DEFAULT_CONNECTION_MINUTES }]);
+  };
+
+  const updateStop = (index: number, changes: Partial<ConnectionStop>) => {
+    setStops(stops.map((stop, i) => (i === index ? { ...stop, ...changes } : stop)));
+    setError('');
+  };
+
+  const removeStop = (index: number) => {
+    setStops(stops.filter((_, i) => i !== index));
   };
 
   const selectOrigin = (airport: Airport) => {
@@ -225,12 +329,23 @@ export function FlightInput({ onSubmit }: FlightInputProps) {
     setDestinationSearch(`${airport.iata} - ${airport.city}`);
   };
 
-  const selectTimezone = (tz: typeof TIMEZONES[0]) => {
-    setTimezone(tz.value);
-    setTimezoneSearch(tz.label);
+  const selectTimezone = (zone: string) => {
+    setTimezoneChoice(zone === origin?.timezone ? null : zone);
+    setTimezoneSearch('');
     setShowTimezoneDropdown(false);
   };
 
+  // "America/New_York (UTC-4:00)", with the offset on the departure date
+  const timezoneLabel = (zone: string) => {
+    let offset = 0;
+    try {
+      offset = getTimeZoneOffset(localTimeToUtc(date, time, zone), zone);
+    } catch {
+      offset = getTimeZoneOffset(new Date(), zone);
+    }
+    return `${zone.replace(/_/g, ' ')} (${formatUtcOffset(offset)})`;
+  };
+
   return (
     <div className="w-full max-w-4xl mx-auto p-8 bg-gray-900/50 backdrop-blur-sm rounded-lg shadow-2xl border border-gray-700/50">
       <div className="mb-6">
@@ -287,6 +402,25 @@ export function FlightInput({ onSubmit }: FlightInputProps) {
           )}
         </div>
 
+        {/* Connections (multi-leg itinerary) */}
+        {stops.map((stop, index) => (
+          <ConnectionStopInput
+            key={index}
+            index={index}
+            stop={stop}
+            airports={airports}
+            onChange={(changes) => updateStop(index, changes)}
+            onRemove={() => removeStop(index)}
+          />
+        ))}
+        <button
+          type="button"
+          onClick={addStop}
+          className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
+        >
+          + Add connection
+        </button>
+
         {/* Destination Airport */}
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -333,146 +467,487 @@ export function FlightInput({ onSubmit }: FlightInputProps) {
           )}
         </div>
 
-        {/* Date, Time and Timezone - All in one line */}
+        {/* Schedule input mode */}
         <div>
-          <div className="grid grid-cols-3 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-300 mb-2">
-                Departure Date
-              </label>
-              <div className="relative">
-                <input
-                  ref={(el) => {
-                    if (el) (window as any).dateInputRef = el;
-                  }}
-                  type="date"
-                  value={date}
-                  onChange={(e) => setDate(e.target.value)}
-                  className="w-full pl-4 pr-10 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent [color-scheme:dark]"
-                  style={{ colorScheme: 'dark' }}
-                />
-                <button
-                  type="button"
-                  onClick={() => (window as any).dateInputRef?.showPicker?.()}
-                  className="absolute right-2 top-1/2 transform -translate-y-1/2 p-1 hover:bg-white/10 rounded transition-colors"
-                  title="Open calendar"
-                >
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="#9CA3AF"
-                    strokeWidth="1.5"
-                    className="w-5 h-5"
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Schedule
+          </label>
+          <div className="grid grid-cols-3 gap-2">
+            {SCHEDULE_MODES.map(mode => (
+              <button
+                key={mode.value}
+                type="button"
+                onClick={() => setScheduleMode(mode.value)}
+                className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+                  scheduleMode === mode.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-800/50 border border-gray-600 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+          {scheduleMode !== 'departure' && (
+            <div className="mt-1 text-xs text-gray-400">
+              Enter each time in the local time of its airport. The flight profile is fitted to the scheduled block time.
+            </div>
+          )}
+        </div>
+
+        {/* Date, Time and Timezone - All in one line */}
+        {scheduleMode !== 'arrival-block' && (
+          <div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Departure Date
+                </label>
+                <div className="relative">
+                  <input
+                    ref={(el) => {
+                      if (el) (window as any).dateInputRef = el;
+                    }}
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    className="w-full pl-4 pr-10 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent [color-scheme:dark]"
+                    style={{ colorScheme: 'dark' }}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => (window as any).dateInputRef?.showPicker?.()}
+                    className="absolute right-2 top-1/2 transform -translate-y-1/2 p-1 hover:bg-white/10 rounded transition-colors"
+                    title="Open calendar"
                   >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      d="M6.75 3v2.25M17.25 3v2.25M3 18.75V7.5a2.25 2.25 0 012.25-2.25h13.5A2.25 2.25 0 0121 7.5v11.25m-18 0A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75m-18 0v-7.5A2.25 2.25 0 015.25 9h13.5A2.25 2.25 0 0121 11.25v7.5"
-                    />
-                  </svg>
-                </button>
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="#9CA3AF"
+                      strokeWidth="1.5"
+                      className="w-5 h-5"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M6.75 3v2.25M17.25 3v2.25M3 18.75V7.5a2.25 2.25 0 012.25-2.25h13.5A2.25 2.25 0 0121 7.5v11.25m-18 0A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75m-18 0v-7.5A2.25 2.25 0 015.25 9h13.5A2.25 2.25 0 0121 11.25v7.5"
+                      />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Departure Time
+                </label>
+                <div className="relative">
+                  <input
+                    ref={(el) => {
+                      if (el) (window as any).timeInputRef = el;
+                    }}
+                    type="time"
+                    value={time}
+                    onChange={(e) => setTime(e.target.value)}
+                    className="w-full pl-4 pr-10 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent [color-scheme:dark]"
+                    style={{ colorScheme: 'dark' }}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => (window as any).timeInputRef?.showPicker?.()}
+                    className="absolute right-2 top-1/2 transform -translate-y-1/2 p-1 hover:bg-white/10 rounded transition-colors"
+                    title="Open time picker"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="#9CA3AF"
+                      strokeWidth="1.5"
+                      className="w-5 h-5"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z"
+                      />
+                    </svg>
+                  </button>
+                </div>
               </div>
+
+              {scheduleMode === 'departure' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Timezone
+                  </label>
+                  <div className="relative">
+                    <input
+                      type="text"
+                      value={showTimezoneDropdown ? timezoneSearch : timezoneLabel(timezone)}
+                      onChange={(e) => {
+                        setTimezoneSearch(e.target.value);
+                        setShowTimezoneDropdown(true);
+                      }}
+                      onFocus={() => {
+                        setTimezoneSearch('');
+                        setShowTimezoneDropdown(true);
+                      }}
+                      onBlur={() => {
+                        // Delay to allow click on dropdown
+                        setTimeout(() => setShowTimezoneDropdown(false), 200);
+                      }}
+                      placeholder="Search timezone"
+                      className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    {showTimezoneDropdown && filteredTimezones.length > 0 && (
+                      <div className="absolute z-10 w-full mt-1 bg-gray-800 border border-gray-600 rounded-lg shadow-xl max-h-60 overflow-auto">
+                        {filteredTimezones.map((zone) => (
+                          <button
+                            key={zone}
+                            type="button"
+                            onClick={() => selectTimezone(zone)}
+                            className="w-full px-4 py-2 text-left hover:bg-gray-700 focus:bg-gray-700 focus:outline-none transition-colors"
+                          >
+                            <div className="text-sm text-white">{timezoneLabel(zone)}</div>
+                            {zone === origin?.timezone && <div className="text-xs text-gray-400">Origin airport</div>}
+                            {zone === destination?.timezone && <div className="text-xs text-gray-400">Destination airport</div>}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="mt-1 text-xs text-gray-400">
+                    {timezoneChoice === null ? (
+                      origin ? 'Origin airport local time' : 'Defaults to the origin airport'
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setTimezoneChoice(null)}
+                        className="hover:text-white transition-colors"
+                      >
+                        Use origin airport time
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Timezone
+                  </label>
+                  <div className="px-4 py-3 text-gray-300">
+                    {origin ? origin.timezone : 'Origin airport local time'}
+                  </div>
+                </div>
+              )}
             </div>
+            <DaylightSavingNotice
+              date={date}
+              time={time}
+              timeZone={scheduleMode === 'departure' ? timezone : origin?.timezone}
+              value={departureDisambiguation}
+              onChange={setDepartureDisambiguation}
+            />
+          </div>
+        )}
 
+        {/* Arrival date and time, with block time when departure is not given */}
+        {scheduleMode !== 'departure' && (
+          <div>
+          <div className="grid grid-cols-3 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                Departure Time
+                Arrival Date
               </label>
-              <div className="relative">
-                <input
-                  ref={(el) => {
-                    if (el) (window as any).timeInputRef = el;
-                  }}
-                  type="time"
-                  value={time}
-                  onChange={(e) => setTime(e.target.value)}
-                  className="w-full pl-4 pr-10 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent [color-scheme:dark]"
-                  style={{ colorScheme: 'dark' }}
-                />
-                <button
-                  type="button"
-                  onClick={() => (window as any).timeInputRef?.showPicker?.()}
-                  className="absolute right-2 top-1/2 transform -translate-y-1/2 p-1 hover:bg-white/10 rounded transition-colors"
-                  title="Open time picker"
-                >
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="#9CA3AF"
-                    strokeWidth="1.5"
-                    className="w-5 h-5"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z"
-                    />
-                  </svg>
-                </button>
-              </div>
+              <input
+                type="date"
+                value={arrivalDate}
+                onChange={(e) => setArrivalDate(e.target.value)}
+                className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent [color-scheme:dark]"
+                style={{ colorScheme: 'dark' }}
+              />
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                Timezone
+                Arrival Time
               </label>
-              <div className="relative">
+              <input
+                type="time"
+                value={arrivalTime}
+                onChange={(e) => setArrivalTime(e.target.value)}
+                className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent [color-scheme:dark]"
+                style={{ colorScheme: 'dark' }}
+              />
+              <div className="mt-1 text-xs text-gray-400">
+                {destination ? `Local time in ${destination.timezone}` : 'Destination airport local time'}
+              </div>
+            </div>
+
+            {scheduleMode === 'arrival-block' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Block Time
+                </label>
                 <input
                   type="text"
-                  value={timezoneSearch}
-                  onChange={(e) => {
-                    setTimezoneSearch(e.target.value);
-                    setShowTimezoneDropdown(true);
-                  }}
-                  onFocus={() => setShowTimezoneDropdown(true)}
-                  onBlur={() => {
-                    // Delay to allow click on dropdown
-                    setTimeout(() => setShowTimezoneDropdown(false), 200);
-                  }}
-                  placeholder="Search timezone"
+                  value={blockTime}
+                  onChange={(e) => setBlockTime(e.target.value)}
+                  placeholder="h:mm, e.g. 7:45"
                   className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
-                {showTimezoneDropdown && filteredTimezones.length > 0 && (
-                  <div className="absolute z-10 w-full mt-1 bg-gray-800 border border-gray-600 rounded-lg shadow-xl max-h-60 overflow-auto">
-                    {filteredTimezones.map((tz) => (
-                      <button
-                        key={tz.value}
-                        type="button"
-                        onClick={() => selectTimezone(tz)}
-                        className="w-full px-4 py-2 text-left hover:bg-gray-700 focus:bg-gray-700 focus:outline-none transition-colors"
-                      >
-                        <div className="text-sm text-white">{tz.label}</div>
-                      </button>
-                    ))}
-                  </div>
-                )}
+                <div className="mt-1 text-xs text-gray-400">
+                  Gate to gate, as printed on the ticket
+                </div>
               </div>
-              <div className="mt-1 text-xs text-gray-400">
-                Selected: {TIMEZONES.find(tz => tz.value === timezone)?.label || 'UTC'}
-              </div>
-            </div>
+            )}
+          </div>
+          <DaylightSavingNotice
+            date={arrivalDate}
+            time={arrivalTime}
+            timeZone={destination?.timezone}
+            value={arrivalDisambiguation}
+            onChange={setArrivalDisambiguation}
+          />
+          </div>
+        )}
+
+        {/* Aircraft type */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Aircraft Type
+          </label>
+          <select
+            value={aircraftId}
+            onChange={(e) => setAircraftId(e.target.value)}
+            className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {AIRCRAFT_PROFILES.map(profile => (
+              <option key={profile.id} value={profile.id} className="bg-gray-800">
+                {profile.name}
+              </option>
+            ))}
+          </select>
+          <div className="mt-1 text-xs text-gray-400">
+            Sets cruise speed, flight level, climb and descent, and the window view used for seat advice.
+          </div>
+        </div>
+
+        {/* Sunrise/sunset definition */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Sunrise &amp; Sunset
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {HORIZON_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setHorizon(option.value)}
+                className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+                  horizon === option.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-800/50 border border-gray-600 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="mt-1 text-xs text-gray-400">
+            {HORIZON_OPTIONS.find(option => option.value === horizon)?.description}
+          </div>
+        </div>
+
+        {/* Sun position algorithm */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Solar Model
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {SOLAR_MODEL_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setSolarModel(option.value)}
+                className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+                  solarModel === option.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-800/50 border border-gray-600 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="mt-1 text-xs text-gray-400">
+            {SOLAR_MODEL_OPTIONS.find(option => option.value === solarModel)?.description}
+          </div>
+        </div>
+
+        {/* Optional upper-air wind data */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Wind Data (optional)
+          </label>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleWindFile}
+            className="w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-700 file:text-white hover:file:bg-gray-600"
+          />
+          <div className="mt-1 text-xs text-gray-400">
+            {windGrid
+              ? `✓ ${windFileName}: ${windGrid.levels.length} levels, ${windGrid.lats.length}×${windGrid.lons.length} grid${windGrid.validTime ? `, valid ${windGrid.validTime}` : ''}`
+              : 'JSON grid of u/v winds by flight level, latitude and longitude. Without it, still air is assumed.'}
+          </div>
+        </div>
+
+        {/* Recorded track import */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Or Import a Flown Track
+          </label>
+          <input
+            type="file"
+            accept=".gpx,.kml,.csv"
+            onChange={handleTrackFile}
+            className="w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-700 file:text-white hover:file:bg-gray-600"
+          />
+          <div className="mt-1 text-xs text-gray-400">
+            GPX, KML or ADS-B CSV (time, lat, lon, altitude, track). Recorded positions and times are analysed as-is.
           </div>
         </div>
 
         {/* Error Message */}
-        {error && (
+        {(error || jobError) && (
           <div className="p-4 bg-red-900/30 border border-red-700 rounded-lg">
-            <p className="text-red-300 text-sm">{error}</p>
+            <p className="text-red-300 text-sm">{error || jobError}</p>
           </div>
         )}
 
+        {job && <JobProgress status={job} onCancel={onCancelJob} />}
+
         {/* Submit Button */}
         <button
           type="submit"
-          className="w-full py-4 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-500 focus:ring-4 focus:ring-blue-500/50 transition-all transform hover:scale-[1.02]"
+          disabled={!!job}
+          className="w-full py-4 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-500 focus:ring-4 focus:ring-blue-500/50 transition-all transform hover:scale-[1.02] disabled:opacity-50 disabled:pointer-events-none"
         >
           Calculate Flight Route
         </button>
+
+        {(onSweep || onYearView) && (
+          <div className="grid grid-cols-2 gap-4">
+            {onSweep && (
+              <button
+                type="button"
+                onClick={handleSweep}
+                disabled={!!job}
+                className="w-full py-3 bg-gray-700 text-white font-medium rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+              >
+                Compare Departure Times
+              </button>
+            )}
+            {onYearView && (
+              <button
+                type="button"
+                onClick={handleYearView}
+                disabled={!!job}
+                className="w-full py-3 bg-gray-700 text-white font-medium rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+              >
+                Year View
+              </button>
+            )}
+          </div>
+        )}
       </form>
     </div>
   );
 }
 
+// Airport search and connection time for one intermediate stop
+function ConnectionStopInput({
+  index,
+  stop,
+  airports,
+  onChange,
+  onRemove
+}: {
+  index: number;
+  stop: ConnectionStop;
+  airports: Airport[];
+  onChange: (changes: Partial<ConnectionStop>) => void;
+  onRemove: () => void;
+}) {
+  const results = useMemo(
+    () => searchAirports(airports, stop.search),
+    [stop.search, airports]
+  );
 
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-300">
+          Via (connection {index + 1})
+        </label>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="text-xs text-gray-400 hover:text-red-300 transition-colors"
+        >
+          Remove
+        </button>
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+        <div className="relative col-span-2">
+          <input
+            type="text"
+            value={stop.search}
+            onChange={(e) => onChange({ search: e.target.value })}
+            onFocus={() => onChange({ search: '', airport: null })}
+            placeholder="Search connecting airport"
+            className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          {results.length > 0 && stop.search && !stop.airport && (
+            <div className="absolute z-10 w-full mt-1 bg-gray-800 border border-gray-600 rounded-lg shadow-xl max-h-60 overflow-auto">
+              {results.map((airport) => (
+                <button
+                  key={airport.iata}
+                  type="button"
+                  onClick={() => onChange({ airport, search: `${airport.iata} - ${airport.city}` })}
+                  className="w-full px-4 py-3 text-left hover:bg-gray-700 focus:bg-gray-700 focus:outline-none transition-colors"
+                >
+                  <div className="font-semibold text-white">
+                    {airport.iata} - {airport.city}
+                  </div>
+                  <div className="text-sm text-gray-300">{airport.name}</div>
+                  <div className="text-xs text-gray-400">{airport.country}</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="relative">
+          <input
+            type="number"
+            min={0}
+            step={5}
+            value={stop.connectionMinutes}
+            onChange={(e) => onChange({ connectionMinutes: parseInt(e.target.value, 10) })}
+            className="w-full pl-4 pr-12 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            title="Connection time"
+          />
+          <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-sm text-gray-400">min</span>
+        </div>
+      </div>
+      {stop.airport && (
+        <div className="mt-2 text-sm text-green-400">
+          ✓ Selected: {stop.airport.iata} - {stop.airport.name}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,31 +1,266 @@
-import { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import Globe from 'globe.gl';
 import * as THREE from 'three';
-import { FlightTimeline, TimelinePoint } from '@/types';
+import { AircraftSide, FlightTimeline, SunEventType, TimelinePoint } from '@/types';
+import { getSubsolarPoint } from '@/utils/solar';
+import { calculateAircraftSunExposure } from '@/utils/aircraft';
+import { calculateDistance, vincentyDirect } from '@/utils/geodesic';
+import { CameraMode, GlobeView, getRouteFitView, interpolateView } from '@/utils/globeCamera';
+import { SUNRISE_SUNSET_ALTITUDE, TwilightType } from '@/utils/daylight';
 
 interface Globe3DProps {
   timeline: FlightTimeline | null;
   currentPointIndex: number;
-  onPointHover?: (point: TimelinePoint | null) => void;
-  onPointClick?: (index: number) => void;
+  onPointHover?: (point: TimelinePoint | null) => void;  // Point under the pointer on the route or a marker
+  onPointClick?: (index: number) => void;  // Timeline index of a clicked route segment or marker
+  cameraMode?: CameraMode;
+  headingUp?: boolean;  // Follow mode: turn the globe so the aircraft flies up the screen
+}
+
+type Vector = { x: number; y: number; z: number };
+
+const NORTH_UP: Vector = { x: 0, y: 1, z: 0 };
+
+/** Camera move when the route or mode changes, and between points when following */
+const MODE_TRANSITION_MS = 1000;
+const FOLLOW_TRANSITION_MS = 400;
+
+/** Height of the camera when it starts following the aircraft, in globe radii */
+const FOLLOW_ALTITUDE = 0.8;
+
+/**
+ * Screen-up direction that puts a point's heading at the top of the view
+ */
+function getHeadingUp(globe: any, point: TimelinePoint): Vector {
+  const ahead = vincentyDirect(point.lat, point.lon, point.heading, 100);
+  const from = globe.getCoords(point.lat, point.lon, 0);
+  const to = globe.getCoords(ahead.lat, ahead.lon, 0);
+  return new THREE.Vector3(to.x - from.x, to.y - from.y, to.z - from.z).normalize();
 }
 
 /**
- * Convert sun azimuth/altitude to 3D Cartesian coordinates
+ * Ease the camera to a view and roll it to an up direction
+ * Without a target altitude the camera keeps its height, so the user can
+ * zoom while it moves. The move replaces any still in progress.
  */
-function calculateSunPosition3D(
-  azimuth: number,
-  altitude: number,
-  distance: number = 500
-): { x: number; y: number; z: number } {
-  const azimuthRad = (azimuth - 90) * Math.PI / 180;
-  const altitudeRad = altitude * Math.PI / 180;
-
-  return {
-    x: distance * Math.cos(altitudeRad) * Math.cos(azimuthRad),
-    y: distance * Math.sin(altitudeRad),
-    z: distance * Math.cos(altitudeRad) * Math.sin(azimuthRad)
+function flyCamera(
+  globe: any,
+  to: Omit<GlobeView, 'altitude'> & { altitude?: number },
+  up: Vector,
+  duration: number,
+  frameRef: { current: number | null }
+) {
+  if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+
+  const camera = globe.camera();
+  const from: GlobeView = globe.pointOfView();
+  const fromUp = new THREE.Vector3(camera.up.x, camera.up.y, camera.up.z);
+  const start = performance.now();
+
+  const step = (now: number) => {
+    const t = Math.min(1, (now - start) / duration);
+    const eased = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;  // Cubic in-out
+
+    const target = { ...to, altitude: to.altitude ?? globe.pointOfView().altitude };
+    globe.pointOfView(interpolateView(from, target, eased));
+    const roll = new THREE.Vector3(
+      fromUp.x + (up.x - fromUp.x) * eased,
+      fromUp.y + (up.y - fromUp.y) * eased,
+      fromUp.z + (up.z - fromUp.z) * eased
+    ).normalize();
+    camera.up.set(roll.x, roll.y, roll.z);
+
+    frameRef.current = t < 1 ? requestAnimationFrame(step) : null;
   };
+  frameRef.current = requestAnimationFrame(step);
+}
+
+/** Route colours where the sun is up and down */
+const ROUTE_DAY_COLOR = '#4fc3f7';
+const ROUTE_NIGHT_COLOR = '#1e88e5';
+
+/** Aircraft height above the surface in globe radii, and length in globe units (radius 100) */
+const AIRCRAFT_ALTITUDE = 0.03;
+const AIRCRAFT_SIZE = 3;
+
+const SIDE_LABELS: Record<AircraftSide, string> = {
+  LEFT: 'Left side',
+  RIGHT: 'Right side',
+  OVERHEAD: 'Overhead',
+  NONE: 'No sun'
+};
+
+// Marker colours of sun events on the route: sunrise/sunset, golden hour, then twilight
+function sunEventColor(type: SunEventType): string {
+  if (type === 'sunrise' || type === 'sunset') return '#f97316';
+  if (type.startsWith('golden-hour')) return '#fbbf24';
+  return type.startsWith('blue-hour') ? '#60a5fa' : '#818cf8';
+}
+
+const sinAltitude = (degrees: number) => Math.sin(degrees * Math.PI / 180).toFixed(6);
+
+/**
+ * Globe surface lit by the real sun: the day texture where the sun is up,
+ * city lights at night and a twilight band between
+ * The terminator is at the standard sunrise altitude and twilight fades out
+ * at the end of astronomical twilight, the same altitudes isDaylight uses.
+ */
+function createDayNightMaterial(): THREE.ShaderMaterial {
+  const loader = new THREE.TextureLoader();
+
+  return new THREE.ShaderMaterial({
+    uniforms: {
+      dayTexture: { value: loader.load('//unpkg.com/three-globe/example/img/earth-blue-marble.jpg') },
+      nightTexture: { value: loader.load('//unpkg.com/three-globe/example/img/earth-night.jpg') },
+      sunDirection: { value: new THREE.Vector3(1, 0, 0) }  // World space, unit length
+    },
+    vertexShader: `
+      varying vec3 vNormal;
+      varying vec2 vUv;
+
+      void main() {
+        vNormal = normalize(mat3(modelMatrix) * normal);
+        vUv = uv;
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+      }
+    `,
+    fragmentShader: `
+      uniform sampler2D dayTexture;
+      uniform sampler2D nightTexture;
+      uniform vec3 sunDirection;
+      varying vec3 vNormal;
+      varying vec2 vUv;
+
+      const float SUNRISE = ${sinAltitude(SUNRISE_SUNSET_ALTITUDE)};
+      const float TWILIGHT_END = ${sinAltitude(TwilightType.ASTRONOMICAL)};
+
+      void main() {
+        // Sine of the sun's geometric altitude at this point
+        float sunHeight = dot(normalize(vNormal), sunDirection);
+
+        vec3 dayColor = texture2D(dayTexture, vUv).rgb;
+        vec3 nightColor = texture2D(nightTexture, vUv).rgb;
+
+        float daylight = smoothstep(SUNRISE - 0.005, SUNRISE + 0.005, sunHeight);
+        float twilight = smoothstep(TWILIGHT_END, SUNRISE, sunHeight);
+
+        vec3 lit = dayColor * (0.55 + 0.45 * sqrt(max(sunHeight, 0.0)));
+        vec3 dusk = nightColor * (1.0 - twilight)
+          + dayColor * 0.3 * twilight
+          + vec3(1.0, 0.45, 0.2) * 0.12 * twilight * twilight;
+
+        gl_FragColor = vec4(mix(dusk, lit, daylight), 1.0);
+      }
+    `
+  });
+}
+
+/**
+ * Unit vector from the globe's centre towards the sun at an instant
+ */
+function getSunDirection(globe: any, date: Date): THREE.Vector3 {
+  const { lat, lon } = getSubsolarPoint(date);
+  const { x, y, z } = globe.getCoords(lat, lon, 0);
+  return new THREE.Vector3(x, y, z).normalize();
+}
+
+/**
+ * Point the globe's shading, the sun light and the sun sphere at the sun
+ */
+function updateSun(globe: any, date: Date, sun: THREE.Object3D | null) {
+  const scene = globe.scene();
+  const direction = getSunDirection(globe, date);
+
+  const material = globe.globeMaterial();
+  if (material instanceof THREE.ShaderMaterial) {
+    material.uniforms.sunDirection.value.copy(direction);
+  }
+
+  const sunLight = scene.getObjectByName('sunLight');
+  if (sunLight) {
+    sunLight.position.copy(direction).multiplyScalar(500);
+  }
+
+  sun?.position.copy(direction).multiplyScalar(400);
+}
+
+// Simple sun sphere - no rays, no glow, no effects
+function createSun(): THREE.Mesh {
+  const sun = new THREE.Mesh(new THREE.SphereGeometry(15, 32, 32), new THREE.MeshBasicMaterial({ color: 0xffdd00 }));
+  sun.name = 'sun';
+  return sun;
+}
+
+/**
+ * Flat aircraft silhouette, nose along +Z and top along +Y, so lookAt
+ * points it along its heading
+ */
+function createAircraft(): THREE.Mesh {
+  const outline: [number, number][] = [
+    [0, 20], [3, 14], [3, 6], [20, -6], [20, -9], [3, -6], [3, -14], [7, -20], [4, -20], [0, -17],
+    [-4, -20], [-7, -20], [-3, -14], [-3, -6], [-20, -9], [-20, -6], [-3, 6], [-3, 14]
+  ];
+  const shape = new THREE.Shape();
+  outline.forEach(([x, y], i) => {
+    const scaled: [number, number] = [x * AIRCRAFT_SIZE / 40, y * AIRCRAFT_SIZE / 40];
+    if (i === 0) shape.moveTo(...scaled);
+    else shape.lineTo(...scaled);
+  });
+  shape.closePath();
+
+  const aircraft = new THREE.Mesh(
+    new THREE.ShapeGeometry(shape).rotateX(Math.PI / 2),
+    new THREE.MeshBasicMaterial({ color: 0xffffff, side: THREE.DoubleSide })
+  );
+  aircraft.name = 'aircraft';
+  aircraft.visible = false;
+  return aircraft;
+}
+
+/**
+ * Move the aircraft to a point, above the surface and facing its heading
+ */
+function placeAircraft(globe: any, aircraft: THREE.Object3D, point: TimelinePoint) {
+  const position = globe.getCoords(point.lat, point.lon, AIRCRAFT_ALTITUDE);
+  const ahead = vincentyDirect(point.lat, point.lon, point.heading, 100);
+  const target = globe.getCoords(ahead.lat, ahead.lon, AIRCRAFT_ALTITUDE);
+
+  aircraft.position.set(position.x, position.y, position.z);
+  aircraft.up.set(position.x, position.y, position.z).normalize();
+  aircraft.lookAt(target.x, target.y, target.z);
+  aircraft.visible = true;
+}
+
+// Free the GPU memory of an object no longer drawn
+function disposeMesh(mesh: THREE.Mesh) {
+  mesh.geometry.dispose();
+  mesh.material.dispose();
+}
+
+// Timeline point nearest a position, by great-circle distance
+function findNearestPointIndex(points: TimelinePoint[], lat: number, lon: number): number {
+  let nearest = 0;
+  let nearestDistance = Infinity;
+  points.forEach((point, i) => {
+    const distance = calculateDistance(lat, lon, point.lat, point.lon);
+    if (distance < nearestDistance) {
+      nearest = i;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
+
+// Format time for display
+function formatTime(date: Date) {
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  });
 }
 
 /**
@@ -82,12 +317,38 @@ function setupControls(globe: any) {
 
 export function Globe3D({ 
   timeline, 
-  currentPointIndex
+  currentPointIndex,
+  onPointHover,
+  onPointClick,
+  cameraMode = 'orbit',
+  headingUp = false
 }: Globe3DProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const globeRef = useRef<any>(null);
   const [isGlobeReady, setIsGlobeReady] = useState(false);
 
+  // Objects kept in the scene and moved in place
+  const aircraftRef = useRef<THREE.Mesh | null>(null);
+  const sunRef = useRef<THREE.Mesh | null>(null);
+
+  // Route point under the pointer, for the tooltip
+  const routeHoveredRef = useRef(false);
+  const [hovered, setHovered] = useState<{ index: number; x: number; y: number } | null>(null);
+
+  // Camera animation in progress, and what the camera last followed
+  const cameraFrameRef = useRef<number | null>(null);
+  const cameraStateRef = useRef<{ timeline: FlightTimeline | null; mode: CameraMode; headingUp: boolean }>({
+    timeline: null,
+    mode: cameraMode,
+    headingUp
+  });
+
+  // Latest callbacks and timeline, for the globe's event handlers set up once
+  const callbacksRef = useRef({ onPointHover, onPointClick });
+  callbacksRef.current = { onPointHover, onPointClick };
+  const timelineRef = useRef(timeline);
+  timelineRef.current = timeline;
+
   // Initialize globe
   useEffect(() => {
     if (!containerRef.current) {
@@ -113,8 +374,7 @@ export function Globe3D({
       setTimeout(() => {
         try {
           globe
-            .globeImageUrl('//unpkg.com/three-globe/example/img/earth-blue-marble.jpg')
-            .bumpImageUrl('//unpkg.com/three-globe/example/img/earth-topology.png')
+            .globeMaterial(createDayNightMaterial())
             .backgroundImageUrl('//unpkg.com/three-globe/example/img/night-sky.png')
             .showAtmosphere(true)
             .atmosphereColor('lightskyblue')
@@ -129,6 +389,31 @@ export function Globe3D({
 
           setupLighting(globe);
           setupControls(globe);
+
+          aircraftRef.current = createAircraft();
+          sunRef.current = createSun();
+          globe.scene().add(aircraftRef.current);
+          globe.scene().add(sunRef.current);
+          updateSun(globe, new Date(), sunRef.current);
+
+          // The route reports the point nearest the pointer (see handleMouseMove);
+          // markers report their own
+          globe
+            .onPathHover((path: object | null) => {
+              routeHoveredRef.current = !!path;
+              if (!path) {
+                setHovered(null);
+                callbacksRef.current.onPointHover?.(null);
+              }
+            })
+            .onPathClick((_path: object, _event: MouseEvent, coords: { lat: number; lng: number }) => {
+              const points = timelineRef.current?.points;
+              if (points?.length) {
+                callbacksRef.current.onPointClick?.(findNearestPointIndex(points, coords.lat, coords.lng));
+              }
+            })
+            .onPointHover((marker: any) => callbacksRef.current.onPointHover?.(marker ? marker.point : null))
+            .onPointClick((marker: any) => callbacksRef.current.onPointClick?.(marker.index));
           
           console.log('[Globe3D] ✅ Initialization complete');
           setIsGlobeReady(true);
@@ -156,8 +441,20 @@ export function Globe3D({
     // Cleanup
     return () => {
       window.removeEventListener('resize', handleResize);
+      if (cameraFrameRef.current !== null) {
+        cancelAnimationFrame(cameraFrameRef.current);
+      }
+      [aircraftRef.current, sunRef.current].forEach(mesh => mesh && disposeMesh(mesh));
+      aircraftRef.current = null;
+      sunRef.current = null;
       if (globeRef.current) {
         try {
+          const material = globeRef.current.globeMaterial();
+          if (material instanceof THREE.ShaderMaterial) {
+            material.uniforms.dayTexture.value.dispose();
+            material.uniforms.nightTexture.value.dispose();
+            material.dispose();
+          }
           globeRef.current._destructor();
         } catch (error) {
           console.error('[Globe3D] Error during cleanup:', error);
@@ -175,9 +472,10 @@ export function Globe3D({
     if (!timeline) {
       try {
         globeRef.current
-          .arcsData([])
+          .pathsData([])
           .pointsData([])
-          .htmlElementsData([]);
+          .ringsData([]);
+        if (aircraftRef.current) aircraftRef.current.visible = false;
       } catch (error) {
         console.error('[Globe3D] Error clearing data:', error);
       }
@@ -195,38 +493,6 @@ export function Globe3D({
         return;
       }
 
-      const pathSegments = [];
-      for (let i = 0; i < timeline.points.length - 1; i++) {
-        const current = timeline.points[i];
-        const next = timeline.points[i + 1];
-        
-        if (!current || !next) {
-          console.warn('[Globe3D] Invalid point at index', i);
-          continue;
-        }
-        
-        pathSegments.push({
-          startLat: current.lat,
-          startLng: current.lon,
-          endLat: next.lat,
-          endLng: next.lon,
-          isDaylight: current.isDaylight,
-          index: i
-        });
-      }
-
-      // Format time for display
-      const formatTime = (date: Date) => {
-        return date.toLocaleString('en-US', {
-          month: 'short',
-          day: 'numeric',
-          year: 'numeric',
-          hour: '2-digit',
-          minute: '2-digit',
-          timeZoneName: 'short'
-        });
-      };
-
       // Create pulsing markers with rings
       const originPoint = timeline.points[0];
       const destPoint = timeline.points[timeline.points.length - 1];
@@ -247,7 +513,9 @@ export function Globe3D({
             </div>
           `,
           color: '#00d2ff', // Bright blue
-          size: 60
+          size: 60,
+          index: 0,
+          point: originPoint
         },
         {
           lat: destPoint.lat,
@@ -264,10 +532,62 @@ export function Globe3D({
             </div>
           `,
           color: '#ff3333', // Bright red
-          size: 60
+          size: 60,
+          index: timeline.points.length - 1,
+          point: destPoint
         }
       ];
 
+      // Connecting airports of multi-leg itineraries
+      (timeline.legs || []).forEach((leg, legIndex) => {
+        if (!leg.layover) return;
+        const layover = leg.layover;
+        const layoverPoint = timeline.points[layover.startIndex];
+        markers.push({
+          lat: layoverPoint.lat,
+          lng: layoverPoint.lon,
+          label: `
+            <div style="background: rgba(0,0,0,0.9); padding: 12px; border-radius: 8px; border: 2px solid #fbbf24; min-width: 250px;">
+              <div style="color: #fbbf24; font-weight: bold; font-size: 14px; margin-bottom: 8px;">🔁 LAYOVER ${legIndex + 1}</div>
+              <div style="color: white; font-size: 12px; line-height: 1.6;">
+                <div><strong>Airport:</strong> ${layover.airport.name}</div>
+                <div><strong>IATA:</strong> ${layover.airport.iata}</div>
+                <div><strong>Arrival:</strong> ${formatTime(layover.arrival)}</div>
+                <div><strong>Departure:</strong> ${formatTime(layover.departure)}</div>
+                <div><strong>Ground time:</strong> ${Math.floor(layover.minutes / 60)}h ${Math.round(layover.minutes % 60)}m</div>
+              </div>
+            </div>
+          `,
+          color: '#fbbf24', // Amber
+          size: 45,
+          index: layover.startIndex,
+          point: layoverPoint
+        });
+      });
+
+      // Where the aircraft is at each sunrise, sunset and twilight change
+      timeline.sunEvents.forEach(event => {
+        const index = Math.min(event.pointIndex, timeline.points.length - 1);
+        const color = sunEventColor(event.type);
+        markers.push({
+          lat: event.lat,
+          lng: event.lon,
+          label: `
+            <div style="background: rgba(0,0,0,0.9); padding: 10px; border-radius: 8px; border: 2px solid ${color}; min-width: 200px;">
+              <div style="color: ${color}; font-weight: bold; font-size: 13px; margin-bottom: 6px;">${event.description}</div>
+              <div style="color: white; font-size: 12px; line-height: 1.6;">
+                <div><strong>Time:</strong> ${formatTime(event.timestamp)}</div>
+                <div><strong>Position:</strong> ${event.lat.toFixed(2)}°, ${event.lon.toFixed(2)}°</div>
+              </div>
+            </div>
+          `,
+          color,
+          size: event.type === 'sunrise' || event.type === 'sunset' ? 30 : 20,
+          index,
+          point: timeline.points[index]
+        });
+      });
+
       // Add rings around the markers for better visibility
       const rings = [
         {
@@ -285,18 +605,30 @@ export function Globe3D({
           propagationSpeed: 2,
           repeatPeriod: 1000,
           color: '#ff3333'
-        }
+        },
+        ...(timeline.legs || [])
+          .filter(leg => leg.layover)
+          .map(leg => ({
+            lat: timeline.points[leg.layover!.startIndex].lat,
+            lng: timeline.points[leg.layover!.startIndex].lon,
+            maxR: 6,
+            propagationSpeed: 2,
+            repeatPeriod: 1400,
+            color: '#fbbf24'
+          }))
       ];
 
+      // One line for the whole route, coloured point by point for day and night
       globe
-        .arcsData(pathSegments)
-        .arcColor((d: any) => d.isDaylight ? '#4fc3f7' : '#1e88e5') // Light blue for day, darker blue for night
-        .arcAltitude(0) // Flat on the surface - no 3D ribbon effect
-        .arcStroke(1.2) // Thinner, more elegant line
-        .arcDashLength(1)
-        .arcDashGap(0)
-        .arcDashAnimateTime(0)
-        .arcAltitudeAutoScale(0) // Ensure it stays flat at all zoom levels
+        .pathsData([{ points: timeline.points }])
+        .pathPoints((d: any) => d.points)
+        .pathPointLat((p: TimelinePoint) => p.lat)
+        .pathPointLng((p: TimelinePoint) => p.lon)
+        .pathPointAlt(0.001) // Just above the surface
+        .pathColor(() => timeline.points.map(p => p.isDaylight ? ROUTE_DAY_COLOR : ROUTE_NIGHT_COLOR))
+        .pathStroke(3) // Pixels
+        .pathResolution(180) // The points are dense already; added vertices would shift the colours off their points
+        .pathTransitionDuration(0)
         .pointsData(markers)
         .pointAltitude(0.05)
         .pointRadius((d: any) => d.size / 80)
@@ -307,16 +639,8 @@ export function Globe3D({
         .ringColor((d: any) => () => d.color)
         .ringMaxRadius((d: any) => d.maxR)
         .ringPropagationSpeed((d: any) => d.propagationSpeed)
-        .ringRepeatPeriod((d: any) => d.repeatPeriod)
-        .htmlElementsData([]);
-
-      const midPoint = timeline.points[Math.floor(timeline.points.length / 2)];
-      globe.pointOfView({
-        lat: midPoint.lat,
-        lng: midPoint.lon,
-        altitude: 1.8 // Closer view to see more detail
-      }, 1000);
-      
+        .ringRepeatPeriod((d: any) => d.repeatPeriod);
+
       console.log('[Globe3D] ✅ Route visualization complete');
 
     } catch (error) {
@@ -327,135 +651,123 @@ export function Globe3D({
 
   // Update aircraft position and sun
   useEffect(() => {
-    if (!isGlobeReady || !globeRef.current || !timeline) {
+    if (!isGlobeReady || !globeRef.current || !timeline || !aircraftRef.current) {
       return;
     }
 
-    if (currentPointIndex < 0 || currentPointIndex >= timeline.points.length) {
+    const aircraft = aircraftRef.current;
+    const currentPoint = timeline.points[currentPointIndex];
+    if (!currentPoint) {
       // Only log if it's an unexpected value (not just "not ready yet")
       if (currentPointIndex !== 0 || timeline.points.length > 0) {
         console.warn('[Globe3D] Invalid point index:', currentPointIndex, 'of', timeline.points.length);
       }
-      try {
-        globeRef.current.htmlElementsData([]);
-      } catch (error) {
-        console.error('[Globe3D] Error clearing aircraft:', error);
-      }
+      aircraft.visible = false;
       return;
     }
 
     try {
       const globe = globeRef.current;
-      const scene = globe.scene();
-      
-      if (!scene) {
-        console.error('[Globe3D] Scene is undefined!');
-        return;
-      }
-      
-      const currentPoint = timeline.points[currentPointIndex];
-      
-      if (!currentPoint) {
-        console.error('[Globe3D] Current point is undefined at index', currentPointIndex);
-        return;
-      }
+      placeAircraft(globe, aircraft, currentPoint);
 
-      // Update aircraft - pass all needed data
-      const aircraftData = {
-        lat: currentPoint.lat ?? 0,
-        lng: currentPoint.lon ?? 0,
-        altitude: 0.03, // Higher altitude for better visibility
-        heading: currentPoint.heading ?? 0
-      };
-      
-      globe
-        .htmlElementsData([aircraftData])
-        .htmlElement((d: any) => {
-          const el = document.createElement('div');
-          el.style.pointerEvents = 'none';
-          
-          // Create sleek, prominent aircraft SVG icon
-          el.innerHTML = `
-            <svg width="56" height="56" viewBox="0 0 56 56" style="transform: rotate(${d.heading || 0}deg); filter: drop-shadow(0 0 6px rgba(0, 212, 255, 0.9)) drop-shadow(0 0 12px rgba(0, 212, 255, 0.6));">
-              <g transform="translate(28,28)">
-                <!-- Main fuselage -->
-                <path d="M 0,-20 L 3,-14 L 3,14 L 2,17 L -2,17 L -3,14 L -3,-14 Z" 
-                      fill="#ffffff" stroke="#00d4ff" stroke-width="1.5"/>
-                <!-- Wings -->
-                <path d="M -3,0 L -20,6 L -20,9 L -3,6 Z" 
-                      fill="#ffffff" stroke="#00d4ff" stroke-width="1"/>
-                <path d="M 3,0 L 20,6 L 20,9 L 3,6 Z" 
-                      fill="#ffffff" stroke="#00d4ff" stroke-width="1"/>
-                <!-- Tail wings -->
-                <path d="M -2,14 L -7,20 L -4,20 L -2,17 Z" 
-                      fill="#ffffff" stroke="#00d4ff" stroke-width="1"/>
-                <path d="M 2,14 L 7,20 L 4,20 L 2,17 Z" 
-                      fill="#ffffff" stroke="#00d4ff" stroke-width="1"/>
-                <!-- Vertical stabilizer -->
-                <path d="M -1,14 L 0,22 L 1,14 Z" 
-                      fill="#ffffff" stroke="#00d4ff" stroke-width="1"/>
-                <!-- Cockpit with glow -->
-                <circle cx="0" cy="-16" r="2.5" fill="#00d4ff" opacity="1"/>
-                <circle cx="0" cy="-16" r="1.5" fill="#ffffff" opacity="0.9"/>
-                <!-- Wing lights -->
-                <circle cx="-15" cy="6" r="1.2" fill="#ff0080" opacity="0.8"/>
-                <circle cx="15" cy="6" r="1.2" fill="#00ff00" opacity="0.8"/>
-              </g>
-            </svg>
-          `;
-          
-          return el;
-        });
+      // Light the globe for this point's time
+      updateSun(globe, currentPoint.timestamp, sunRef.current);
+    } catch (error) {
+      console.error('[Globe3D] Error updating aircraft/sun:', error);
+    }
 
-      // Update sun position
-      if (typeof currentPoint.sunAzimuth === 'number' && typeof currentPoint.sunAltitude === 'number') {
-        const sunPos = calculateSunPosition3D(
-          currentPoint.sunAzimuth,
-          currentPoint.sunAltitude
-        );
+  }, [currentPointIndex, timeline, isGlobeReady]);
 
-        const sunLight = scene.children.find(
-          (child: any) => child.name === 'sunLight'
-        );
+  // Move the camera for its mode: free orbit only gets an opening view of
+  // each route, fit frames the route and follow chases the aircraft
+  useEffect(() => {
+    if (!isGlobeReady || !globeRef.current || !timeline || timeline.points.length === 0) {
+      return;
+    }
 
-        if (sunLight) {
-          sunLight.position.set(sunPos.x, sunPos.y, sunPos.z);
+    try {
+      const globe = globeRef.current;
+      const last = cameraStateRef.current;
+      const newRoute = last.timeline !== timeline;
+      const modeChanged = last.mode !== cameraMode || last.headingUp !== headingUp;
+      cameraStateRef.current = { timeline, mode: cameraMode, headingUp };
+
+      // Dragging would fight the chase; zooming is still allowed
+      const controls = globe.controls();
+      if (controls) controls.enableRotate = cameraMode !== 'follow';
+
+      if (cameraMode === 'follow') {
+        const point = timeline.points[Math.min(currentPointIndex, timeline.points.length - 1)];
+        const entering = newRoute || modeChanged;
+        flyCamera(
+          globe,
+          { lat: point.lat, lng: point.lon, altitude: last.mode !== 'follow' ? FOLLOW_ALTITUDE : undefined },
+          headingUp ? getHeadingUp(globe, point) : NORTH_UP,
+          entering ? MODE_TRANSITION_MS : FOLLOW_TRANSITION_MS,
+          cameraFrameRef
+        );
+      } else if (newRoute || modeChanged) {
+        let view: GlobeView = globe.pointOfView();
+        if (cameraMode === 'fit') {
+          view = getRouteFitView(timeline.points);
+        } else if (newRoute) {
+          const midPoint = timeline.points[Math.floor(timeline.points.length / 2)];
+          view = { lat: midPoint.lat, lng: midPoint.lon, altitude: 1.8 }; // Closer view to see more detail
         }
+        flyCamera(globe, view, NORTH_UP, MODE_TRANSITION_MS, cameraFrameRef);
+      }
+    } catch (error) {
+      console.error('[Globe3D] Error moving camera:', error);
+    }
+  }, [timeline, currentPointIndex, cameraMode, headingUp, isGlobeReady]);
 
-        // Remove old sun
-        const oldSun = scene.getObjectByName('sunGroup');
-        if (oldSun) scene.remove(oldSun);
+  // While the pointer is on the route, find the point beneath it
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const globe = globeRef.current;
+    if (!routeHoveredRef.current || !globe || !timeline || timeline.points.length === 0) {
+      return;
+    }
 
-        // Create simple sun sphere - no rays, no glow, no effects
-        const sunGeometry = new THREE.SphereGeometry(15, 32, 32);
-        const sunMaterial = new THREE.MeshBasicMaterial({ 
-          color: 0xffdd00
-        });
-        const sunSphere = new THREE.Mesh(sunGeometry, sunMaterial);
-        sunSphere.name = 'sunGroup'; // Keep same name for cleanup
-
-        // Position the sun
-        const sunVisualPos = calculateSunPosition3D(
-          currentPoint.sunAzimuth,
-          currentPoint.sunAltitude,
-          400
-        );
-        sunSphere.position.set(sunVisualPos.x, sunVisualPos.y, sunVisualPos.z);
-        
-        scene.add(sunSphere);
-      }
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    const coords = globe.toGlobeCoords(x, y);
+    if (!coords) return;
 
-    } catch (error) {
-      console.error('[Globe3D] Error updating aircraft/sun:', error);
+    const index = findNearestPointIndex(timeline.points, coords.lat, coords.lng);
+    if (index !== hovered?.index) {
+      callbacksRef.current.onPointHover?.(timeline.points[index]);
     }
+    setHovered({ index, x, y });
+  };
 
-  }, [currentPointIndex, timeline, isGlobeReady]);
+  // Tooltip of the route: where and when, and where the sun is
+  const hoveredPoint = hovered && timeline?.points[hovered.index];
+  const hoveredExposure = hoveredPoint && calculateAircraftSunExposure(
+    hoveredPoint.heading,
+    hoveredPoint.sunAzimuth,
+    hoveredPoint.sunAltitude,
+    timeline?.aircraft?.window
+  );
 
   return (
-    <div 
-      ref={containerRef} 
-      className="w-full h-full"
-      style={{ background: '#000' }}
-    />
+    <div className="relative w-full h-full" onMouseMove={handleMouseMove}>
+      <div 
+        ref={containerRef} 
+        className="w-full h-full"
+        style={{ background: '#000' }}
+      />
+      {hovered && hoveredPoint && hoveredExposure && (
+        <div
+          className="absolute pointer-events-none bg-black/90 border border-sky-400 rounded-lg p-2.5 text-xs text-white leading-relaxed min-w-[200px]"
+          style={{ left: hovered.x + 14, top: hovered.y + 14 }}
+        >
+          <div><strong>Time:</strong> {formatTime(hoveredPoint.timestamp)}</div>
+          <div><strong>Position:</strong> {hoveredPoint.lat.toFixed(2)}°, {hoveredPoint.lon.toFixed(2)}°</div>
+          <div><strong>Sun altitude:</strong> {hoveredPoint.sunAltitude.toFixed(1)}°</div>
+          <div><strong>Sun:</strong> {SIDE_LABELS[hoveredExposure.side]}</div>
+        </div>
+      )}
+    </div>
   );
 }
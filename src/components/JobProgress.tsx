@@ -0,0 +1,39 @@
+import { ComputeJobStatus } from '@/hooks/useComputeJob';
+
+interface JobProgressProps {
+  status: ComputeJobStatus;
+  onCancel?: () => void;
+}
+
+/**
+ * Progress bar for a computation running in the background
+ */
+export function JobProgress({ status, onCancel }: JobProgressProps) {
+  const percent = Math.round(status.progress * 100);
+
+  return (
+    <div className="p-4 bg-white/10 rounded-lg" role="status">
+      <div className="flex items-center justify-between mb-2 text-sm">
+        <span className="text-gray-300">{status.label}…</span>
+        <span className="flex items-center gap-3">
+          <span className="text-gray-400">{percent}%</span>
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="text-xs text-gray-400 hover:text-red-300 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </span>
+      </div>
+      <div className="h-1.5 bg-gray-700 rounded overflow-hidden">
+        <div
+          className="h-full bg-blue-500 transition-[width] duration-200"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
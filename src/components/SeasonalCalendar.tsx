@@ -0,0 +1,144 @@
+import { useMemo, useState } from 'react';
+import { AircraftSide, DepartureSlot } from '@/types';
+import { getSunnySide } from '@/utils/departureSweep';
+import { getLocalDate } from '@/utils/timezone';
+
+interface SeasonalCalendarProps {
+  slots: DepartureSlot[];     // One per day of the year, from sweepCalendarYear
+  routeLabel: string;
+  localTime: string;          // Departure time, HH:mm
+  timezone: string;
+  onSelect: (slot: DepartureSlot) => void;
+  onClose: () => void;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Same colours as the flight analysis bar chart
+const SIDE_COLORS: Record<AircraftSide, string> = {
+  LEFT: 'bg-cyan-400',
+  RIGHT: 'bg-purple-400',
+  OVERHEAD: 'bg-orange-400',
+  NONE: 'bg-gray-700'
+};
+
+const SIDE_LABELS: Record<AircraftSide, string> = {
+  LEFT: 'Left side',
+  RIGHT: 'Right side',
+  OVERHEAD: 'Overhead',
+  NONE: 'No sun'
+};
+
+/**
+ * Calendar heatmap of the sunny side for a route flown every day of a year
+ * Colour shows the side that sees the sun longest, brightness how much of
+ * the flight it is seen; dots mark sunrises and sunsets in flight.
+ */
+export function SeasonalCalendar({ slots, routeLabel, localTime, timezone, onSelect, onClose }: SeasonalCalendarProps) {
+  const [hovered, setHovered] = useState<DepartureSlot | null>(null);
+
+  // Slots by month and day of month, from their local departure dates
+  const months = useMemo(() => {
+    const grid: (DepartureSlot | null)[][] = MONTHS.map(() => Array(31).fill(null));
+    slots.forEach(slot => {
+      const [, month, day] = getLocalDate(slot.departureTime, timezone).split('-').map(Number);
+      grid[month - 1][day - 1] = slot;
+    });
+    return grid;
+  }, [slots, timezone]);
+
+  const year = slots.length > 0 ? getLocalDate(slots[0].departureTime, timezone).slice(0, 4) : '';
+
+  return (
+    <div className="w-full max-w-5xl mx-auto p-6 bg-gray-900/50 backdrop-blur-sm rounded-xl shadow-2xl border border-gray-700/50 text-white">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold">Year View {year}</h2>
+          <div className="text-sm text-gray-400">
+            {routeLabel} · departing {localTime} every day ({timezone})
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 bg-white/20 hover:bg-white/30 text-white rounded-lg transition-colors text-sm"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="space-y-1 overflow-x-auto" onMouseLeave={() => setHovered(null)}>
+        {months.map((days, month) => (
+          <div key={month} className="flex items-center gap-px">
+            <div className="w-10 flex-shrink-0 text-xs text-gray-400">{MONTHS[month]}</div>
+            {days.map((slot, day) => (
+              slot ? (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => onSelect(slot)}
+                  onMouseEnter={() => setHovered(slot)}
+                  className={`relative flex-1 min-w-[12px] h-5 rounded-sm ${SIDE_COLORS[getSunnySide(slot)]} ${
+                    hovered === slot ? 'ring-2 ring-white' : ''
+                  }`}
+                  style={{ opacity: 0.35 + 0.65 * sunlitFraction(slot) }}
+                  title={`${MONTHS[month]} ${day + 1}`}
+                >
+                  {slot.sunrises > 0 && <span className="absolute top-0.5 left-0.5 w-1.5 h-1.5 rounded-full bg-yellow-200" />}
+                  {slot.sunsets > 0 && <span className="absolute bottom-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-red-500" />}
+                </button>
+              ) : (
+                <div key={day} className="flex-1 min-w-[12px] h-5" />
+              )
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-4 mt-4 text-xs text-gray-400">
+        {(Object.keys(SIDE_COLORS) as AircraftSide[]).map(side => (
+          <span key={side} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded-sm ${SIDE_COLORS[side]}`} />
+            {SIDE_LABELS[side]}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2 h-2 rounded-full bg-yellow-200" /> Sunrise in flight
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2 h-2 rounded-full bg-red-500" /> Sunset in flight
+        </span>
+      </div>
+
+      {/* Hovered day details */}
+      <div className="mt-4 p-4 bg-white/10 rounded-lg text-sm min-h-[4rem]">
+        {hovered ? (
+          <div>
+            <div className="font-medium">
+              {hovered.departureTime.toLocaleDateString('en-US', {
+                weekday: 'short',
+                month: 'short',
+                day: 'numeric',
+                timeZone: timezone
+              })}: {SIDE_LABELS[getSunnySide(hovered)]}
+            </div>
+            <div className="text-gray-400">
+              Left {Math.round(hovered.leftSideMinutes)} min · Right {Math.round(hovered.rightSideMinutes)} min
+              · Overhead {Math.round(hovered.overheadMinutes)} min · No sun {Math.round(hovered.noSunMinutes)} min
+              {hovered.sunrises > 0 && ' · sunrise'}
+              {hovered.sunsets > 0 && ' · sunset'}
+            </div>
+          </div>
+        ) : (
+          <div className="text-gray-400">Hover over a day for details, click to open that flight.</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Share of the flight with the sun visible from some window
+function sunlitFraction(slot: DepartureSlot): number {
+  const sunlit = slot.leftSideMinutes + slot.rightSideMinutes + slot.overheadMinutes;
+  const total = sunlit + slot.noSunMinutes;
+  return total > 0 ? sunlit / total : 0;
+}
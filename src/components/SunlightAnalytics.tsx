@@ -1,23 +1,61 @@
 import React from 'react';
-import { Sun, Moon, Plane } from 'lucide-react';
-import { FlightTimeline, TimelinePoint, AircraftSide } from '@/types';
-import { analyzeFlightSunExposure, calculateAircraftSunExposure } from '@/utils/aircraft';
+import { Sun, Moon, Plane, AlertTriangle, PlaneTakeoff, PlaneLanding } from 'lucide-react';
+import { FlightTimeline, TimelinePoint, AircraftSide, TwilightPhase } from '@/types';
+import { calculateAircraftSunExposure, calculateAircraftMoonExposure } from '@/utils/aircraft';
+import { getMoonPhaseName } from '@/utils/lunar';
+import { SKY_EVENT_LABELS } from '@/utils/timeline';
+import { TWILIGHT_PHASE_LABELS } from '@/utils/daylight';
+import { AirportBriefing, LightCondition } from '@/utils/briefing';
+import { getLocalTime } from '@/utils/timezone';
+import { TimelineAnalysis } from '@/utils/computeJobs';
+import { ComputeJobStatus } from '@/hooks/useComputeJob';
+import { JobProgress } from './JobProgress';
 
 interface SunlightAnalyticsProps {
   timeline: FlightTimeline;
   currentPoint: TimelinePoint;
+  analysis: TimelineAnalysis | null;  // Null while the analysis runs in the background
+  analysisStatus?: ComputeJobStatus | null;
+  analysisError?: string | null;
 }
 
-export function SunlightAnalytics({ timeline, currentPoint }: SunlightAnalyticsProps) {
-  const flightAnalysis = analyzeFlightSunExposure(timeline);
+export function SunlightAnalytics({ timeline, currentPoint, analysis, analysisStatus, analysisError }: SunlightAnalyticsProps) {
+  const flightAnalysis = analysis?.flight;
+  const legAnalyses = analysis?.legs ?? [];
+  const briefing = analysis?.briefing;
+  const analysedMinutes = flightAnalysis
+    ? flightAnalysis.leftSideMinutes + flightAnalysis.rightSideMinutes + flightAnalysis.overheadMinutes + flightAnalysis.noSunMinutes
+    : 0;
   const currentExposure = calculateAircraftSunExposure(
     currentPoint.heading,
     currentPoint.sunAzimuth || 0,
-    currentPoint.sunAltitude || -90
+    currentPoint.sunAltitude || -90,
+    timeline.aircraft?.window
   );
+  const currentMoon = calculateAircraftMoonExposure(
+    currentPoint.heading,
+    currentPoint.moonAzimuth,
+    currentPoint.moonAltitude,
+    currentPoint.moonIllumination,
+    timeline.aircraft?.window
+  );
+  const skyEvents = [...timeline.sunEvents, ...timeline.moonEvents]
+    .sort((a, b) => a.elapsedMinutes - b.elapsedMinutes);
 
   return (
     <div className="space-y-6 p-6 bg-gray-900/30 backdrop-blur-sm rounded-lg shadow-xl text-white">
+      {/* Route Warnings */}
+      {timeline.warnings && timeline.warnings.length > 0 && (
+        <div className="space-y-2">
+          {timeline.warnings.map((warning, i) => (
+            <div key={i} className="flex gap-2 p-3 bg-amber-500/20 border border-amber-400/40 rounded text-sm text-amber-200">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <div>{warning.message}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Current Status */}
       <div className="border-b border-gray-700 pb-4">
         <h2 className="text-2xl font-bold mb-4 text-white">Current Position</h2>
@@ -33,7 +71,35 @@ export function SunlightAnalytics({ timeline, currentPoint }: SunlightAnalyticsP
           <div>
             <div className="text-sm text-gray-400">Lighting</div>
             <div className="text-lg font-medium text-white">
-              {currentPoint.isDaylight ? 'Daylight' : 'Darkness'}
+              {TWILIGHT_PHASE_LABELS[currentPoint.twilightPhase]}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-sm text-gray-400">Flight Phase</div>
+            <div className="text-lg font-medium capitalize text-white">
+              {currentPoint.phase}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-sm text-gray-400">Heading / Track</div>
+            <div className="text-lg font-medium text-white">
+              {Math.round(currentPoint.heading)}° / {Math.round(currentPoint.track)}°
+            </div>
+          </div>
+
+          <div>
+            <div className="text-sm text-gray-400">Ground Speed</div>
+            <div className="text-lg font-medium text-white">
+              {Math.round(currentPoint.speed)} km/h
+            </div>
+          </div>
+
+          <div>
+            <div className="text-sm text-gray-400">Altitude</div>
+            <div className="text-lg font-medium text-white">
+              {Math.round(currentPoint.altitude || 0).toLocaleString('en-US')} ft
             </div>
           </div>
         </div>
@@ -55,71 +121,165 @@ export function SunlightAnalytics({ timeline, currentPoint }: SunlightAnalyticsP
         </div>
       </div>
 
-      {/* Flight-Wide Analysis */}
-      <div className="border-b border-gray-700 pb-4">
-        <h3 className="text-xl font-bold mb-4 text-white">Full Flight Analysis</h3>
-        
-        <div className="space-y-3 mb-4">
-          {flightAnalysis.detailedAnalysis.map((line, i) => (
-            <div key={i} className="text-sm text-gray-300">
-              {line}
-            </div>
-          ))}
-        </div>
+      {/* Moon View - during dark segments */}
+      {!currentPoint.isDaylight && (
+        <div className="border-b border-gray-700 pb-4">
+          <h3 className="text-xl font-bold mb-4 text-white">Moon View</h3>
 
-        {/* Visual bar chart */}
-        <div className="h-8 flex rounded overflow-hidden">
-          <div
-            className="bg-cyan-400"
-            style={{ width: `${(flightAnalysis.leftSideMinutes / timeline.totalDuration) * 100}%` }}
-            title="Left side exposure"
-          />
-          <div
-            className="bg-purple-400"
-            style={{ width: `${(flightAnalysis.rightSideMinutes / timeline.totalDuration) * 100}%` }}
-            title="Right side exposure"
-          />
-          <div
-            className="bg-orange-400"
-            style={{ width: `${(flightAnalysis.overheadMinutes / timeline.totalDuration) * 100}%` }}
-            title="Overhead sun"
-          />
-          <div
-            className="bg-gray-600"
-            style={{ width: `${(flightAnalysis.noSunMinutes / timeline.totalDuration) * 100}%` }}
-            title="No sun"
+          <AircraftSideVisualizer
+            side={currentMoon.side}
+            intensity={Math.max(currentMoon.brightness, 0.3)}
+            body="moon"
           />
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <div className="text-sm text-gray-400">Phase</div>
+              <div className="text-lg font-medium capitalize text-white">
+                {getMoonPhaseName(currentPoint.moonPhase).replace('-', ' ')}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-400">Illuminated</div>
+              <div className="text-lg font-medium text-white">
+                {Math.round(currentPoint.moonIllumination * 100)}%
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-400">Moon Position</div>
+              <div className="text-lg font-medium text-white">
+                {currentPoint.moonAltitude.toFixed(1)}° altitude
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-400">Window Side</div>
+              <div className="text-lg font-medium text-white">
+                {currentMoon.visible ? currentMoon.side : 'Not visible'}
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-4 p-4 bg-slate-800/60 backdrop-blur-sm rounded-lg border border-slate-400/30">
+            <div className="font-medium text-slate-200">
+              {currentMoon.recommendation}
+            </div>
+          </div>
         </div>
+      )}
 
-        <div className="flex justify-between mt-2 text-xs text-gray-400">
-          <span className="text-cyan-400">● Left</span>
-          <span className="text-purple-400">● Right</span>
-          <span className="text-orange-400">● Overhead</span>
-          <span className="text-gray-500">● None</span>
+      {/* Background analysis in progress or failed */}
+      {!analysis && (analysisStatus || analysisError) && (
+        <div className="border-b border-gray-700 pb-4">
+          {analysisStatus
+            ? <JobProgress status={analysisStatus} />
+            : <div className="text-sm text-red-300">Could not analyse the flight: {analysisError}</div>}
         </div>
+      )}
 
-        <div className="mt-4 p-4 bg-green-900/40 backdrop-blur-sm rounded-lg border border-green-500/30">
-          <div className="font-bold text-green-200 mb-1 flex items-center gap-2">
-            <svg className="w-5 h-5" viewBox="0 0 24 24" fill="currentColor">
-              <path d="M9 21c0 .5.4 1 1 1h4c.6 0 1-.5 1-1v-1H9v1zm3-19C8.1 2 5 5.1 5 9c0 2.4 1.2 4.5 3 5.7V17c0 .5.4 1 1 1h6c.6 0 1-.5 1-1v-2.3c1.8-1.3 3-3.4 3-5.7 0-3.9-3.1-7-7-7z"/>
-            </svg>
-            Recommendation
+      {/* Flight-Wide Analysis */}
+      {flightAnalysis && (
+        <div className="border-b border-gray-700 pb-4">
+          <h3 className="text-xl font-bold mb-4 text-white">Full Flight Analysis</h3>
+        
+          <div className="space-y-3 mb-4">
+            {flightAnalysis.detailedAnalysis.map((line, i) => (
+              <div key={i} className="text-sm text-gray-300">
+                {line}
+              </div>
+            ))}
+          </div>
+
+          {/* Visual bar chart */}
+          <div className="h-8 flex rounded overflow-hidden">
+            <div
+              className="bg-cyan-400"
+              style={{ width: `${(flightAnalysis.leftSideMinutes / analysedMinutes) * 100}%` }}
+              title="Left side exposure"
+            />
+            <div
+              className="bg-purple-400"
+              style={{ width: `${(flightAnalysis.rightSideMinutes / analysedMinutes) * 100}%` }}
+              title="Right side exposure"
+            />
+            <div
+              className="bg-orange-400"
+              style={{ width: `${(flightAnalysis.overheadMinutes / analysedMinutes) * 100}%` }}
+              title="Overhead sun"
+            />
+            <div
+              className="bg-gray-600"
+              style={{ width: `${(flightAnalysis.noSunMinutes / analysedMinutes) * 100}%` }}
+              title="No sun"
+            />
+          </div>
+
+          <div className="flex justify-between mt-2 text-xs text-gray-400">
+            <span className="text-cyan-400">● Left</span>
+            <span className="text-purple-400">● Right</span>
+            <span className="text-orange-400">● Overhead</span>
+            <span className="text-gray-500">● None</span>
+          </div>
+
+          <div className="mt-4 p-4 bg-green-900/40 backdrop-blur-sm rounded-lg border border-green-500/30">
+            <div className="font-bold text-green-200 mb-1 flex items-center gap-2">
+              <svg className="w-5 h-5" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M9 21c0 .5.4 1 1 1h4c.6 0 1-.5 1-1v-1H9v1zm3-19C8.1 2 5 5.1 5 9c0 2.4 1.2 4.5 3 5.7V17c0 .5.4 1 1 1h6c.6 0 1-.5 1-1v-2.3c1.8-1.3 3-3.4 3-5.7 0-3.9-3.1-7-7-7z"/>
+              </svg>
+              Recommendation
+            </div>
+            <div className="text-green-300">
+              {flightAnalysis.recommendation}
+            </div>
           </div>
-          <div className="text-green-300">
-            {flightAnalysis.recommendation}
+        </div>
+      )}
+
+      {/* Per-Leg Analysis (multi-leg itineraries) */}
+      {analysis && timeline.legs && timeline.legs.length > 1 && (
+        <div className="border-b border-gray-700 pb-4">
+          <h3 className="text-xl font-bold mb-4 text-white">Seat Recommendation per Leg</h3>
+          <div className="space-y-3">
+            {timeline.legs.map((leg, i) => {
+              const analysis = legAnalyses[i];
+              const legMinutes = leg.timeline.totalDuration;
+              return (
+                <div key={i} className="p-3 bg-white/10 backdrop-blur-sm rounded">
+                  <div className="flex justify-between items-center mb-2">
+                    <div className="font-medium text-white">
+                      Leg {i + 1}: {leg.timeline.origin.iata} → {leg.timeline.destination.iata}
+                    </div>
+                    <div className="text-sm text-gray-400">{formatDuration(legMinutes)}</div>
+                  </div>
+                  <div className="h-2 flex rounded overflow-hidden mb-2">
+                    <div className="bg-cyan-400" style={{ width: `${(analysis.leftSideMinutes / legMinutes) * 100}%` }} />
+                    <div className="bg-purple-400" style={{ width: `${(analysis.rightSideMinutes / legMinutes) * 100}%` }} />
+                    <div className="bg-orange-400" style={{ width: `${(analysis.overheadMinutes / legMinutes) * 100}%` }} />
+                    <div className="bg-gray-600" style={{ width: `${(analysis.noSunMinutes / legMinutes) * 100}%` }} />
+                  </div>
+                  <div className="text-sm text-green-300">{analysis.recommendation}</div>
+                  {leg.layover && (
+                    <div className="mt-2 text-xs text-amber-300">
+                      Layover at {leg.layover.airport.iata}: {formatDuration(leg.layover.minutes)} on the ground
+                    </div>
+                  )}
+                </div>
+              );
+            })}
           </div>
         </div>
-      </div>
+      )}
 
-      {/* Sun Events */}
-      {timeline.sunEvents && timeline.sunEvents.length > 0 && (
+      {/* Sun and Moon Events */}
+      {skyEvents.length > 0 && (
         <div className="border-b border-gray-700 pb-4">
-          <h3 className="text-xl font-bold mb-4 text-white">Sunrise & Sunset Events</h3>
+          <h3 className="text-xl font-bold mb-4 text-white">
+            {timeline.moonEvents.length > 0 ? 'Sun & Moon Events' : 'Sun Events'}
+          </h3>
           <div className="space-y-2">
-            {timeline.sunEvents.map((event, i) => (
+            {skyEvents.map((event, i) => (
               <div key={i} className="flex items-center gap-3 p-3 bg-white/10 backdrop-blur-sm rounded">
                 <div>
-                  <div className="font-medium capitalize text-white">{event.type}</div>
+                  <div className="font-medium text-white">{SKY_EVENT_LABELS[event.type]}</div>
                   <div className="text-sm text-gray-400">
                     {event.timestamp.toLocaleTimeString('en-US', {
                       hour: '2-digit',
@@ -134,6 +294,17 @@ export function SunlightAnalytics({ timeline, currentPoint }: SunlightAnalyticsP
         </div>
       )}
 
+      {/* Daylight at each end of the flight */}
+      {briefing && (
+        <div className="border-b border-gray-700 pb-4">
+          <h3 className="text-xl font-bold mb-4 text-white">Daylight Briefing</h3>
+          <div className="space-y-3">
+            <AirportBriefingCard briefing={briefing.departure} event="Takeoff" />
+            <AirportBriefingCard briefing={briefing.arrival} event="Landing" />
+          </div>
+        </div>
+      )}
+
       {/* Statistics */}
       <div>
         <h3 className="text-xl font-bold mb-4 text-white">Flight Statistics</h3>
@@ -154,7 +325,7 @@ export function SunlightAnalytics({ timeline, currentPoint }: SunlightAnalyticsP
             icon={<Plane className="w-5 h-5" />}
           />
           <StatCard
-            label="Daylight Time"
+            label={timeline.horizon === 'window' ? 'Daylight (from window)' : 'Daylight Time'}
             value={`${timeline.statistics?.daylightPercentage.toFixed(0) || 0}%`}
             icon={<Sun className="w-5 h-5" />}
           />
@@ -164,6 +335,19 @@ export function SunlightAnalytics({ timeline, currentPoint }: SunlightAnalyticsP
             icon={<Moon className="w-5 h-5" />}
           />
         </div>
+
+        {/* Minutes in each light phase */}
+        <div className="mt-4 p-4 bg-white/10 backdrop-blur-sm rounded-lg">
+          <div className="text-sm text-gray-400 mb-2">Light Phases</div>
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            {(Object.keys(TWILIGHT_PHASE_LABELS) as TwilightPhase[]).map(phase => (
+              <div key={phase} className="flex justify-between">
+                <span className="text-gray-300">{TWILIGHT_PHASE_LABELS[phase]}</span>
+                <span className="text-white">{formatDuration(timeline.statistics.phaseMinutes[phase])}</span>
+              </div>
+            ))}
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -172,11 +356,17 @@ export function SunlightAnalytics({ timeline, currentPoint }: SunlightAnalyticsP
 // Aircraft side visualizer component
 function AircraftSideVisualizer({ 
   side, 
-  intensity 
+  intensity,
+  body = 'sun'
 }: { 
   side: AircraftSide; 
   intensity: number; 
+  body?: 'sun' | 'moon';
 }) {
+  const highlight = body === 'sun' ? '#fbbf24' : '#cbd5e1';
+  const Icon = body === 'sun' ? Sun : Moon;
+  const iconColor = body === 'sun' ? 'text-yellow-500' : 'text-slate-200';
+
   return (
     <div className="flex items-center justify-center py-8">
       <div className="relative">
@@ -194,7 +384,7 @@ function AircraftSideVisualizer({
             y="40"
             width="40"
             height="40"
-            fill={side === 'LEFT' ? '#fbbf24' : '#e5e7eb'}
+            fill={side === 'LEFT' ? highlight : '#e5e7eb'}
             opacity={side === 'LEFT' ? intensity : 0.3}
           />
           
@@ -204,7 +394,7 @@ function AircraftSideVisualizer({
             y="40"
             width="40"
             height="40"
-            fill={side === 'RIGHT' ? '#fbbf24' : '#e5e7eb'}
+            fill={side === 'RIGHT' ? highlight : '#e5e7eb'}
             opacity={side === 'RIGHT' ? intensity : 0.3}
           />
           
@@ -216,16 +406,16 @@ function AircraftSideVisualizer({
           <ellipse cx="100" cy="20" rx="10" ry="8" fill="#6b7280" />
         </svg>
 
-        {/* Sun indicator */}
+        {/* Sun (or Moon) indicator */}
         {(side === 'LEFT' || side === 'RIGHT') && (
           <div className={`absolute top-1/2 ${side === 'LEFT' ? 'left-0' : 'right-0'} transform -translate-y-1/2 ${side === 'LEFT' ? '-translate-x-8' : 'translate-x-8'}`}>
-            <Sun className="text-yellow-500" size={32} />
+            <Icon className={iconColor} size={32} />
           </div>
         )}
 
         {side === 'OVERHEAD' && (
           <div className="absolute top-0 left-1/2 transform -translate-x-1/2 -translate-y-8">
-            <Sun className="text-yellow-500" size={32} />
+            <Icon className={iconColor} size={32} />
           </div>
         )}
       </div>
@@ -245,6 +435,57 @@ function StatCard({ label, value, icon }: { label: string; value: string; icon:
   );
 }
 
+const LIGHT_STYLES: Record<LightCondition, { label: string; className: string }> = {
+  daylight: { label: 'Daylight', className: 'bg-sky-400/20 text-sky-200' },
+  twilight: { label: 'Twilight', className: 'bg-indigo-400/20 text-indigo-200' },
+  darkness: { label: 'Darkness', className: 'bg-gray-500/20 text-gray-300' }
+};
+
+// Sun times at an airport on its local date, and the light at takeoff or landing
+function AirportBriefingCard({ briefing, event }: { briefing: AirportBriefing; event: 'Takeoff' | 'Landing' }) {
+  const { airport, daylight } = briefing;
+  const localTime = (date: Date | null) => date ? getLocalTime(date, airport.timezone) : '—';
+  const light = LIGHT_STYLES[briefing.light];
+  const Icon = event === 'Takeoff' ? PlaneTakeoff : PlaneLanding;
+
+  return (
+    <div className="p-3 bg-white/10 backdrop-blur-sm rounded text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <div className="font-medium text-white">{airport.iata} · {airport.city}</div>
+        <div className="text-xs text-gray-400">
+          {briefing.time.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: airport.timezone })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-gray-300">
+        {daylight.isAlwaysDay || daylight.isAlwaysNight ? (
+          <div className="col-span-2">{daylight.isAlwaysDay ? 'Sun up all day' : 'Sun below the horizon all day'}</div>
+        ) : (
+          <>
+            <div>Sunrise <span className="text-white">{localTime(daylight.sunrise)}</span></div>
+            <div>Sunset <span className="text-white">{localTime(daylight.sunset)}</span></div>
+          </>
+        )}
+        <div>
+          Civil twilight <span className="text-white">{localTime(daylight.civilTwilightStart)}–{localTime(daylight.civilTwilightEnd)}</span>
+        </div>
+        <div>Day length <span className="text-white">{formatDuration(daylight.dayLength * 60)}</span></div>
+      </div>
+
+      <div className="flex items-center gap-2 mt-2">
+        <Icon className="w-4 h-4 text-gray-400" />
+        <span className="text-gray-300">{event} {localTime(briefing.time)}</span>
+        <span className={`px-2 py-0.5 rounded text-xs ${light.className}`}>{light.label}</span>
+        {briefing.minutesFromSunset !== null && (
+          <span className="text-xs text-gray-400">
+            {formatDuration(Math.abs(briefing.minutesFromSunset))} {briefing.minutesFromSunset < 0 ? 'before' : 'after'} sunset
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function formatDuration(minutes: number): string {
   const hours = Math.floor(minutes / 60);
   const mins = Math.floor(minutes % 60);
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Play, Pause, SkipBack, SkipForward } from 'lucide-react';
-import { FlightTimeline, SunEvent } from '@/types';
+import { FlightTimeline, SunEvent, Layover, TwilightPhase } from '@/types';
+import { findPointIndexAtTime } from '@/utils/timeline';
+import { TWILIGHT_PHASE_LABELS } from '@/utils/daylight';
 
 interface TimelineScrubberProps {
   timeline: FlightTimeline;
@@ -13,6 +15,19 @@ interface TimelineScrubberProps {
   timezone?: string;
 }
 
+// Playback covers the flight in this many ticks, whatever the sampling density
+const PLAYBACK_STEPS = 150;
+
+// Sky colours of the light phases, from the globe's atmosphere blue to the space background
+const PHASE_COLORS: Record<TwilightPhase, string> = {
+  'day': 'rgba(135, 206, 250, 0.4)',
+  'golden-hour': 'rgba(251, 191, 36, 0.5)',
+  'civil': 'rgba(99, 102, 241, 0.5)',
+  'nautical': 'rgba(55, 48, 163, 0.5)',
+  'astronomical': 'rgba(40, 35, 100, 0.5)',
+  'night': 'rgba(25, 25, 60, 0.5)'
+};
+
 // Helper function to format time in selected timezone
 function formatTimeInTimezone(date: Date, timezone: string = 'UTC'): string {
   try {
@@ -104,7 +119,8 @@ export function TimelineScrubber({
   const [isDragging, setIsDragging] = useState(false);
 
   const currentPoint = timeline.points[currentIndex];
-  const progress = (currentIndex / (timeline.points.length - 1)) * 100;
+  // Points are not evenly spaced in time, so positions are proportional to elapsed time
+  const progress = (currentPoint.elapsedMinutes / timeline.totalDuration) * 100;
 
   // Playback animation
   useEffect(() => {
@@ -112,7 +128,8 @@ export function TimelineScrubber({
 
     const interval = setInterval(() => {
       if (currentIndex < timeline.points.length - 1) {
-        onIndexChange(currentIndex + 1);
+        const nextTime = timeline.points[currentIndex].elapsedMinutes + timeline.totalDuration / PLAYBACK_STEPS;
+        onIndexChange(Math.max(currentIndex + 1, findPointIndexAtTime(timeline.points, nextTime)));
       } else {
         // Stop at destination instead of looping
         onPlayPause(); // This will stop playback
@@ -120,17 +137,16 @@ export function TimelineScrubber({
     }, 100 / playbackSpeed); // Faster speed = shorter interval
 
     return () => clearInterval(interval);
-  }, [isPlaying, currentIndex, playbackSpeed, timeline.points.length, onIndexChange, onPlayPause]);
+  }, [isPlaying, currentIndex, playbackSpeed, timeline, onIndexChange, onPlayPause]);
 
   const handleProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
     if (!progressBarRef.current) return;
 
     const rect = progressBarRef.current.getBoundingClientRect();
     const clickX = e.clientX - rect.left;
-    const percentage = clickX / rect.width;
-    const newIndex = Math.floor(percentage * (timeline.points.length - 1));
+    const percentage = Math.max(0, Math.min(1, clickX / rect.width));
 
-    onIndexChange(Math.max(0, Math.min(timeline.points.length - 1, newIndex)));
+    onIndexChange(findPointIndexAtTime(timeline.points, percentage * timeline.totalDuration));
   };
 
   const handleProgressMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -177,12 +193,22 @@ export function TimelineScrubber({
           {renderDaylightGradient(timeline)}
         </div>
 
-        {/* Sun events markers */}
-        {timeline.sunEvents?.map((event, i) => (
+        {/* Layover segments */}
+        {timeline.legs?.map((leg, i) => leg.layover && (
+          <LayoverMarker
+            key={i}
+            layover={leg.layover}
+            timeline={timeline}
+            timezone={timezone}
+          />
+        ))}
+
+        {/* Sunrise/sunset markers; the other sun events show as phase changes in the gradient */}
+        {timeline.sunEvents?.filter(event => event.type === 'sunrise' || event.type === 'sunset').map((event, i) => (
           <SunEventMarker
             key={i}
             event={event}
-            totalPoints={timeline.points.length}
+            totalDuration={timeline.totalDuration}
             timezone={timezone}
           />
         ))}
@@ -254,12 +280,12 @@ export function TimelineScrubber({
 }
 
 // Helper component for sun event markers
-function SunEventMarker({ event, totalPoints, timezone = 'UTC' }: { 
+function SunEventMarker({ event, totalDuration, timezone = 'UTC' }: { 
   event: SunEvent; 
-  totalPoints: number;
+  totalDuration: number;
   timezone?: string;
 }) {
-  const position = (event.pointIndex / (totalPoints - 1)) * 100;
+  const position = (event.elapsedMinutes / totalDuration) * 100;
   const isSunrise = event.type === 'sunrise';
   const eventLabel = isSunrise ? 'Sunrise' : 'Sunset';
   const eventTime = formatTimeInTimezone(event.timestamp, timezone);
@@ -310,21 +336,65 @@ function SunEventMarker({ event, totalPoints, timezone = 'UTC' }: {
   );
 }
 
-// Render daylight as gradient background
+// Helper component for layover (ground time) segments
+function LayoverMarker({ layover, timeline, timezone = 'UTC' }: {
+  layover: Layover;
+  timeline: FlightTimeline;
+  timezone?: string;
+}) {
+  const start = (timeline.points[layover.startIndex].elapsedMinutes / timeline.totalDuration) * 100;
+  const end = (timeline.points[layover.endIndex].elapsedMinutes / timeline.totalDuration) * 100;
+
+  return (
+    <div
+      className="absolute top-0 bottom-0 border-x border-amber-300/80 group"
+      style={{
+        left: `${start}%`,
+        width: `${end - start}%`,
+        background: 'repeating-linear-gradient(45deg, rgba(251, 191, 36, 0.35) 0 4px, transparent 4px 8px)'
+      }}
+    >
+      <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-[10px] font-bold text-amber-200 pointer-events-none">
+        {layover.airport.iata}
+      </div>
+
+      {/* Tooltip on hover */}
+      <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-1 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap">
+        <div className="bg-gray-900 text-white text-xs px-2 py-1 rounded shadow-lg">
+          <div className="font-semibold">Layover at {layover.airport.iata}</div>
+          <div className="text-gray-300">
+            {formatTimeInTimezone(layover.arrival, timezone)} - {formatTimeInTimezone(layover.departure, timezone)}
+          </div>
+          <div className="text-gray-300">{formatDuration(layover.minutes)} on the ground</div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Render the light phases as bands of colour, changing halfway between samples
 function renderDaylightGradient(timeline: FlightTimeline) {
-  const gradientStops = timeline.points
-    .filter((_, i) => i % 5 === 0) // Sample every 5th point for performance
-    .map((point, i, arr) => {
-      const position = (i / (arr.length - 1)) * 100;
-      const color = point.isDaylight 
-        ? 'rgba(135, 206, 250, 0.4)'  // Sky blue for day (matches globe atmosphere)
-        : 'rgba(25, 25, 60, 0.5)';    // Deep navy for night (matches space background)
-      return `${color} ${position}%`;
-    });
+  const { points, totalDuration } = timeline;
+  const bands: { phase: TwilightPhase; start: number; end: number }[] = [];
+
+  points.forEach((point, i) => {
+    const last = bands[bands.length - 1];
+    if (last && last.phase === point.twilightPhase) return;
+
+    const boundary = i === 0 ? 0 : (points[i - 1].elapsedMinutes + point.elapsedMinutes) / 2;
+    if (last) last.end = boundary;
+    bands.push({ phase: point.twilightPhase, start: boundary, end: totalDuration });
+  });
+
+  const gradientStops = bands.flatMap(band => [
+    `${PHASE_COLORS[band.phase]} ${(band.start / totalDuration) * 100}%`,
+    `${PHASE_COLORS[band.phase]} ${(band.end / totalDuration) * 100}%`
+  ]);
 
   return (
     <div
       className="w-full h-full"
+      title={bands.map(band => TWILIGHT_PHASE_LABELS[band.phase]).join(' → ')}
       style={{
         background: `linear-gradient(to right, ${gradientStops.join(', ')})`
       }}
@@ -0,0 +1,125 @@
+import { FlightTimeline, TimelinePoint } from '@/types';
+import { calculateAircraftSunExposure } from '@/utils/aircraft';
+import { DEFAULT_WINDOW_GEOMETRY } from '@/utils/aircraftProfiles';
+import {
+  WindowSeat,
+  getSkyColors,
+  getWindowHorizon,
+  getWindowViewFrame,
+  projectToWindow
+} from '@/utils/windowView';
+
+interface WindowViewProps {
+  timeline: FlightTimeline;
+  currentPoint: TimelinePoint;
+  seat: WindowSeat;
+}
+
+/** Radius of the window's rounded corners, degrees */
+const CORNER_RADIUS = 28;
+
+/**
+ * First-person view from a left or right window seat at a point of the
+ * flight: sky and ground lit for the sun's altitude, the horizon lowered by
+ * the aircraft's height, and the sun and moon where they appear abeam
+ * Drawn in degrees, so the view is to scale with the window geometry.
+ */
+export function WindowView({ timeline, currentPoint, seat }: WindowViewProps) {
+  const windowGeometry = timeline.aircraft?.window ?? DEFAULT_WINDOW_GEOMETRY;
+  const frame = getWindowViewFrame(seat, windowGeometry);
+  const altitude = currentPoint.altitude ?? 0;
+  const horizon = getWindowHorizon(altitude);
+  const colors = getSkyColors(currentPoint.sunAltitude, altitude);
+
+  const sun = projectToWindow(currentPoint.sunAzimuth, currentPoint.sunAltitude, currentPoint.heading, seat, windowGeometry);
+  const moon = projectToWindow(currentPoint.moonAzimuth, currentPoint.moonAltitude, currentPoint.heading, seat, windowGeometry);
+  const sunUp = currentPoint.sunAltitude > horizon;
+  const moonUp = currentPoint.moonAltitude > horizon;
+  const exposure = calculateAircraftSunExposure(
+    currentPoint.heading,
+    currentPoint.sunAzimuth,
+    currentPoint.sunAltitude,
+    windowGeometry
+  );
+
+  const width = frame.right - frame.left;
+  const height = frame.top - frame.bottom;
+  const forwardOnRight = seat === 'LEFT';
+
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center gap-4 bg-gradient-to-b from-gray-800 via-gray-700 to-gray-800">
+      <div className="text-sm text-gray-300">
+        {seat === 'LEFT' ? 'Left' : 'Right'} window · heading {Math.round(currentPoint.heading)}°
+        {altitude > 0 ? ` · ${Math.round(altitude).toLocaleString()} ft` : ' · on the ground'}
+      </div>
+
+      <svg
+        viewBox={`${frame.left} ${-frame.top} ${width} ${height}`}
+        className="h-[60vh] max-w-[90vw]"
+        role="img"
+        aria-label={`View from the ${seat === 'LEFT' ? 'left' : 'right'} window`}
+      >
+        <defs>
+          <clipPath id="window-pane">
+            <rect x={frame.left} y={-frame.top} width={width} height={height} rx={CORNER_RADIUS} />
+          </clipPath>
+          <linearGradient id="window-sky" gradientUnits="userSpaceOnUse" x1="0" y1={-frame.top} x2="0" y2={-horizon}>
+            <stop offset="0" stopColor={colors.zenith} />
+            <stop offset="1" stopColor={colors.horizon} />
+          </linearGradient>
+          <linearGradient id="window-ground" gradientUnits="userSpaceOnUse" x1="0" y1={-horizon} x2="0" y2={-frame.bottom}>
+            <stop offset="0" stopColor={colors.horizon} />
+            <stop offset="0.15" stopColor={colors.ground} />
+            <stop offset="1" stopColor={colors.ground} />
+          </linearGradient>
+          <radialGradient id="window-glow">
+            <stop offset="0" stopColor={colors.glow} stopOpacity="0.7" />
+            <stop offset="1" stopColor={colors.glow} stopOpacity="0" />
+          </radialGradient>
+        </defs>
+
+        <g clipPath="url(#window-pane)">
+          <rect x={frame.left} y={-frame.top} width={width} height={height} fill="url(#window-sky)" />
+
+          {/* Glow around the sun, also lighting the sky before sunrise and after sunset */}
+          <circle cx={sun.x} cy={-Math.max(sun.y, horizon)} r={30} fill="url(#window-glow)" />
+
+          {moonUp && (
+            <circle cx={moon.x} cy={-moon.y} r={1.4} fill="#f3f4f6" opacity={0.3 + 0.7 * currentPoint.moonIllumination} />
+          )}
+          {sunUp && (
+            <>
+              <circle cx={sun.x} cy={-sun.y} r={4} fill="#fffbe6" opacity={0.35} />
+              <circle cx={sun.x} cy={-sun.y} r={1.6} fill="#fffdf2" />
+            </>
+          )}
+
+          {/* Terrain below the horizon hides the sun and moon once set */}
+          <rect x={frame.left} y={-horizon} width={width} height={horizon - frame.bottom} fill="url(#window-ground)" />
+          <line x1={frame.left} y1={-horizon} x2={frame.right} y2={-horizon} stroke={colors.horizon} strokeWidth={0.4} opacity={0.8} />
+        </g>
+
+        <rect
+          x={frame.left}
+          y={-frame.top}
+          width={width}
+          height={height}
+          rx={CORNER_RADIUS}
+          fill="none"
+          stroke="#d1d5db"
+          strokeWidth={3}
+        />
+      </svg>
+
+      <div className="flex items-center gap-6 text-xs text-gray-400">
+        <span>{forwardOnRight ? '← Aft' : '← Nose'}</span>
+        <span>
+          Sun {currentPoint.sunAltitude.toFixed(1)}° high
+          {sun.visible ? ', in view' : ', out of view'}
+        </span>
+        <span>{forwardOnRight ? 'Nose →' : 'Aft →'}</span>
+      </div>
+      <div className="max-w-md text-center text-sm text-gray-200">{exposure.recommendation}</div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ComputeJob, ComputeResult } from '@/utils/computeJobs';
+import { ComputeTask, JOB_CANCELLED, getComputeService } from '@/utils/computeService';
+
+/**
+ * A job in progress, for display
+ */
+export interface ComputeJobStatus {
+  label: string;     // What is being computed, e.g. "Comparing departure times"
+  progress: number;  // 0-1
+}
+
+/**
+ * Run compute jobs one at a time from a component
+ * Starting a job cancels the previous one; the running job is cancelled on
+ * unmount. Failures other than cancellation are kept in `error`.
+ */
+export function useComputeJob() {
+  const [status, setStatus] = useState<ComputeJobStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const taskRef = useRef<ComputeTask<unknown> | null>(null);
+
+  const cancel = useCallback(() => {
+    taskRef.current?.cancel();
+  }, []);
+
+  const start = useCallback(<J extends ComputeJob>(
+    label: string,
+    job: J,
+    onResult: (result: ComputeResult<J>) => void
+  ) => {
+    taskRef.current?.cancel();
+
+    const task = getComputeService().run(job, progress => {
+      if (taskRef.current === task) setStatus({ label, progress });
+    });
+    taskRef.current = task;
+    setError(null);
+    setStatus({ label, progress: 0 });
+
+    // Only the latest job updates state
+    const finish = () => {
+      if (taskRef.current !== task) return false;
+      taskRef.current = null;
+      setStatus(null);
+      return true;
+    };
+    task.result.then(
+      result => {
+        if (finish()) onResult(result);
+      },
+      (failure: Error) => {
+        if (finish() && failure.message !== JOB_CANCELLED) setError(failure.message);
+      }
+    );
+  }, []);
+
+  useEffect(() => () => taskRef.current?.cancel(), []);
+
+  return { status, error, start, cancel };
+}
@@ -1,26 +1,80 @@
 declare module 'three' {
-  export class AmbientLight {
+  export class Vector3 {
+    constructor(x?: number, y?: number, z?: number);
+    x: number;
+    y: number;
+    z: number;
+    set(x: number, y: number, z: number): this;
+    copy(v: Vector3): this;
+    multiplyScalar(s: number): this;
+    normalize(): this;
+  }
+
+  export class Object3D {
+    name: string;
+    position: Vector3;
+    up: Vector3;
+    visible: boolean;
+    lookAt(x: number, y: number, z: number): void;
+  }
+
+  export class AmbientLight extends Object3D {
     constructor(color: number, intensity?: number);
   }
-  
-  export class DirectionalLight {
+
+  export class DirectionalLight extends Object3D {
     constructor(color: number, intensity?: number);
-    position: { set(x: number, y: number, z: number): void };
-    name: string;
   }
-  
-  export class SphereGeometry {
+
+  export class BufferGeometry {
+    rotateX(angle: number): this;
+    dispose(): void;
+  }
+
+  export class SphereGeometry extends BufferGeometry {
     constructor(radius: number, widthSegments?: number, heightSegments?: number);
   }
-  
-  export class MeshBasicMaterial {
-    constructor(parameters?: { color?: number });
+
+  export class Shape {
+    moveTo(x: number, y: number): this;
+    lineTo(x: number, y: number): this;
+    closePath(): this;
   }
-  
-  export class Mesh {
-    constructor(geometry: any, material: any);
-    position: { set(x: number, y: number, z: number): void };
-    name: string;
+
+  export class ShapeGeometry extends BufferGeometry {
+    constructor(shape: Shape);
   }
-}
 
+  export const DoubleSide: number;
+
+  export class Material {
+    dispose(): void;
+  }
+
+  export class MeshBasicMaterial extends Material {
+    constructor(parameters?: { color?: number; side?: number });
+  }
+
+  export class Mesh<G extends BufferGeometry = BufferGeometry, M extends Material = Material> extends Object3D {
+    constructor(geometry: G, material: M);
+    geometry: G;
+    material: M;
+  }
+
+  export class Texture {
+    dispose(): void;
+  }
+
+  export class TextureLoader {
+    load(url: string): Texture;
+  }
+
+  export class ShaderMaterial extends Material {
+    constructor(parameters?: {
+      uniforms?: Record<string, { value: any }>;
+      vertexShader?: string;
+      fragmentShader?: string;
+    });
+    uniforms: Record<string, { value: any }>;
+  }
+}
@@ -30,14 +30,82 @@ export interface DemoRoute {
   defaultDeparture: string;  // HH:mm format
 }
 
+export interface ItineraryLeg {
+  origin: Airport;
+  destination: Airport;
+  connectionMinutes?: number;  // Ground time at destination before the next leg
+  blockMinutes?: number;       // Scheduled gate-to-gate time of this leg
+}
+
+// Upper-air wind grid: u/v components by flight level, latitude and longitude
+export interface WindGrid {
+  levels: number[];        // Flight levels (hundreds of feet), ascending
+  lats: number[];          // Degrees, ascending
+  lons: number[];          // Degrees, ascending
+  u: number[][][];         // Eastward component km/h, indexed [level][lat][lon]
+  v: number[][][];         // Northward component km/h, indexed [level][lat][lon]
+  validTime?: string;      // ISO timestamp the analysis/forecast is valid for
+  source?: string;         // Free-form description of where the data came from
+}
+
+// A recorded position from an imported flight track (GPX, KML or ADS-B CSV)
+export interface TrackPoint {
+  lat: number;
+  lon: number;
+  timestamp: Date;
+  altitude?: number;       // feet
+  track?: number;          // Direction of travel (0-360), if recorded
+  speed?: number;          // Ground speed km/h, if recorded
+}
+
 export interface FlightData {
   origin: Airport;
   destination: Airport;
   departureDate: Date;
   departureTime: string;
   timezone?: string;
+  legs?: ItineraryLeg[];  // Multi-leg itinerary; origin/destination are its end points
+  windGrid?: WindGrid;    // Upper-air winds for ground speed and heading
+  track?: TrackPoint[];   // Flown track to analyse instead of a generated route
+  aircraft?: AircraftProfile; // Aircraft type; a generic jet when omitted
+  blockMinutes?: number;  // Scheduled gate-to-gate time; derived from distance when omitted
+  horizon?: HorizonDefinition; // Sunrise/sunset definition; ground level when omitted
+  solarModel?: SolarModel; // Sun position algorithm; Meeus when omitted
+}
+
+export type AircraftCategory = 'narrowbody' | 'widebody' | 'regional' | 'turboprop';
+
+/**
+ * Cabin window size and the part of the sky visible from a window seat.
+ * View angles are measured from the window seat's eye point, leaning in.
+ */
+export interface CabinWindowGeometry {
+  width: number;          // cm
+  height: number;         // cm
+  upwardView: number;     // Highest visible elevation above the horizon, degrees
+  forwardView: number;    // Visible arc ahead of abeam, degrees
+  aftView: number;        // Visible arc behind abeam, degrees
 }
 
+export interface AircraftProfile {
+  id: string;             // Short type designator, e.g. 'A320'
+  name: string;           // Display name
+  category: AircraftCategory;
+  cruiseMach?: number;    // Jets: cruise Mach number
+  cruiseSpeed: number;    // Typical cruise true airspeed, km/h
+  flightLevels: number[]; // Typical cruise levels, ascending (e.g. [340, 360, 380])
+  climbRate: number;      // Average climb rate to cruise, ft/min
+  descentRate: number;    // Average descent rate, ft/min
+  window: CabinWindowGeometry;
+}
+
+// Where sunrise/sunset is judged: the sea-level horizon, or the lower
+// horizon seen from the aircraft window at its altitude
+export type HorizonDefinition = 'ground' | 'window';
+
+// Solar position algorithm: the fast Meeus series or the high-precision NREL SPA
+export type SolarModel = 'meeus' | 'spa';
+
 // Solar position types (for Week 2)
 export interface SunPosition {
   azimuth: number;        // 0-360°, 0=North, 90=East
@@ -49,6 +117,8 @@ export interface SunPosition {
 }
 
 // Timeline types (for Week 2)
+export type FlightPhase = 'taxi' | 'climb' | 'cruise' | 'descent' | 'approach' | 'layover';
+
 export interface TimelinePoint {
   // Spatial position
   lat: number;
@@ -64,22 +134,71 @@ export interface TimelinePoint {
   sunAltitude: number;
   sunZenith: number;
   isDaylight: boolean;
+  twilightPhase: TwilightPhase;
+
+  // Lunar information
+  moonAzimuth: number;
+  moonAltitude: number;
+  moonIllumination: number; // Illuminated fraction of the disc (0-1)
+  moonPhase: number;        // 0-1: 0=new, 0.5=full
   
   // Flight information
-  heading: number;         // Aircraft bearing (0-360)
+  heading: number;         // Direction the nose points (0-360)
+  track: number;           // Direction of travel over the ground (0-360)
   speed: number;           // Ground speed km/h
   altitude?: number;       // Flight altitude in feet
+  phase: FlightPhase;
 }
 
+// Light by sun altitude: day above 6°, golden hour down to sunrise/sunset,
+// then civil (to -6°), nautical (to -12°) and astronomical (to -18°) twilight
+export type TwilightPhase = 'day' | 'golden-hour' | 'civil' | 'nautical' | 'astronomical' | 'night';
+
+// Blue hour is the darker half of civil twilight (-4° to -6°); its edge at
+// -6° is civil dawn/dusk. Nautical and astronomical dawn/dusk are the
+// sun crossing -12° and -18°.
+export type SunEventType =
+  | 'sunrise'
+  | 'sunset'
+  | 'golden-hour-start'
+  | 'golden-hour-end'
+  | 'blue-hour-start'
+  | 'blue-hour-end'
+  | 'nautical-dawn'
+  | 'nautical-dusk'
+  | 'astronomical-dawn'
+  | 'astronomical-dusk';
+
 export interface SunEvent {
-  type: 'sunrise' | 'sunset';
-  timestamp: Date;
-  lat: number;
+  type: SunEventType;
+  timestamp: Date;            // Exact crossing time, not snapped to a sample
+  elapsedMinutes: number;     // Minutes after departure
+  lat: number;                // Aircraft position at the crossing
   lon: number;
-  pointIndex: number;
+  pointIndex: number;         // First timeline point at or after the event
   description: string;
 }
 
+export interface MoonEvent {
+  type: 'moonrise' | 'moonset';
+  timestamp: Date;            // Exact crossing time, not snapped to a sample
+  elapsedMinutes: number;     // Minutes after departure
+  lat: number;                // Aircraft position at the crossing
+  lon: number;
+  pointIndex: number;         // First timeline point at or after the event
+  description: string;
+}
+
+export type MoonPhaseName =
+  | 'new'
+  | 'waxing-crescent'
+  | 'first-quarter'
+  | 'waxing-gibbous'
+  | 'full'
+  | 'waning-gibbous'
+  | 'last-quarter'
+  | 'waning-crescent';
+
 export interface FlightTimeline {
   points: TimelinePoint[];
   origin: Airport;
@@ -87,13 +206,55 @@ export interface FlightTimeline {
   totalDistance: number;
   totalDuration: number;      // minutes
   sunEvents: SunEvent[];
+  moonEvents: MoonEvent[];
   statistics: TimelineStatistics;
+  legs?: TimelineLeg[];       // Present for multi-leg itineraries
+  aircraft?: AircraftProfile; // Aircraft type the timeline was generated for
+  horizon?: HorizonDefinition; // Sunrise/sunset definition used for daylight and events
+  solarModel?: SolarModel;    // Sun position algorithm the timeline was computed with
+  warnings?: TimelineWarning[];  // Route and schedule problems worth showing to the user
+}
+
+export type RouteWarningType = 'antipodal' | 'near-antipodal';
+
+export interface RouteWarning {
+  type: RouteWarningType;
+  message: string;
+  angularDistance: number;    // Degrees between origin and destination (180 = antipodal)
+}
+
+export type ScheduleWarningType = 'block-too-short' | 'block-too-long';
+
+export interface ScheduleWarning {
+  type: ScheduleWarningType;
+  message: string;
+  blockMinutes: number;       // Scheduled gate-to-gate time
+  mismatchMinutes: number;    // Part of the block the route cannot realistically take (negative if too short)
+}
+
+export type TimelineWarning = RouteWarning | ScheduleWarning;
+
+export interface TimelineLeg {
+  timeline: FlightTimeline;   // Standalone timeline of this leg
+  startIndex: number;         // First point of the leg in the stitched timeline
+  endIndex: number;           // Last point of the leg in the stitched timeline
+  layover?: Layover;          // Ground time after this leg, if another follows
+}
+
+export interface Layover {
+  airport: Airport;
+  arrival: Date;
+  departure: Date;
+  minutes: number;
+  startIndex: number;         // Arrival point in the stitched timeline
+  endIndex: number;           // Departure point of the next leg
 }
 
 export interface TimelineStatistics {
   daylightMinutes: number;
   darknessMinutes: number;
   daylightPercentage: number;
+  phaseMinutes: Record<TwilightPhase, number>; // Minutes spent in each light phase
   averageSunAltitude: number;
   maxSunAltitude: number;
   minSunAltitude: number;
@@ -110,6 +271,14 @@ export interface AircraftSunExposure {
   recommendation: string;     // Human-readable recommendation
 }
 
+export interface AircraftMoonExposure {
+  side: AircraftSide;         // Window side the Moon can be seen from
+  relativeBearing: number;    // -180 to 180, 0=ahead
+  visible: boolean;           // Above the horizon and within a window's view
+  brightness: number;         // 0-1, from illumination and height above the horizon
+  recommendation: string;     // Human-readable recommendation
+}
+
 export interface FlightSunAnalysis {
   leftSideMinutes: number;
   rightSideMinutes: number;
@@ -119,4 +288,16 @@ export interface FlightSunAnalysis {
   detailedAnalysis: string[];
 }
 
+// One departure time of a departure-time sweep
+export interface DepartureSlot {
+  departureTime: Date;
+  arrivalTime: Date;
+  leftSideMinutes: number;
+  rightSideMinutes: number;
+  overheadMinutes: number;
+  noSunMinutes: number;
+  sunrises: number;           // Sunrises seen in flight
+  sunsets: number;            // Sunsets seen in flight
+}
+
 
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for the aircraft type catalogue and its use in timelines
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AIRCRAFT_PROFILES,
+  DEFAULT_AIRCRAFT_ID,
+  getAircraftProfile,
+  machToTrueAirspeed,
+  getCruisePerformance
+} from '../aircraftProfiles';
+import { generateFlightTimeline } from '../timeline';
+import { calculateAircraftSunExposure, analyzeFlightSunExposure } from '../aircraft';
+import { Airport } from '@/types';
+
+const JFK: Airport = {
+  iata: 'JFK',
+  name: 'John F Kennedy International Airport',
+  city: 'New York',
+  country: 'United States',
+  lat: 40.6413,
+  lon: -73.7781,
+  timezone: 'America/New_York'
+};
+
+const LHR: Airport = {
+  iata: 'LHR',
+  name: 'London Heathrow Airport',
+  city: 'London',
+  country: 'United Kingdom',
+  lat: 51.4700,
+  lon: -0.4543,
+  timezone: 'Europe/London'
+};
+
+const BOS: Airport = {
+  iata: 'BOS',
+  name: 'Boston Logan International Airport',
+  city: 'Boston',
+  country: 'United States',
+  lat: 42.3656,
+  lon: -71.0096,
+  timezone: 'America/New_York'
+};
+
+describe('Aircraft Profiles', () => {
+  describe('catalogue', () => {
+    it('covers every category', () => {
+      const categories = new Set(AIRCRAFT_PROFILES.map(p => p.category));
+      expect([...categories].sort()).toEqual(['narrowbody', 'regional', 'turboprop', 'widebody']);
+    });
+
+    it('has unique ids and ascending flight levels', () => {
+      const ids = AIRCRAFT_PROFILES.map(p => p.id);
+      expect(new Set(ids).size).toBe(ids.length);
+      AIRCRAFT_PROFILES.forEach(profile => {
+        const sorted = [...profile.flightLevels].sort((a, b) => a - b);
+        expect(profile.flightLevels).toEqual(sorted);
+      });
+    });
+
+    it('finds profiles by id', () => {
+      expect(getAircraftProfile(DEFAULT_AIRCRAFT_ID)).toBeDefined();
+      expect(getAircraftProfile('B789')?.name).toBe('Boeing 787-9');
+      expect(getAircraftProfile('XXXX')).toBeUndefined();
+    });
+  });
+
+  describe('machToTrueAirspeed', () => {
+    it('uses the ISA speed of sound', () => {
+      // 661.5 kt at sea level, 573.6 kt in the stratosphere
+      expect(machToTrueAirspeed(1, 0)).toBeCloseTo(661.5 * 1.852, -1);
+      expect(machToTrueAirspeed(1, 40000)).toBeCloseTo(573.6 * 1.852, -1);
+    });
+
+    it('is constant above the tropopause', () => {
+      expect(machToTrueAirspeed(0.85, 39000)).toBe(machToTrueAirspeed(0.85, 43000));
+    });
+  });
+
+  describe('getCruisePerformance', () => {
+    const a320 = getAircraftProfile('A320')!;
+
+    it('flies short routes low and long routes high', () => {
+      expect(getCruisePerformance(a320, 300).cruisingAltitude).toBe(33000);
+      expect(getCruisePerformance(a320, 8000).cruisingAltitude).toBe(39000);
+    });
+
+    it('derives jet cruise speed from Mach', () => {
+      const performance = getCruisePerformance(a320, 5000);
+      expect(performance.cruisingSpeed).toBeCloseTo(machToTrueAirspeed(0.78, performance.cruisingAltitude), 6);
+    });
+
+    it('uses the cruise speed of turboprops', () => {
+      const atr = getAircraftProfile('AT76')!;
+      expect(getCruisePerformance(atr, 400).cruisingSpeed).toBe(atr.cruiseSpeed);
+    });
+  });
+
+  describe('timelines', () => {
+    const departureTime = new Date('2024-06-21T12:00:00Z');
+
+    it('cruise at the profile speed and level', () => {
+      const b789 = getAircraftProfile('B789')!;
+      const timeline = generateFlightTimeline(JFK, LHR, departureTime, { aircraft: b789 });
+      const expected = getCruisePerformance(b789, timeline.totalDistance);
+      const cruise = timeline.points.filter(p => p.phase === 'cruise');
+
+      expect(timeline.aircraft).toBe(b789);
+      expect(cruise.length).toBeGreaterThan(0);
+      cruise.forEach(point => {
+        expect(point.altitude).toBe(expected.cruisingAltitude);
+        expect(point.speed).toBeCloseTo(expected.cruisingSpeed, 6);
+      });
+    });
+
+    it('let explicit options override the profile', () => {
+      const timeline = generateFlightTimeline(JFK, LHR, departureTime, {
+        aircraft: getAircraftProfile('B789'),
+        cruisingAltitude: 30000
+      });
+      const cruise = timeline.points.filter(p => p.phase === 'cruise');
+      cruise.forEach(point => expect(point.altitude).toBe(30000));
+    });
+
+    it('make turboprops slower than jets', () => {
+      const jet = generateFlightTimeline(JFK, BOS, departureTime, { aircraft: getAircraftProfile('E175') });
+      const turboprop = generateFlightTimeline(JFK, BOS, departureTime, { aircraft: getAircraftProfile('AT76') });
+
+      expect(turboprop.totalDuration).toBeGreaterThan(jet.totalDuration);
+    });
+  });
+
+  describe('window geometry in seat analysis', () => {
+    it('treats high sun as overhead only above the visible window arc', () => {
+      const b789 = getAircraftProfile('B789')!;
+      const atr = getAircraftProfile('AT76')!;
+
+      // Sun 60° up, abeam right
+      expect(calculateAircraftSunExposure(0, 90, 60, b789.window).side).toBe('RIGHT');
+      expect(calculateAircraftSunExposure(0, 90, 60, atr.window).side).toBe('OVERHEAD');
+    });
+
+    it('keeps the original thresholds without a profile', () => {
+      expect(calculateAircraftSunExposure(0, 90, 71).side).toBe('OVERHEAD');
+      expect(calculateAircraftSunExposure(0, 31, 30).side).toBe('RIGHT');
+      expect(calculateAircraftSunExposure(0, 29, 30).side).toBe('NONE');
+    });
+
+    it('uses the timeline aircraft in the flight analysis', () => {
+      const departureTime = new Date('2024-06-21T12:00:00Z');
+      const timeline = generateFlightTimeline(JFK, LHR, departureTime);
+      const withDefault = analyzeFlightSunExposure(timeline);
+      const withAtrWindows = analyzeFlightSunExposure({ ...timeline, aircraft: getAircraftProfile('AT76') });
+
+      expect(withAtrWindows.overheadMinutes).toBeGreaterThan(withDefault.overheadMinutes);
+    });
+  });
+});
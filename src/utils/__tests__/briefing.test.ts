@@ -0,0 +1,128 @@
+/**
+ * Unit tests for airport daylight briefings
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getAirportBriefing, getFlightBriefing, getLightCondition } from '../briefing';
+import { generateFlightTimeline } from '../timeline';
+import { Airport } from '@/types';
+
+const LAX: Airport = {
+  iata: 'LAX',
+  name: 'Los Angeles International Airport',
+  city: 'Los Angeles',
+  country: 'United States',
+  lat: 33.9416,
+  lon: -118.4085,
+  timezone: 'America/Los_Angeles'
+};
+
+const JFK: Airport = {
+  iata: 'JFK',
+  name: 'John F Kennedy International Airport',
+  city: 'New York',
+  country: 'United States',
+  lat: 40.6413,
+  lon: -73.7781,
+  timezone: 'America/New_York'
+};
+
+const DEN: Airport = {
+  iata: 'DEN',
+  name: 'Denver International Airport',
+  city: 'Denver',
+  country: 'United States',
+  lat: 39.742476,  // NREL's reference site in Golden, Colorado
+  lon: -105.1786,
+  timezone: 'America/Denver'
+};
+
+const TOS: Airport = {
+  iata: 'TOS',
+  name: 'Tromsø Airport',
+  city: 'Tromsø',
+  country: 'Norway',
+  lat: 69.6833,
+  lon: 18.9189,
+  timezone: 'Europe/Oslo'
+};
+
+describe('Daylight Briefing', () => {
+  // Leaves LA in the afternoon, lands in New York after midnight
+  const timeline = generateFlightTimeline(LAX, JFK, new Date('2024-06-21T23:00:00Z'));
+  const briefing = getFlightBriefing(timeline);
+
+  it('briefs each airport on its own local date', () => {
+    expect(briefing.departure.airport).toBe(LAX);
+    expect(briefing.departure.localDate).toBe('2024-06-21');
+    expect(briefing.arrival.airport).toBe(JFK);
+    expect(briefing.arrival.localDate).toBe('2024-06-22');
+  });
+
+  it('uses takeoff and landing rather than the gate times', () => {
+    const start = timeline.points[0].timestamp.getTime();
+    const end = timeline.points[timeline.points.length - 1].timestamp.getTime();
+
+    expect(briefing.departure.time.getTime()).toBeGreaterThan(start);
+    expect(briefing.arrival.time.getTime()).toBeLessThan(end);
+  });
+
+  it('classifies the light at takeoff and landing', () => {
+    expect(briefing.departure.light).toBe('daylight');
+    expect(briefing.arrival.light).toBe('darkness');
+  });
+
+  it('measures landing time from the nearest sunset', () => {
+    const { arrival } = briefing;
+    expect(arrival.minutesFromSunset).toBeGreaterThan(0);
+
+    // The previous evening's sunset, not the one the following day
+    const sunset = new Date(arrival.time.getTime() - arrival.minutesFromSunset! * 60000);
+    expect(sunset.toISOString().slice(0, 10)).toBe('2024-06-22');
+    expect(arrival.minutesFromSunset).toBeLessThan(12 * 60);
+  });
+
+  it('is negative when landing before sunset', () => {
+    const afternoon = getAirportBriefing(JFK, new Date('2024-06-21T20:00:00Z'));
+    expect(afternoon.light).toBe('daylight');
+    expect(afternoon.minutesFromSunset).toBeLessThan(0);
+  });
+
+  it('includes the local day\'s sun times', () => {
+    const { daylight } = briefing.departure;
+    expect(daylight.sunrise).not.toBeNull();
+    expect(daylight.sunset).not.toBeNull();
+    expect(daylight.civilTwilightStart!.getTime()).toBeLessThan(daylight.sunrise!.getTime());
+    expect(daylight.dayLength).toBeGreaterThan(14);
+  });
+
+  it('has no sunset under the midnight sun', () => {
+    const summer = getAirportBriefing(TOS, new Date('2024-06-21T22:00:00Z'));
+    expect(summer.daylight.isAlwaysDay).toBe(true);
+    expect(summer.minutesFromSunset).toBeNull();
+    expect(summer.light).toBe('daylight');
+  });
+
+  it('uses the timeline\'s solar model for the sun times', () => {
+    // NREL's reference day: published sunrise 06:12:43 local time
+    const time = new Date('2003-10-17T19:30:30Z');
+    const spa = getAirportBriefing(DEN, time, 'spa');
+    const meeus = getAirportBriefing(DEN, time);
+
+    expect(Math.abs(spa.daylight.sunrise!.getTime() - Date.parse('2003-10-17T13:12:43Z'))).toBeLessThan(10000);
+    expect(spa.daylight.sunrise).not.toEqual(meeus.daylight.sunrise);
+
+    const spaTimeline = generateFlightTimeline(LAX, JFK, new Date('2024-06-21T23:00:00Z'), { solarModel: 'spa' });
+    const spaBriefing = getFlightBriefing(spaTimeline);
+    expect(spaBriefing.departure.daylight.sunset).toEqual(
+      getAirportBriefing(LAX, spaBriefing.departure.time, 'spa').daylight.sunset
+    );
+    expect(spaBriefing.departure.daylight.sunset).not.toEqual(briefing.departure.daylight.sunset);
+  });
+
+  it('tells twilight from darkness', () => {
+    // Civil twilight in New York about 20 minutes after sunset
+    expect(getLightCondition(JFK.lat, JFK.lon, new Date('2024-06-22T00:55:00Z'))).toBe('twilight');
+    expect(getLightCondition(JFK.lat, JFK.lon, new Date('2024-06-22T04:00:00Z'))).toBe('darkness');
+  });
+});
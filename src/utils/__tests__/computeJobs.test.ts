@@ -0,0 +1,112 @@
+/**
+ * Unit tests for computation jobs and the worker message handler
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runComputeJob, handleComputeRequest, WorkerResponse } from '../computeJobs';
+import { generateFlightTimeline } from '../timeline';
+import { analyzeFlightSunExposure } from '../aircraft';
+import { Airport, FlightData } from '@/types';
+
+const JFK: Airport = {
+  iata: 'JFK',
+  name: 'John F Kennedy International Airport',
+  city: 'New York',
+  country: 'United States',
+  lat: 40.6413,
+  lon: -73.7781,
+  timezone: 'America/New_York'
+};
+
+const LHR: Airport = {
+  iata: 'LHR',
+  name: 'London Heathrow Airport',
+  city: 'London',
+  country: 'United Kingdom',
+  lat: 51.4700,
+  lon: -0.4543,
+  timezone: 'Europe/London'
+};
+
+const flight: FlightData = {
+  origin: JFK,
+  destination: LHR,
+  departureDate: new Date('2024-06-21T22:00:00Z'),
+  departureTime: '22:00'
+};
+
+describe('Compute Jobs', () => {
+  it('generates the same timeline as the generator', () => {
+    const timeline = runComputeJob({ type: 'timeline', flight });
+    const direct = generateFlightTimeline(JFK, LHR, flight.departureDate, {});
+
+    expect(timeline.points).toHaveLength(direct.points.length);
+    expect(timeline.sunEvents).toEqual(direct.sunEvents);
+  });
+
+  it('reports timeline progress while sampling', () => {
+    const progress: number[] = [];
+    runComputeJob({ type: 'timeline', flight }, p => progress.push(p));
+
+    // Several reports before the end, never going backwards
+    expect(progress.filter(p => p > 0 && p < 1).length).toBeGreaterThan(2);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+
+  it('reports itinerary progress leg by leg', () => {
+    const progress: number[] = [];
+    const legs = [
+      { origin: JFK, destination: LHR, connectionMinutes: 90 },
+      { origin: LHR, destination: JFK }
+    ];
+    runComputeJob({ type: 'timeline', flight: { ...flight, legs } }, p => progress.push(p));
+
+    expect(progress).toContain(0.5);
+    expect(progress.filter(p => p < 0.5).length).toBeGreaterThan(2);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+
+  it('analyses a timeline with its daylight briefing', () => {
+    const timeline = generateFlightTimeline(JFK, LHR, flight.departureDate);
+    const progress: number[] = [];
+    const analysis = runComputeJob({ type: 'analysis', timeline }, p => progress.push(p));
+
+    expect(analysis.flight).toEqual(analyzeFlightSunExposure(timeline));
+    expect(analysis.legs).toEqual([]);
+    expect(analysis.briefing.departure.airport).toBe(JFK);
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+
+  it('reports sweep progress for every departure', () => {
+    const progress: number[] = [];
+    const slots = runComputeJob({ type: 'sweep', flight }, p => progress.push(p));
+
+    // Every 15 minutes through JFK's local day
+    expect(slots).toHaveLength(96);
+    expect(progress).toHaveLength(96);
+    expect(progress[0]).toBeCloseTo(1 / 96);
+    expect(progress[95]).toBe(1);
+    expect(slots[0].departureTime.toISOString()).toBe('2024-06-21T04:00:00.000Z');
+  });
+
+  it('posts progress, then the result', () => {
+    const responses: WorkerResponse[] = [];
+    handleComputeRequest({ id: 7, job: { type: 'timeline', flight } }, r => responses.push(r));
+
+    expect(responses[responses.length - 1].type).toBe('result');
+    expect(responses.slice(0, -1).every(r => r.type === 'progress')).toBe(true);
+    expect(responses.every(r => r.id === 7)).toBe(true);
+  });
+
+  it('posts failures instead of throwing', () => {
+    const responses: WorkerResponse[] = [];
+    const track = [{ lat: 40.6, lon: -73.8, timestamp: new Date('2024-06-21T22:00:00Z') }];
+    handleComputeRequest({ id: 3, job: { type: 'timeline', flight: { ...flight, track } } }, r => responses.push(r));
+
+    expect(responses).toEqual([
+      { id: 3, type: 'error', message: 'Track needs at least two positions with distinct timestamps' }
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the computation service (on inline workers)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createComputeService, createInlineWorker, ComputeWorker, JOB_CANCELLED } from '../computeService';
+import { Airport, FlightData } from '@/types';
+
+const SIN: Airport = {
+  iata: 'SIN',
+  name: 'Singapore Changi Airport',
+  city: 'Singapore',
+  country: 'Singapore',
+  lat: 1.3644,
+  lon: 103.9915,
+  timezone: 'Asia/Singapore'
+};
+
+const SYD: Airport = {
+  iata: 'SYD',
+  name: 'Sydney Kingsford Smith Airport',
+  city: 'Sydney',
+  country: 'Australia',
+  lat: -33.9461,
+  lon: 151.1772,
+  timezone: 'Australia/Sydney'
+};
+
+const flight: FlightData = {
+  origin: SIN,
+  destination: SYD,
+  departureDate: new Date('2024-03-01T14:00:00Z'),
+  departureTime: '14:00'
+};
+
+// Inline workers, counted as they are created and terminated
+function countingWorkers() {
+  const counts = { created: 0, terminated: 0 };
+  const createWorker = (): ComputeWorker => {
+    counts.created++;
+    const worker = createInlineWorker();
+    const terminate = worker.terminate;
+    worker.terminate = () => {
+      counts.terminated++;
+      terminate();
+    };
+    return worker;
+  };
+  return { counts, createWorker };
+}
+
+describe('Compute Service', () => {
+  it('runs jobs in order and reports progress', async () => {
+    const service = createComputeService(createInlineWorker);
+    const progress: number[] = [];
+
+    const timeline = service.run({ type: 'timeline', flight });
+    const sweep = service.run({ type: 'sweep', flight }, p => progress.push(p));
+
+    expect((await timeline.result).origin).toEqual(SIN);
+    expect(await sweep.result).toHaveLength(96);
+    expect(progress).toHaveLength(96);
+    service.dispose();
+  });
+
+  it('cancels a queued job without disturbing the running one', async () => {
+    const { counts, createWorker } = countingWorkers();
+    const service = createComputeService(createWorker);
+
+    const first = service.run({ type: 'timeline', flight });
+    const second = service.run({ type: 'timeline', flight });
+    second.cancel();
+
+    await expect(second.result).rejects.toThrow(JOB_CANCELLED);
+    expect((await first.result).destination).toEqual(SYD);
+    expect(counts).toEqual({ created: 1, terminated: 0 });
+    service.dispose();
+  });
+
+  it('cancels a running job by replacing the worker', async () => {
+    const { counts, createWorker } = countingWorkers();
+    const service = createComputeService(createWorker);
+
+    const running = service.run({ type: 'calendar', flight });
+    const next = service.run({ type: 'timeline', flight });
+    running.cancel();
+
+    await expect(running.result).rejects.toThrow(JOB_CANCELLED);
+    expect((await next.result).origin).toEqual(SIN);
+    expect(counts).toEqual({ created: 2, terminated: 1 });
+    service.dispose();
+  });
+
+  it('rejects failed jobs with their error', async () => {
+    const service = createComputeService(createInlineWorker);
+    const track = [{ lat: 1.36, lon: 103.99, timestamp: flight.departureDate }];
+    const failing = service.run({ type: 'timeline', flight: { ...flight, track } });
+    const next = service.run({ type: 'timeline', flight });
+
+    await expect(failing.result).rejects.toThrow('at least two positions');
+    expect((await next.result).origin).toEqual(SIN);
+    service.dispose();
+  });
+
+  it('cancels everything on dispose', async () => {
+    const service = createComputeService(createInlineWorker);
+    const running = service.run({ type: 'timeline', flight });
+    const queued = service.run({ type: 'timeline', flight });
+    service.dispose();
+
+    await expect(running.result).rejects.toThrow(JOB_CANCELLED);
+    await expect(queued.result).rejects.toThrow(JOB_CANCELLED);
+  });
+});
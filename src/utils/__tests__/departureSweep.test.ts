@@ -0,0 +1,140 @@
+/**
+ * Unit tests for departure-time sweeps
+ */
+
+import { describe, it, expect } from 'vitest';
+import { sweepDepartureTimes, sweepCalendarYear, getSunnySide } from '../departureSweep';
+import { generateFlightTimeline } from '../timeline';
+import { analyzeFlightSunExposure } from '../aircraft';
+import { Airport } from '@/types';
+
+const JFK: Airport = {
+  iata: 'JFK',
+  name: 'John F Kennedy International Airport',
+  city: 'New York',
+  country: 'United States',
+  lat: 40.6413,
+  lon: -73.7781,
+  timezone: 'America/New_York'
+};
+
+const LHR: Airport = {
+  iata: 'LHR',
+  name: 'London Heathrow Airport',
+  city: 'London',
+  country: 'United Kingdom',
+  lat: 51.4700,
+  lon: -0.4543,
+  timezone: 'Europe/London'
+};
+
+const DXB: Airport = {
+  iata: 'DXB',
+  name: 'Dubai International Airport',
+  city: 'Dubai',
+  country: 'United Arab Emirates',
+  lat: 25.2532,
+  lon: 55.3657,
+  timezone: 'Asia/Dubai'
+};
+
+describe('Departure Sweep', () => {
+  const start = new Date('2024-06-21T00:00:00Z');
+
+  it('generates one slot per interval', () => {
+    const slots = sweepDepartureTimes([{ origin: JFK, destination: LHR }], start, {
+      intervalMinutes: 180,
+      spanMinutes: 24 * 60
+    });
+
+    expect(slots).toHaveLength(8);
+    slots.forEach((slot, i) => {
+      expect(slot.departureTime.getTime()).toBe(start.getTime() + i * 180 * 60000);
+      expect(slot.arrivalTime.getTime()).toBeGreaterThan(slot.departureTime.getTime());
+    });
+  });
+
+  it('matches a flight analysed on its own', () => {
+    const [, slot] = sweepDepartureTimes([{ origin: JFK, destination: LHR }], start, {
+      intervalMinutes: 600,
+      spanMinutes: 1200
+    });
+    const timeline = generateFlightTimeline(JFK, LHR, slot.departureTime);
+    const analysis = analyzeFlightSunExposure(timeline);
+
+    expect(slot.leftSideMinutes).toBeCloseTo(analysis.leftSideMinutes, 6);
+    expect(slot.rightSideMinutes).toBeCloseTo(analysis.rightSideMinutes, 6);
+    expect(slot.noSunMinutes).toBeCloseTo(analysis.noSunMinutes, 6);
+    expect(slot.sunrises + slot.sunsets).toBe(timeline.sunEvents.filter(e => e.type === 'sunrise' || e.type === 'sunset').length);
+  });
+
+  it('finds departures with and without sunrise or sunset', () => {
+    const slots = sweepDepartureTimes([{ origin: JFK, destination: LHR }], start, {
+      intervalMinutes: 60
+    });
+
+    expect(slots.some(slot => slot.sunrises > 0)).toBe(true);
+    expect(slots.some(slot => slot.sunrises === 0 && slot.sunsets === 0)).toBe(true);
+  });
+
+  it('sweeps multi-leg itineraries and honours block times', () => {
+    const [slot] = sweepDepartureTimes(
+      [
+        { origin: DXB, destination: LHR, blockMinutes: 460, connectionMinutes: 120 },
+        { origin: LHR, destination: JFK, blockMinutes: 480 }
+      ],
+      start,
+      { intervalMinutes: 60, spanMinutes: 60 }
+    );
+
+    expect((slot.arrivalTime.getTime() - slot.departureTime.getTime()) / 60000)
+      .toBeCloseTo(460 + 120 + 480, 6);
+  });
+
+  it('rejects empty routes and invalid intervals', () => {
+    expect(() => sweepDepartureTimes([], start)).toThrow();
+    expect(() => sweepDepartureTimes([{ origin: JFK, destination: LHR }], start, { intervalMinutes: 0 })).toThrow();
+    expect(() => sweepDepartureTimes([{ origin: JFK, destination: LHR }], start, { intervalMinutes: 1, spanMinutes: 7 * 24 * 60 })).toThrow(/at most/);
+  });
+
+  describe('sweepCalendarYear', () => {
+    const slots = sweepCalendarYear([{ origin: JFK, destination: LHR }], 2024, '19:00', 'America/New_York');
+
+    it('flies every day of the year at the same local time', () => {
+      expect(slots).toHaveLength(366);
+      // EST in January, EDT in July
+      expect(slots[0].departureTime.toISOString()).toBe('2024-01-02T00:00:00.000Z');
+      expect(slots[182].departureTime.toISOString()).toBe('2024-07-01T23:00:00.000Z');
+    });
+
+    it('shows seasonal changes in sunrise during the flight', () => {
+      const june = slots.slice(152, 182);
+      const december = slots.slice(335);
+
+      expect(june.every(slot => slot.sunrises === 1)).toBe(true);
+      expect(december.every(slot => slot.sunrises === 0)).toBe(true);
+    });
+  });
+
+  describe('getSunnySide', () => {
+    const slot = {
+      departureTime: new Date(0),
+      arrivalTime: new Date(0),
+      leftSideMinutes: 30,
+      rightSideMinutes: 90,
+      overheadMinutes: 10,
+      noSunMinutes: 200,
+      sunrises: 0,
+      sunsets: 0
+    };
+
+    it('picks the side that sees the sun longest', () => {
+      expect(getSunnySide(slot)).toBe('RIGHT');
+      expect(getSunnySide({ ...slot, leftSideMinutes: 120 })).toBe('LEFT');
+    });
+
+    it('returns NONE when the sun is never seen', () => {
+      expect(getSunnySide({ ...slot, leftSideMinutes: 0, rightSideMinutes: 0, overheadMinutes: 0 })).toBe('NONE');
+    });
+  });
+});
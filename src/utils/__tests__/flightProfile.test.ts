@@ -0,0 +1,151 @@
+/**
+ * Unit tests for the vertical flight profile
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildFlightProfile, fitFlightProfile, sampleFlightProfile } from '../flightProfile';
+
+describe('Flight Profile', () => {
+  const jet = { cruisingSpeed: 850, cruisingAltitude: 37000 };
+
+  describe('buildFlightProfile', () => {
+    it('covers the whole route', () => {
+      const profile = buildFlightProfile(4000, jet);
+      const last = profile.samples[profile.samples.length - 1];
+
+      expect(profile.samples[0].distance).toBe(0);
+      expect(last.distance).toBe(4000);
+      expect(last.elapsedMinutes).toBeCloseTo(profile.totalDuration, 6);
+    });
+
+    it('includes taxi time in the block time', () => {
+      const profile = buildFlightProfile(4000, { ...jet, taxiOutMinutes: 20, taxiInMinutes: 10 });
+
+      expect(profile.totalDuration).toBeCloseTo(profile.airborneMinutes + 30, 6);
+    });
+
+    it('takes longer than flying the whole route at cruise speed', () => {
+      const profile = buildFlightProfile(4000, jet);
+      const cruiseOnly = (4000 / 850) * 60;
+
+      expect(profile.airborneMinutes).toBeGreaterThan(cruiseOnly);
+      expect(profile.totalDuration).toBeLessThan(cruiseOnly + 60);
+    });
+
+    it('reaches cruise altitude on long routes', () => {
+      const profile = buildFlightProfile(4000, jet);
+
+      expect(profile.topOfClimbAltitude).toBe(37000);
+      expect(profile.samples.some(s => s.phase === 'cruise')).toBe(true);
+    });
+
+    it('levels off lower on very short routes', () => {
+      const profile = buildFlightProfile(150, jet);
+
+      expect(profile.topOfClimbAltitude).toBeLessThan(37000);
+      expect(profile.samples.some(s => s.phase === 'cruise')).toBe(false);
+    });
+
+    it('keeps distance and time monotonic', () => {
+      const profile = buildFlightProfile(800, jet);
+
+      for (let i = 1; i < profile.samples.length; i++) {
+        expect(profile.samples[i].elapsedMinutes).toBeGreaterThanOrEqual(profile.samples[i - 1].elapsedMinutes);
+        expect(profile.samples[i].distance).toBeGreaterThanOrEqual(profile.samples[i - 1].distance);
+      }
+    });
+
+    it('handles zero distance', () => {
+      const profile = buildFlightProfile(0, jet);
+
+      expect(profile.airborneMinutes).toBe(0);
+      expect(profile.totalDuration).toBeGreaterThan(0);
+    });
+  });
+
+  describe('sampleFlightProfile', () => {
+    it('is taxiing at the origin before take-off', () => {
+      const profile = buildFlightProfile(4000, jet);
+      const state = sampleFlightProfile(profile, 5);
+
+      expect(state.phase).toBe('taxi');
+      expect(state.distance).toBe(0);
+      expect(state.altitude).toBe(0);
+    });
+
+    it('is taxiing at the destination after landing', () => {
+      const profile = buildFlightProfile(4000, jet);
+      const state = sampleFlightProfile(profile, profile.totalDuration - 1);
+
+      expect(state.phase).toBe('taxi');
+      expect(state.distance).toBe(4000);
+    });
+
+    it('is cruising mid-flight', () => {
+      const profile = buildFlightProfile(4000, jet);
+      const state = sampleFlightProfile(profile, profile.totalDuration / 2);
+
+      expect(state.phase).toBe('cruise');
+      expect(state.altitude).toBe(37000);
+      expect(state.speed).toBe(850);
+    });
+
+    it('clamps times outside the block', () => {
+      const profile = buildFlightProfile(4000, jet);
+
+      expect(sampleFlightProfile(profile, -10).elapsedMinutes).toBe(0);
+      expect(sampleFlightProfile(profile, 1e6).elapsedMinutes).toBe(profile.totalDuration);
+    });
+  });
+
+  describe('fitFlightProfile', () => {
+    const nominal = buildFlightProfile(4000, jet);
+
+    it('matches a block time close to the estimate', () => {
+      const block = nominal.totalDuration + 10;
+      const profile = fitFlightProfile(4000, jet, block);
+
+      expect(profile.totalDuration).toBeCloseTo(block, 6);
+      expect(profile.samples[profile.samples.length - 1].distance).toBe(4000);
+    });
+
+    it('flies faster to meet a tight schedule', () => {
+      const profile = fitFlightProfile(4000, jet, nominal.totalDuration - 15);
+      const cruise = profile.samples.find(s => s.phase === 'cruise')!;
+
+      expect(profile.totalDuration).toBeCloseTo(nominal.totalDuration - 15, 6);
+      expect(cruise.airspeed).toBeGreaterThan(850);
+    });
+
+    it('puts long schedule padding into taxi-out', () => {
+      const block = nominal.totalDuration + 120;
+      const profile = fitFlightProfile(4000, jet, block);
+
+      expect(profile.totalDuration).toBeCloseTo(block, 6);
+      expect(sampleFlightProfile(profile, 40).phase).toBe('taxi');
+    });
+
+    it('shortens taxi times for impossible schedules', () => {
+      const profile = fitFlightProfile(4000, jet, 60);
+
+      expect(profile.totalDuration).toBeGreaterThan(60);
+      expect(profile.totalDuration).toBeLessThan(nominal.totalDuration);
+      expect(profile.totalDuration - profile.airborneMinutes).toBeLessThan(5);
+      expect(profile.samples[1].elapsedMinutes).toBeGreaterThanOrEqual(2);
+      expect(profile.blockMismatch).toBeCloseTo(60 - profile.totalDuration, 6);
+    });
+
+    it('reports no mismatch for reachable schedules', () => {
+      expect(fitFlightProfile(4000, jet, nominal.totalDuration - 15).blockMismatch).toBe(0);
+      expect(fitFlightProfile(4000, jet, nominal.totalDuration + 45).blockMismatch).toBe(0);
+      expect(buildFlightProfile(4000, jet).blockMismatch).toBeUndefined();
+    });
+
+    it('reports padding far beyond the slowest profile', () => {
+      const profile = fitFlightProfile(500, jet, 20 * 60);
+
+      expect(profile.totalDuration).toBeCloseTo(20 * 60, 6);
+      expect(profile.blockMismatch).toBeGreaterThan(17 * 60);
+    });
+  });
+});
@@ -8,6 +8,9 @@ import {
   calculateDistance,
   calculateInitialBearing,
   generateWaypoints,
+  vincentyInverse,
+  vincentyDirect,
+  getRouteWarning,
   getCompassDirection,
   formatCoordinates,
   formatDistance
@@ -375,5 +378,135 @@ describe('Geodesic Calculations', () => {
       });
     });
   });
-});
 
+  describe('WGS84 Model', () => {
+    // Vincenty (1975) reference line: Flinders Peak to Buninyong
+    const FLINDERS_PEAK = { lat: -(37 + 57 / 60 + 3.72030 / 3600), lon: 144 + 25 / 60 + 29.52440 / 3600 };
+    const BUNINYONG = { lat: -(37 + 39 / 60 + 10.15610 / 3600), lon: 143 + 55 / 60 + 35.38390 / 3600 };
+
+    const routes = [
+      { name: 'LAX-JFK', from: { lat: 33.9416, lon: -118.4085 }, to: { lat: 40.6413, lon: -73.7781 } },
+      { name: 'JFK-LHR', from: { lat: 40.6413, lon: -73.7781 }, to: { lat: 51.4700, lon: -0.4543 } },
+      { name: 'SFO-NRT', from: { lat: 37.6213, lon: -122.3790 }, to: { lat: 35.7648, lon: 140.3864 } },
+      { name: 'SIN-JFK', from: { lat: 1.3644, lon: 103.9915 }, to: { lat: 40.6413, lon: -73.7781 } }
+    ];
+
+    it('matches the Flinders Peak to Buninyong reference solution', () => {
+      const result = vincentyInverse(FLINDERS_PEAK.lat, FLINDERS_PEAK.lon, BUNINYONG.lat, BUNINYONG.lon);
+
+      expect(result.distance * 1000).toBeCloseTo(54972.271, 2);
+      expect(result.initialBearing).toBeCloseTo(306 + 52 / 60 + 5.37 / 3600, 5);
+      // Reverse azimuth 127°10'25.07" is the final bearing plus 180°
+      expect(result.finalBearing).toBeCloseTo(127 + 10 / 60 + 25.07 / 3600 + 180, 5);
+    });
+
+    it('solves the direct problem back to the reference point', () => {
+      const result = vincentyDirect(
+        FLINDERS_PEAK.lat, FLINDERS_PEAK.lon,
+        306 + 52 / 60 + 5.37 / 3600,
+        54.972271
+      );
+
+      expect(result.lat).toBeCloseTo(BUNINYONG.lat, 7);
+      expect(result.lon).toBeCloseTo(BUNINYONG.lon, 7);
+    });
+
+    routes.forEach(({ name, from, to }) => {
+      it(`stays within 0.5% of the spherical model on ${name}`, () => {
+        const spherical = calculateDistance(from.lat, from.lon, to.lat, to.lon);
+        const ellipsoidal = calculateDistance(from.lat, from.lon, to.lat, to.lon, 'wgs84');
+
+        expect(ellipsoidal).not.toBe(spherical);
+        expect(Math.abs(ellipsoidal - spherical) / spherical).toBeLessThan(0.005);
+
+        const bearingDiff = Math.abs(
+          calculateInitialBearing(from.lat, from.lon, to.lat, to.lon, 'wgs84') -
+          calculateInitialBearing(from.lat, from.lon, to.lat, to.lon)
+        );
+        expect(Math.min(bearingDiff, 360 - bearingDiff)).toBeLessThan(1);
+      });
+
+      it(`generates WGS84 waypoints ending at the destination on ${name}`, () => {
+        const waypoints = generateWaypoints(from, to, 50, 'wgs84');
+        const last = waypoints[waypoints.length - 1];
+
+        expect(waypoints).toHaveLength(51);
+        expect(last.lat).toBeCloseTo(to.lat, 6);
+        // Longitudes are unwrapped across the antimeridian
+        expect(((last.lon - to.lon) % 360 + 360) % 360).toBeCloseTo(0, 6);
+        expect(last.distance).toBeCloseTo(calculateDistance(from.lat, from.lon, to.lat, to.lon, 'wgs84'), 6);
+        waypoints.forEach(wp => {
+          expect(isFinite(wp.lat) && isFinite(wp.lon) && isFinite(wp.bearing)).toBe(true);
+        });
+      });
+    });
+
+    it('places WGS84 midpoints close to the spherical ones', () => {
+      const { from, to } = routes[1];
+      const spherical = generateWaypoints(from, to, 2)[1];
+      const ellipsoidal = generateWaypoints(from, to, 2, 'wgs84')[1];
+
+      expect(calculateDistance(spherical.lat, spherical.lon, ellipsoidal.lat, ellipsoidal.lon)).toBeLessThan(30);
+    });
+
+    it('returns zero for coincident points', () => {
+      expect(calculateDistance(10, 20, 10, 20, 'wgs84')).toBe(0);
+    });
+  });
+
+  describe('Antipodal Routes', () => {
+    const origin = { lat: 10, lon: 20 };
+    const antipode = { lat: -10, lon: -160 };
+    // Buenos Aires to a point 0.5° from its antipode (near Xi'an)
+    const ezeiza = { lat: -34.8222, lon: -58.5358 };
+    const nearAntipode = { lat: 35.3222, lon: 121.4642 };
+
+    const expectFinite = (waypoints: ReturnType<typeof generateWaypoints>) => {
+      waypoints.forEach(wp => {
+        expect(Number.isFinite(wp.lat)).toBe(true);
+        expect(Number.isFinite(wp.lon)).toBe(true);
+        expect(Number.isFinite(wp.bearing)).toBe(true);
+        expect(Number.isFinite(wp.distance)).toBe(true);
+      });
+    };
+
+    it('measures half the circumference without NaN', () => {
+      expect(calculateDistance(origin.lat, origin.lon, antipode.lat, antipode.lon)).toBeCloseTo(Math.PI * 6371, 3);
+    });
+
+    it('picks the northbound route between exact antipodes', () => {
+      const waypoints = generateWaypoints(origin, antipode, 40);
+      const last = waypoints[waypoints.length - 1];
+
+      expectFinite(waypoints);
+      expect(waypoints[0].bearing).toBeCloseTo(0, 6);
+      expect(Math.max(...waypoints.map(wp => wp.lat))).toBeGreaterThan(89);
+      expect(last.lat).toBeCloseTo(antipode.lat, 6);
+      expect(((last.lon - antipode.lon) % 360 + 360) % 360).toBeCloseTo(0, 6);
+    });
+
+    it('is deterministic between exact antipodes', () => {
+      expect(generateWaypoints(origin, antipode, 20)).toEqual(generateWaypoints(origin, antipode, 20));
+    });
+
+    it('reaches nearly antipodal destinations', () => {
+      const waypoints = generateWaypoints(ezeiza, nearAntipode, 60);
+      const last = waypoints[waypoints.length - 1];
+
+      expectFinite(waypoints);
+      expect(last.lat).toBeCloseTo(nearAntipode.lat, 6);
+      expect(((last.lon - nearAntipode.lon) % 360 + 360) % 360).toBeCloseTo(0, 6);
+    });
+
+    it('never produces NaN waypoints on the WGS84 model', () => {
+      expectFinite(generateWaypoints(origin, antipode, 40, 'wgs84'));
+      expectFinite(generateWaypoints(ezeiza, nearAntipode, 40, 'wgs84'));
+    });
+
+    it('classifies routes by distance from the antipode', () => {
+      expect(getRouteWarning(origin, antipode)?.type).toBe('antipodal');
+      expect(getRouteWarning(ezeiza, nearAntipode)?.type).toBe('near-antipodal');
+      expect(getRouteWarning(origin, { lat: 0, lon: 100 })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for globe camera views
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getRouteFitView, interpolateView } from '../globeCamera';
+import { generateWaypoints, calculateDistance } from '../geodesic';
+
+const JFK = { lat: 40.6413, lon: -73.7781 };
+const LHR = { lat: 51.47, lon: -0.4543 };
+const SYD = { lat: -33.9399, lon: 151.1753 };
+
+describe('Globe Camera', () => {
+  describe('getRouteFitView', () => {
+    it('centres on the middle of the route', () => {
+      const view = getRouteFitView(generateWaypoints(JFK, LHR, 50));
+
+      // The great circle bulges north of both airports
+      expect(view.lat).toBeGreaterThan(51);
+      expect(view.lng).toBeGreaterThan(-45);
+      expect(view.lng).toBeLessThan(-30);
+    });
+
+    it('backs off further for longer routes', () => {
+      const transatlantic = getRouteFitView(generateWaypoints(JFK, LHR, 50));
+      const ultraLong = getRouteFitView(generateWaypoints(JFK, SYD, 50));
+
+      expect(ultraLong.altitude).toBeGreaterThan(transatlantic.altitude);
+      expect(transatlantic.altitude).toBeGreaterThan(0.3);
+    });
+
+    it('zooms in as far as allowed on a single point', () => {
+      expect(getRouteFitView([JFK]).altitude).toBe(0.3);
+      expect(() => getRouteFitView([])).toThrow();
+    });
+
+    it('keeps every point nearer the centre than a quarter of the globe', () => {
+      const points = generateWaypoints(JFK, LHR, 50);
+      const view = getRouteFitView(points);
+      const centre = { lat: view.lat, lon: view.lng };
+
+      points.forEach(point => {
+        expect(calculateDistance(centre.lat, centre.lon, point.lat, point.lon)).toBeLessThan(10000);
+      });
+    });
+  });
+
+  describe('interpolateView', () => {
+    it('moves between views in proportion', () => {
+      const view = interpolateView({ lat: 0, lng: 0, altitude: 1 }, { lat: 10, lng: 20, altitude: 3 }, 0.5);
+      expect(view).toEqual({ lat: 5, lng: 10, altitude: 2 });
+    });
+
+    it('crosses the antimeridian the short way', () => {
+      const view = interpolateView({ lat: 0, lng: 170, altitude: 1 }, { lat: 0, lng: -170, altitude: 1 }, 0.5);
+      expect(Math.abs(view.lng)).toBeCloseTo(180, 6);
+
+      const quarter = interpolateView({ lat: 0, lng: 170, altitude: 1 }, { lat: 0, lng: -170, altitude: 1 }, 0.25);
+      expect(quarter.lng).toBeCloseTo(175, 6);
+    });
+  });
+});
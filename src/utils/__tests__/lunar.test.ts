@@ -0,0 +1,155 @@
+/**
+ * Unit tests for lunar position, phase and moonrise/moonset
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getLunarEclipticCoordinates,
+  getLunarCoordinates,
+  calculateMoonIllumination,
+  calculateMoonPosition,
+  getMoonPhaseName,
+  MOONRISE_MOONSET_ALTITUDE
+} from '../lunar';
+import { getJulianDay } from '../solar';
+import { generateFlightTimeline } from '../timeline';
+import { calculateAircraftMoonExposure } from '../aircraft';
+import { Airport } from '@/types';
+
+const JFK: Airport = {
+  iata: 'JFK',
+  name: 'John F Kennedy International Airport',
+  city: 'New York',
+  country: 'United States',
+  lat: 40.6413,
+  lon: -73.7781,
+  timezone: 'America/New_York'
+};
+
+const LHR: Airport = {
+  iata: 'LHR',
+  name: 'London Heathrow Airport',
+  city: 'London',
+  country: 'United Kingdom',
+  lat: 51.4700,
+  lon: -0.4543,
+  timezone: 'Europe/London'
+};
+
+describe('Lunar Calculations', () => {
+  // Meeus, Astronomical Algorithms, Examples 47.a and 48.a: 1992 April 12, 0h
+  const example = new Date('1992-04-12T00:00:00Z');
+
+  describe('Lunar Coordinates', () => {
+    it('matches the Meeus ecliptic position', () => {
+      const moon = getLunarEclipticCoordinates(getJulianDay(example));
+      expect(moon.longitude).toBeCloseTo(133.163, 1);
+      expect(moon.latitude).toBeCloseTo(-3.229, 1);
+      expect(moon.distance).toBeGreaterThan(368409.7 - 50);
+      expect(moon.distance).toBeLessThan(368409.7 + 50);
+    });
+
+    it('matches the Meeus equatorial position', () => {
+      const moon = getLunarCoordinates(getJulianDay(example));
+      expect(moon.rightAscension * 15).toBeCloseTo(134.688, 1);
+      expect(moon.declination).toBeCloseTo(13.768, 1);
+    });
+  });
+
+  describe('Moon Illumination', () => {
+    it('matches the Meeus illuminated fraction', () => {
+      const { illumination, phaseName } = calculateMoonIllumination(example);
+      expect(illumination).toBeCloseTo(0.6786, 2);
+      expect(phaseName).toBe('waxing-gibbous');
+    });
+
+    it('is nearly dark at new moon and fully lit at full moon', () => {
+      const newMoon = calculateMoonIllumination(new Date('2024-04-08T18:21:00Z'));
+      const fullMoon = calculateMoonIllumination(new Date('2024-04-23T23:49:00Z'));
+
+      expect(newMoon.illumination).toBeLessThan(0.01);
+      expect(newMoon.phaseName).toBe('new');
+      expect(fullMoon.illumination).toBeGreaterThan(0.99);
+      expect(fullMoon.phase).toBeCloseTo(0.5, 2);
+      expect(fullMoon.phaseName).toBe('full');
+    });
+
+    it('tells waxing from waning', () => {
+      // First and last quarter, April 2024
+      expect(calculateMoonIllumination(new Date('2024-04-15T19:13:00Z')).phase).toBeCloseTo(0.25, 2);
+      expect(calculateMoonIllumination(new Date('2024-05-01T11:27:00Z')).phase).toBeCloseTo(0.75, 2);
+    });
+
+    it('names the phases', () => {
+      expect(getMoonPhaseName(0.01)).toBe('new');
+      expect(getMoonPhaseName(0.1)).toBe('waxing-crescent');
+      expect(getMoonPhaseName(0.26)).toBe('first-quarter');
+      expect(getMoonPhaseName(0.3)).toBe('waxing-gibbous');
+      expect(getMoonPhaseName(0.6)).toBe('waning-gibbous');
+      expect(getMoonPhaseName(0.9)).toBe('waning-crescent');
+      expect(getMoonPhaseName(0.98)).toBe('new');
+    });
+  });
+
+  describe('Moon Position', () => {
+    it('stays within valid ranges', () => {
+      const moon = calculateMoonPosition(51.47, -0.45, new Date('2024-06-21T22:00:00Z'));
+      expect(moon.azimuth).toBeGreaterThanOrEqual(0);
+      expect(moon.azimuth).toBeLessThan(360);
+      expect(moon.altitude).toBeGreaterThanOrEqual(-90);
+      expect(moon.altitude).toBeLessThanOrEqual(90);
+    });
+
+    it('lowers the Moon by parallax near the horizon', () => {
+      // Geocentric and topocentric altitude differ by up to ~1°; the
+      // observers at opposite points see the Moon at altitudes summing to < 0
+      const date = new Date('2024-06-21T22:00:00Z');
+      const a = calculateMoonPosition(20, 30, date);
+      const b = calculateMoonPosition(-20, -150, date);
+      expect(a.altitude + b.altitude).toBeLessThan(0);
+    });
+  });
+
+  describe('Moonrise and Moonset', () => {
+    // Full moon on 2024-06-22: a night crossing sees it set in the morning
+    const timeline = generateFlightTimeline(JFK, LHR, new Date('2024-06-22T00:00:00Z'));
+
+    it('adds moon data to every point', () => {
+      timeline.points.forEach(point => {
+        expect(point.moonIllumination).toBeGreaterThan(0.9);
+        expect(point.moonAzimuth).toBeGreaterThanOrEqual(0);
+      });
+    });
+
+    it('solves moonrise/moonset at the threshold altitude', () => {
+      expect(timeline.moonEvents.length).toBeGreaterThan(0);
+      timeline.moonEvents.forEach(event => {
+        const moon = calculateMoonPosition(event.lat, event.lon, event.timestamp);
+        expect(moon.altitude).toBeCloseTo(MOONRISE_MOONSET_ALTITUDE, 1);
+        expect(event.description).toMatch(/^Moon(rise|set) at/);
+      });
+    });
+  });
+
+  describe('Moon Side', () => {
+    it('finds the Moon abeam on the right or left', () => {
+      expect(calculateAircraftMoonExposure(0, 90, 20, 1).side).toBe('RIGHT');
+      expect(calculateAircraftMoonExposure(0, 270, 20, 1).side).toBe('LEFT');
+      expect(calculateAircraftMoonExposure(0, 270, 20, 1).visible).toBe(true);
+    });
+
+    it('hides the Moon below the horizon, overhead, ahead or behind', () => {
+      expect(calculateAircraftMoonExposure(0, 90, -5, 1).visible).toBe(false);
+      expect(calculateAircraftMoonExposure(0, 90, 80, 1).side).toBe('OVERHEAD');
+      expect(calculateAircraftMoonExposure(0, 10, 20, 1).visible).toBe(false);
+      expect(calculateAircraftMoonExposure(0, 180, 20, 1).visible).toBe(false);
+    });
+
+    it('scales brightness with illumination', () => {
+      const full = calculateAircraftMoonExposure(0, 90, 30, 1);
+      const crescent = calculateAircraftMoonExposure(0, 90, 30, 0.1);
+      expect(full.brightness).toBeGreaterThan(crescent.brightness);
+      expect(crescent.recommendation).toMatch(/RIGHT/);
+    });
+  });
+});
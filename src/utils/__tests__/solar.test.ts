@@ -4,13 +4,22 @@ import {
   getJulianCentury,
   getSolarCoordinates,
   calculateSunPosition,
+  getSubsolarPoint,
   toRadians,
   toDegrees
 } from '../solar';
 import {
   calculateDaylightInfo,
   calculateSolarNoon,
-  calculateSolarMidnight
+  calculateSolarMidnight,
+  getHorizonDip,
+  getSunriseSunsetAltitude,
+  getTwilightPhase,
+  findSunCrossings,
+  getSolarDay,
+  getTimeZoneDay,
+  SUNRISE_SUNSET_ALTITUDE,
+  TwilightType
 } from '../daylight';
 
 describe('Solar Position Calculations', () => {
@@ -137,6 +146,28 @@ describe('Solar Position Calculations', () => {
       // Zenith should be 90° - altitude
       expect(sunPos.zenith).toBeCloseTo(90 - sunPos.altitude, 0.01);
     });
+
+    it('puts the sun overhead at the subsolar point', () => {
+      const date = new Date('2024-06-21T16:00:00Z');
+      const { lat, lon } = getSubsolarPoint(date);
+
+      // Near the June solstice the sun is over the Tropic of Cancer, and
+      // four hours after noon at Greenwich it is 60° further west
+      expect(lat).toBeCloseTo(23.44, 1);
+      expect(lon).toBeGreaterThan(-62);
+      expect(lon).toBeLessThan(-58);
+
+      expect(calculateSunPosition(lat, lon, date).altitude).toBeGreaterThan(89.9);
+      expect(calculateSunPosition(-lat, lon + 180, date).altitude).toBeLessThan(-89.9);
+    });
+
+    it('keeps subsolar longitudes within -180 to 180', () => {
+      for (let hour = 0; hour < 24; hour++) {
+        const { lon } = getSubsolarPoint(new Date(Date.UTC(2024, 0, 1, hour)));
+        expect(lon).toBeGreaterThanOrEqual(-180);
+        expect(lon).toBeLessThan(180);
+      }
+    });
   });
 
   describe('Daylight Calculations', () => {
@@ -222,6 +253,130 @@ describe('Solar Position Calculations', () => {
     });
   });
 
+  describe('Sun Crossing Solver', () => {
+    it('finds sunrise before and sunset after solar noon far east of Greenwich', () => {
+      // Auckland: local solar noon is just after 00:00 UTC
+      const daylight = calculateDaylightInfo(-36.85, 174.76, new Date('2024-06-21T00:00:00Z'));
+
+      expect(daylight.sunrise!.getTime()).toBeLessThan(daylight.solarNoon.getTime());
+      expect(daylight.sunset!.getTime()).toBeGreaterThan(daylight.solarNoon.getTime());
+      expect(daylight.dayLength).toBeGreaterThan(9.5);
+      expect(daylight.dayLength).toBeLessThan(10);
+    });
+
+    it('finds sunrise before and sunset after solar noon far west of Greenwich', () => {
+      // Samoa: local solar noon is near 23:30 UTC
+      const daylight = calculateDaylightInfo(-13.83, -171.76, new Date('2024-06-21T00:00:00Z'));
+
+      expect(daylight.sunrise!.getTime()).toBeLessThan(daylight.solarNoon.getTime());
+      expect(daylight.sunset!.getTime()).toBeGreaterThan(daylight.solarNoon.getTime());
+      expect(daylight.dayLength).toBeGreaterThan(11);
+      expect(daylight.dayLength).toBeLessThan(11.5);
+    });
+
+    it('solves crossings at the requested altitude', () => {
+      const day = getSolarDay(-74.006, new Date('2024-06-21T00:00:00Z'));
+      [SUNRISE_SUNSET_ALTITUDE, TwilightType.CIVIL, 6].forEach(altitude => {
+        const crossings = findSunCrossings(40.7128, -74.006, day, altitude);
+
+        expect(crossings.map(c => c.rising)).toEqual([true, false]);
+        crossings.forEach(c => {
+          expect(calculateSunPosition(40.7128, -74.006, c.time).altitude).toBeCloseTo(altitude, 2);
+        });
+      });
+    });
+
+    it('finds every crossing in a longer window', () => {
+      const start = new Date('2024-03-01T00:00:00Z');
+      const window = { start, end: new Date(start.getTime() + 3 * 86400000) };
+      const crossings = findSunCrossings(51.47, -0.45, window);
+
+      expect(crossings).toHaveLength(6);
+      crossings.forEach((c, i) => expect(c.rising).toBe(i % 2 === 0));
+    });
+
+    it('reports the start of polar night', () => {
+      // Tromsø: the sun sets for the last time in late November
+      const days = Array.from({ length: 14 }, (_, i) => new Date(Date.UTC(2024, 10, 20 + i)));
+      const infos = days.map(date => calculateDaylightInfo(69.65, 18.96, date));
+      const first = infos.findIndex(info => info.polarTransition === 'polar-night-start');
+
+      expect(first).toBeGreaterThan(0);
+      expect(infos.filter(info => info.polarTransition).length).toBe(1);
+      expect(infos[first].sunset).not.toBeNull();
+      expect(infos[first + 1].isAlwaysNight).toBe(true);
+      expect(infos[first - 1].isAlwaysNight).toBe(false);
+    });
+
+    it('reports a day when the sun rises but does not set', () => {
+      // Tromsø: the midnight sun begins around 20 May
+      const days = Array.from({ length: 14 }, (_, i) => new Date(Date.UTC(2024, 4, 12 + i)));
+      const infos = days.map(date => calculateDaylightInfo(69.65, 18.96, date));
+      const start = infos.find(info => info.polarTransition === 'polar-day-start')!;
+
+      expect(start.sunrise).not.toBeNull();
+      expect(start.sunset).toBeNull();
+      expect(start.isAlwaysDay).toBe(false);
+      expect(start.dayLength).toBeGreaterThan(12);
+    });
+
+    it('uses a timezone civil day', () => {
+      // Clocks go forward in London on 31 March 2024
+      const day = getTimeZoneDay(new Date('2024-03-31T12:00:00Z'), 'Europe/London');
+      const daylight = calculateDaylightInfo(51.47, -0.45, day.start, day);
+
+      expect(day.start.toISOString()).toBe('2024-03-31T00:00:00.000Z');
+      expect(day.end.toISOString()).toBe('2024-03-31T23:00:00.000Z');
+      expect(daylight.dayLength + daylight.nightLength).toBeCloseTo(23, 6);
+    });
+  });
+
+  describe('Horizon Dip', () => {
+    it('has no dip at sea level', () => {
+      expect(getHorizonDip(0)).toBe(0);
+      expect(getSunriseSunsetAltitude(0, 'window')).toBeCloseTo(SUNRISE_SUNSET_ALTITUDE, 3);
+    });
+
+    it('dips about 3.2° at FL370', () => {
+      // 3.4° geometric, reduced by terrestrial refraction
+      expect(getHorizonDip(37000)).toBeGreaterThan(3.1);
+      expect(getHorizonDip(37000)).toBeLessThan(3.3);
+    });
+
+    it('lowers the window horizon with altitude', () => {
+      const fl100 = getSunriseSunsetAltitude(10000, 'window');
+      const fl370 = getSunriseSunsetAltitude(37000, 'window');
+
+      expect(fl100).toBeLessThan(SUNRISE_SUNSET_ALTITUDE);
+      expect(fl370).toBeLessThan(fl100);
+      expect(fl370).toBeCloseTo(-3.6, 1);
+    });
+
+    it('keeps the ground definition at any altitude', () => {
+      expect(getSunriseSunsetAltitude(37000, 'ground')).toBe(SUNRISE_SUNSET_ALTITUDE);
+      expect(getSunriseSunsetAltitude(37000)).toBe(SUNRISE_SUNSET_ALTITUDE);
+    });
+  });
+
+  describe('Twilight Phases', () => {
+    it('classifies sun altitudes', () => {
+      expect(getTwilightPhase(30)).toBe('day');
+      expect(getTwilightPhase(3)).toBe('golden-hour');
+      expect(getTwilightPhase(-0.5)).toBe('golden-hour');
+      expect(getTwilightPhase(-5)).toBe('civil');
+      expect(getTwilightPhase(-10)).toBe('nautical');
+      expect(getTwilightPhase(-15)).toBe('astronomical');
+      expect(getTwilightPhase(-30)).toBe('night');
+    });
+
+    it('lowers every boundary with the window horizon', () => {
+      // The horizon is about 2.8° lower at FL370
+      expect(getTwilightPhase(-2, 37000, 'window')).toBe('golden-hour');
+      expect(getTwilightPhase(-7, 37000, 'window')).toBe('civil');
+      expect(getTwilightPhase(-7, 37000, 'ground')).toBe('nautical');
+    });
+  });
+
   describe('Helper Functions', () => {
     it('converts degrees to radians correctly', () => {
       expect(toRadians(0)).toBe(0);
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for the NREL Solar Position Algorithm against published values
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateSunPositionSpa, getDeltaT, getSunPosition } from '../spa';
+import { calculateSunPosition } from '../solar';
+import { findSunCrossings, getSolarDay, SUNRISE_SUNSET_ALTITUDE } from '../daylight';
+import { generateFlightTimeline } from '../timeline';
+import { Airport } from '@/types';
+
+describe('NREL Solar Position Algorithm', () => {
+  // Reference case from NREL/TP-560-34302, table A5.1: Golden, Colorado,
+  // 17 October 2003 12:30:30 local (UTC-7)
+  const golden = { lat: 39.742476, lon: -105.1786 };
+  const reference = new Date('2003-10-17T19:30:30Z');
+  const options = { deltaT: 67, elevation: 1830.14, pressure: 820, temperature: 11 };
+
+  describe('Reference Values', () => {
+    const position = calculateSunPositionSpa(golden.lat, golden.lon, reference, options);
+
+    it('matches the topocentric zenith angle', () => {
+      expect(position.zenith).toBeCloseTo(50.11162, 4);
+    });
+
+    it('matches the topocentric azimuth', () => {
+      expect(position.azimuth).toBeCloseTo(194.34024, 4);
+    });
+
+    it('matches the Earth-Sun distance', () => {
+      expect(position.distance).toBeCloseTo(0.9965422974, 8);
+    });
+
+    it('matches the topocentric right ascension and declination', () => {
+      expect(position.rightAscension * 15).toBeCloseTo(202.22704, 4);
+      expect(position.declination).toBeCloseTo(-9.316179, 5);
+    });
+
+    it('matches Meeus example 25.b for the geocentric position', () => {
+      // 1992 October 13.0 TD; an observer at the North Pole sees no
+      // parallax in right ascension
+      const position = calculateSunPositionSpa(90, 0, new Date('1992-10-13T00:00:00Z'), { deltaT: 0 });
+
+      expect(position.distance).toBeCloseTo(0.99760775, 6);
+      expect(position.rightAscension * 15).toBeCloseTo(198.378178, 3);
+    });
+  });
+
+  describe('Sunrise and Sunset', () => {
+    it('solves the reference day\'s sunrise and sunset', () => {
+      // Published: sunrise 06:12:43, sunset 17:20:19 local time. The published
+      // times come from SPA's interpolated rise/set method (appendix A.2);
+      // solving the full position agrees to seconds at sunrise and to under
+      // two minutes at sunset.
+      const day = getSolarDay(golden.lon, reference);
+      const [sunrise, sunset] = findSunCrossings(golden.lat, golden.lon, day, SUNRISE_SUNSET_ALTITUDE, 'spa');
+
+      expect(Math.abs(sunrise.time.getTime() - Date.parse('2003-10-17T13:12:43Z'))).toBeLessThan(10000);
+      expect(Math.abs(sunset.time.getTime() - Date.parse('2003-10-18T00:20:19Z'))).toBeLessThan(120000);
+    });
+  });
+
+  describe('Delta T', () => {
+    it('follows observed values', () => {
+      // Observed ΔT: 1970.0 40.18 s, 1990.0 56.86 s, 2003.0 64.47 s
+      expect(getDeltaT(new Date('1970-01-01T00:00:00Z'))).toBeCloseTo(40.2, 0);
+      expect(getDeltaT(new Date('1990-01-01T00:00:00Z'))).toBeCloseTo(56.9, 0);
+      expect(getDeltaT(new Date('2003-01-01T00:00:00Z'))).toBeCloseTo(64.5, 0);
+    });
+
+    it('grows into the future', () => {
+      expect(getDeltaT(new Date('2040-01-01T00:00:00Z'))).toBeGreaterThan(getDeltaT(new Date('2020-01-01T00:00:00Z')));
+    });
+  });
+
+  describe('Model Selection', () => {
+    it('agrees with the Meeus series to a few hundredths of a degree', () => {
+      const date = new Date('2024-06-21T16:00:00Z');
+      const meeus = calculateSunPosition(51.47, -0.45, date);
+      const spa = getSunPosition(51.47, -0.45, date, 'spa');
+
+      expect(Math.abs(spa.altitude - meeus.altitude)).toBeLessThan(0.05);
+      expect(Math.abs(spa.azimuth - meeus.azimuth)).toBeLessThan(0.05);
+      expect(spa.distance).toBeCloseTo(meeus.distance, 4);
+    });
+
+    it('gives the true Earth-Sun distance through the year', () => {
+      expect(getSunPosition(0, 0, new Date('2024-01-03T00:00:00Z'), 'spa').distance).toBeCloseTo(0.9833, 3);
+      expect(getSunPosition(0, 0, new Date('2024-07-05T00:00:00Z'), 'spa').distance).toBeCloseTo(1.0167, 3);
+    });
+
+    it('is selectable for flight timelines', () => {
+      const LHR: Airport = {
+        iata: 'LHR',
+        name: 'London Heathrow Airport',
+        city: 'London',
+        country: 'United Kingdom',
+        lat: 51.47,
+        lon: -0.4543,
+        timezone: 'Europe/London'
+      };
+      const JFK: Airport = {
+        iata: 'JFK',
+        name: 'John F Kennedy International Airport',
+        city: 'New York',
+        country: 'United States',
+        lat: 40.6413,
+        lon: -73.7781,
+        timezone: 'America/New_York'
+      };
+      const departure = new Date('2024-06-21T18:00:00Z');
+      const meeus = generateFlightTimeline(LHR, JFK, departure);
+      const spa = generateFlightTimeline(LHR, JFK, departure, { solarModel: 'spa' });
+
+      expect(meeus.solarModel).toBe('meeus');
+      expect(spa.solarModel).toBe('spa');
+      expect(spa.sunEvents.map(e => e.type)).toEqual(meeus.sunEvents.map(e => e.type));
+      // Near the horizon the models differ mainly in refraction
+      spa.sunEvents.forEach((event, i) => {
+        expect(Math.abs(event.elapsedMinutes - meeus.sunEvents[i].elapsedMinutes)).toBeLessThan(5);
+      });
+    });
+  });
+});
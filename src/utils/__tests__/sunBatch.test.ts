@@ -0,0 +1,76 @@
+/**
+ * Unit tests for batch sun positions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateSunPositions, createSunEphemerisCache } from '../sunBatch';
+import { getSunPosition } from '../spa';
+import { SolarModel } from '@/types';
+
+// Places and times spread over the globe and the year, including the
+// March equinox (right ascension wrapping through 0°) and times just
+// either side of the hour
+const SAMPLES: [number, number, string][] = [
+  [51.47, -0.45, '2024-06-21T12:00:00Z'],
+  [40.64, -73.78, '2024-12-21T16:59:59.500Z'],
+  [-33.95, 151.18, '2024-03-20T03:06:00Z'],
+  [69.68, 18.94, '2024-03-19T23:59:30Z'],
+  [-77.85, 166.67, '2024-09-22T12:00:00.250Z'],
+  [1.36, 103.99, '2024-01-01T00:00:00Z'],
+  [35.55, 139.78, '2023-10-17T19:30:30Z']
+];
+
+function batchOf(samples: [number, number, string][]) {
+  return {
+    lats: Float64Array.from(samples, ([lat]) => lat),
+    lons: Float64Array.from(samples, ([, lon]) => lon),
+    times: Float64Array.from(samples, ([, , time]) => Date.parse(time))
+  };
+}
+
+describe('Batch Sun Positions', () => {
+  (['meeus', 'spa'] as SolarModel[]).forEach(model => {
+    it(`matches single-sample ${model} positions`, () => {
+      const { lats, lons, times } = batchOf(SAMPLES);
+      const batch = calculateSunPositions(lats, lons, times, model);
+
+      SAMPLES.forEach(([lat, lon, time], i) => {
+        const single = getSunPosition(lat, lon, new Date(time), model);
+        expect(batch.altitude[i]).toBeCloseTo(single.altitude, 4);
+        expect(batch.azimuth[i]).toBeCloseTo(single.azimuth, 4);
+      });
+    });
+  });
+
+  it('computes time terms once per hour and reuses them', () => {
+    // A 10-hour flight sampled every 2 minutes
+    const start = Date.parse('2024-06-21T18:00:00Z');
+    const times = Float64Array.from({ length: 301 }, (_, i) => start + i * 120000);
+    const lats = Float64Array.from(times, (_, i) => 51.47 - i * 0.036);
+    const lons = Float64Array.from(times, (_, i) => -0.45 - i * 0.244);
+    const cache = createSunEphemerisCache('spa');
+
+    // Hourly nodes from 18:00 to 05:00, bracketing the last sample
+    calculateSunPositions(lats, lons, times, 'spa', cache);
+    expect(cache.nodes.size).toBe(12);
+
+    // A second flight an hour later needs only one more node
+    calculateSunPositions(lats, lons, times.map(t => t + 3600000), 'spa', cache);
+    expect(cache.nodes.size).toBe(13);
+  });
+
+  it('returns empty arrays for an empty batch', () => {
+    const empty = new Float64Array(0);
+    const batch = calculateSunPositions(empty, empty, empty);
+
+    expect(batch.azimuth).toHaveLength(0);
+    expect(batch.altitude).toHaveLength(0);
+  });
+
+  it('rejects mismatched arrays and a cache for another model', () => {
+    const { lats, lons, times } = batchOf(SAMPLES);
+
+    expect(() => calculateSunPositions(lats.subarray(1), lons, times)).toThrow('same length');
+    expect(() => calculateSunPositions(lats, lons, times, 'meeus', createSunEphemerisCache('spa'))).toThrow('spa model');
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { generateFlightTimeline } from '../timeline';
-import { Airport } from '@/types';
+import { generateFlightTimeline, generateItineraryTimeline, findPointIndexAtTime } from '../timeline';
+import { calculateSunPosition } from '../solar';
+import { SUNRISE_SUNSET_ALTITUDE, getSunriseSunsetAltitude } from '../daylight';
+import { Airport, ScheduleWarning } from '@/types';
 
 describe('Flight Timeline Generation', () => {
   // Test airports
@@ -164,6 +166,165 @@ describe('Flight Timeline Generation', () => {
     });
   });
 
+  describe('Time-adaptive Sampling', () => {
+    // Evening departure from LAX flies into the sunset
+    const departureTime = new Date('2024-06-21T23:00:00Z');
+
+    it('samples by time resolution rather than a fixed count', () => {
+      const short = generateFlightTimeline(LAX, JFK, departureTime, { resolutionMinutes: 1 });
+      const long = generateFlightTimeline(LAX, NRT, departureTime, { resolutionMinutes: 1 });
+      const gaps = (points: typeof short.points) =>
+        points.slice(1).map((p, i) => p.elapsedMinutes - points[i].elapsedMinutes);
+
+      expect(long.points.length).toBeGreaterThan(short.points.length);
+      expect(Math.max(...gaps(long.points))).toBeLessThanOrEqual(1);
+    });
+
+    it('samples densely around sunset', () => {
+      const timeline = generateFlightTimeline(LAX, JFK, departureTime);
+      const sunset = timeline.sunEvents.find(e => e.type === 'sunset')!;
+      const index = sunset.pointIndex;
+      const gap = timeline.points[index + 1].elapsedMinutes - timeline.points[index - 1].elapsedMinutes;
+
+      expect(gap).toBeLessThanOrEqual(0.5);
+    });
+
+    it('solves the exact sunset instant', () => {
+      const timeline = generateFlightTimeline(LAX, JFK, departureTime);
+      const sunset = timeline.sunEvents.find(e => e.type === 'sunset')!;
+      const sunPos = calculateSunPosition(sunset.lat, sunset.lon, sunset.timestamp);
+
+      expect(sunset.type).toBe('sunset');
+      expect(sunPos.altitude).toBeCloseTo(SUNRISE_SUNSET_ALTITUDE, 2);
+      expect(Math.abs(sunset.timestamp.getTime() - departureTime.getTime() - sunset.elapsedMinutes * 60000)).toBeLessThan(1);
+    });
+
+    it('agrees on the sunset instant whatever the sampling', () => {
+      const coarse = generateFlightTimeline(LAX, JFK, departureTime, { numPoints: 20 });
+      const fine = generateFlightTimeline(LAX, JFK, departureTime);
+
+      expect(coarse.sunEvents).toHaveLength(fine.sunEvents.length);
+      expect(Math.abs(coarse.sunEvents[0].elapsedMinutes - fine.sunEvents[0].elapsedMinutes)).toBeLessThan(0.05);
+    });
+
+    it('places the event on the route between samples', () => {
+      const timeline = generateFlightTimeline(LAX, JFK, departureTime, { numPoints: 20 });
+      const sunset = timeline.sunEvents.find(e => e.type === 'sunset')!;
+      const after = timeline.points[sunset.pointIndex];
+      const before = timeline.points[sunset.pointIndex - 1];
+
+      expect(sunset.elapsedMinutes).toBeGreaterThan(before.elapsedMinutes);
+      expect(sunset.elapsedMinutes).toBeLessThanOrEqual(after.elapsedMinutes);
+      expect(sunset.lon).toBeGreaterThan(before.lon);
+      expect(sunset.lon).toBeLessThan(after.lon);
+    });
+
+    it('finds points by elapsed time', () => {
+      const timeline = generateFlightTimeline(LAX, JFK, departureTime, { numPoints: 10 });
+      const step = timeline.totalDuration / 10;
+
+      expect(findPointIndexAtTime(timeline.points, 0)).toBe(0);
+      expect(findPointIndexAtTime(timeline.points, step * 2.5)).toBe(3);
+      expect(findPointIndexAtTime(timeline.points, step * 3)).toBe(3);
+      expect(findPointIndexAtTime(timeline.points, 1e6)).toBe(10);
+    });
+  });
+
+  describe('Window Horizon', () => {
+    const departureTime = new Date('2024-06-21T23:00:00Z');
+
+    it('uses the ground horizon by default', () => {
+      const timeline = generateFlightTimeline(LAX, JFK, departureTime);
+      expect(timeline.horizon).toBe('ground');
+    });
+
+    it('sees the sun set later from the window', () => {
+      const ground = generateFlightTimeline(LAX, JFK, departureTime);
+      const window = generateFlightTimeline(LAX, JFK, departureTime, { horizon: 'window' });
+
+      expect(window.horizon).toBe('window');
+      const sunset = (timeline: typeof ground) => timeline.sunEvents.find(e => e.type === 'sunset')!;
+      expect(sunset(window).elapsedMinutes).toBeGreaterThan(sunset(ground).elapsedMinutes + 5);
+      expect(window.statistics.daylightMinutes).toBeGreaterThan(ground.statistics.daylightMinutes);
+    });
+
+    it('solves the sunset against the horizon at flight altitude', () => {
+      const timeline = generateFlightTimeline(LAX, JFK, departureTime, { horizon: 'window' });
+      const sunset = timeline.sunEvents.find(e => e.type === 'sunset')!;
+      const point = timeline.points[sunset.pointIndex];
+      const sunPos = calculateSunPosition(sunset.lat, sunset.lon, sunset.timestamp);
+
+      expect(point.altitude).toBeGreaterThan(30000);
+      expect(sunPos.altitude).toBeCloseTo(getSunriseSunsetAltitude(point.altitude, 'window'), 1);
+    });
+
+    it('classifies daylight against the lower horizon', () => {
+      const timeline = generateFlightTimeline(LAX, JFK, departureTime, { horizon: 'window' });
+      const twilight = timeline.points.find(p =>
+        p.sunAltitude < SUNRISE_SUNSET_ALTITUDE && p.sunAltitude > getSunriseSunsetAltitude(p.altitude, 'window')
+      );
+
+      expect(twilight?.isDaylight).toBe(true);
+    });
+  });
+
+  describe('Twilight Phases', () => {
+    // Evening departure from LAX flies from afternoon into full night
+    const departureTime = new Date('2024-06-21T23:00:00Z');
+    const timeline = generateFlightTimeline(LAX, JFK, departureTime);
+
+    it('passes through every phase in order at dusk', () => {
+      expect(timeline.sunEvents.map(e => e.type)).toEqual([
+        'golden-hour-start',
+        'sunset',
+        'blue-hour-start',
+        'blue-hour-end',
+        'nautical-dusk',
+        'astronomical-dusk'
+      ]);
+      expect(timeline.points[0].twilightPhase).toBe('day');
+      expect(timeline.points[timeline.points.length - 1].twilightPhase).toBe('night');
+    });
+
+    it('solves each event at its boundary altitude', () => {
+      const altitudeAt = (type: string) => {
+        const event = timeline.sunEvents.find(e => e.type === type)!;
+        return calculateSunPosition(event.lat, event.lon, event.timestamp).altitude;
+      };
+
+      expect(altitudeAt('golden-hour-start')).toBeCloseTo(6, 2);
+      expect(altitudeAt('blue-hour-start')).toBeCloseTo(-4, 2);
+      expect(altitudeAt('blue-hour-end')).toBeCloseTo(-6, 2);
+      expect(altitudeAt('nautical-dusk')).toBeCloseTo(-12, 2);
+      expect(altitudeAt('astronomical-dusk')).toBeCloseTo(-18, 2);
+    });
+
+    it('describes events by name', () => {
+      const event = timeline.sunEvents.find(e => e.type === 'golden-hour-start')!;
+      expect(event.description).toMatch(/^Golden hour begins at /);
+    });
+
+    it('reports minutes in each phase', () => {
+      const { phaseMinutes, daylightMinutes } = timeline.statistics;
+      const total = Object.values(phaseMinutes).reduce((sum, minutes) => sum + minutes, 0);
+
+      expect(total).toBeCloseTo(timeline.totalDuration, 6);
+      expect(phaseMinutes.day + phaseMinutes['golden-hour']).toBeCloseTo(daylightMinutes, 6);
+      expect(phaseMinutes.night).toBeGreaterThan(0);
+      expect(phaseMinutes.civil).toBeGreaterThan(0);
+    });
+
+    it('orders dawn events on a morning flight', () => {
+      // Westbound before dawn in winter: the sun rises over the aircraft
+      const morning = generateFlightTimeline(LHR, JFK, new Date('2024-01-15T06:00:00Z'));
+      const types = morning.sunEvents.map(e => e.type);
+
+      expect(types.indexOf('nautical-dawn')).toBeLessThan(types.indexOf('blue-hour-start'));
+      expect(types.indexOf('blue-hour-start')).toBeLessThan(types.indexOf('blue-hour-end'));
+      expect(types.indexOf('blue-hour-end')).toBeLessThan(types.indexOf('sunrise'));
+    });
+  });
+
   describe('Statistics Calculation', () => {
     it('calculates daylight and darkness minutes', () => {
       const departureTime = new Date('2024-06-21T12:00:00Z');
@@ -219,25 +380,164 @@ describe('Flight Timeline Generation', () => {
       expect(timelineFast.totalDuration).toBeLessThan(timelineSlow.totalDuration);
     });
 
-    it('applies cruising speed to all points', () => {
+    it('applies cruising speed to cruise points', () => {
       const customSpeed = 900;
       const departureTime = new Date('2024-06-21T12:00:00Z');
       const timeline = generateFlightTimeline(LAX, JFK, departureTime, { cruisingSpeed: customSpeed });
       
-      timeline.points.forEach(point => {
+      const cruisePoints = timeline.points.filter(point => point.phase === 'cruise');
+      expect(cruisePoints.length).toBeGreaterThan(0);
+      cruisePoints.forEach(point => {
         expect(point.speed).toBe(customSpeed);
       });
     });
 
-    it('applies cruising altitude to all points', () => {
+    it('applies cruising altitude to cruise points', () => {
       const customAltitude = 40000;
       const departureTime = new Date('2024-06-21T12:00:00Z');
       const timeline = generateFlightTimeline(LAX, JFK, departureTime, { cruisingAltitude: customAltitude });
       
       timeline.points.forEach(point => {
-        expect(point.altitude).toBe(customAltitude);
+        if (point.phase === 'cruise') {
+          expect(point.altitude).toBe(customAltitude);
+        } else {
+          expect(point.altitude).toBeLessThanOrEqual(customAltitude);
+        }
       });
     });
+
+    it('follows the WGS84 geodesic when requested', () => {
+      const departureTime = new Date('2024-06-21T12:00:00Z');
+      const spherical = generateFlightTimeline(JFK, LHR, departureTime);
+      const ellipsoidal = generateFlightTimeline(JFK, LHR, departureTime, { geodesicModel: 'wgs84' });
+      const last = ellipsoidal.points[ellipsoidal.points.length - 1];
+
+      expect(ellipsoidal.totalDistance).not.toBeCloseTo(spherical.totalDistance, 0);
+      expect(Math.abs(ellipsoidal.totalDistance - spherical.totalDistance) / spherical.totalDistance).toBeLessThan(0.005);
+      expect(last.lat).toBeCloseTo(LHR.lat, 6);
+      expect(last.lon).toBeCloseTo(LHR.lon, 6);
+    });
+  });
+
+  describe('Scheduled Block Time', () => {
+    const departureTime = new Date('2024-06-21T12:00:00Z');
+
+    it('fits the timeline to the block time', () => {
+      const timeline = generateFlightTimeline(JFK, LHR, departureTime, { blockMinutes: 430 });
+      const last = timeline.points[timeline.points.length - 1];
+
+      expect(timeline.totalDuration).toBeCloseTo(430, 6);
+      expect(last.timestamp.getTime()).toBeCloseTo(departureTime.getTime() + 430 * 60000, -1);
+      expect(last.lat).toBeCloseTo(LHR.lat, 6);
+    });
+
+    it('fits each leg of an itinerary to its own block time', () => {
+      const timeline = generateItineraryTimeline(
+        [
+          { origin: LAX, destination: JFK, blockMinutes: 330, connectionMinutes: 60 },
+          { origin: JFK, destination: LHR, blockMinutes: 420 }
+        ],
+        departureTime
+      );
+
+      expect(timeline.legs![0].timeline.totalDuration).toBeCloseTo(330, 6);
+      expect(timeline.legs![1].timeline.totalDuration).toBeCloseTo(420, 6);
+      expect(timeline.totalDuration).toBeCloseTo(330 + 60 + 420, 6);
+    });
+
+    it('leaves reachable block times without a warning', () => {
+      const timeline = generateFlightTimeline(JFK, LHR, departureTime, { blockMinutes: 430 });
+      expect(timeline.warnings).toBeUndefined();
+    });
+
+    it('warns when the block time is too short to fly', () => {
+      const short = generateFlightTimeline(LAX, JFK, departureTime, { blockMinutes: 200 });
+      const shorter = generateFlightTimeline(LAX, JFK, departureTime, { blockMinutes: 60 });
+      const warning = short.warnings?.find((w): w is ScheduleWarning => w.type === 'block-too-short');
+
+      // Both fall back to the fastest flight, which the warning explains
+      expect(shorter.totalDuration).toBeCloseTo(short.totalDuration, 6);
+      expect(warning).toBeDefined();
+      expect(warning!.message).toContain('3:20');
+      expect(warning!.mismatchMinutes).toBeCloseTo(200 - short.totalDuration, 6);
+    });
+
+    it('warns when the block time is padded far beyond the slowest flight', () => {
+      const timeline = generateFlightTimeline(JFK, LHR, departureTime, { blockMinutes: 20 * 60 });
+      const warning = timeline.warnings?.find(w => w.type === 'block-too-long');
+
+      expect(timeline.totalDuration).toBeCloseTo(20 * 60, 6);
+      expect(warning).toBeDefined();
+      expect(warning!.message).toContain('20:00');
+    });
+
+    it('labels schedule warnings with their leg in itineraries', () => {
+      const timeline = generateItineraryTimeline(
+        [
+          { origin: LAX, destination: JFK, blockMinutes: 120, connectionMinutes: 60 },
+          { origin: JFK, destination: LHR, blockMinutes: 420 }
+        ],
+        departureTime
+      );
+
+      expect(timeline.warnings).toHaveLength(1);
+      expect(timeline.warnings![0].message).toMatch(/^Leg 1 \(LAX → JFK\)/);
+    });
+  });
+
+  describe('Flight Phases', () => {
+    it('starts and ends on the ground', () => {
+      const departureTime = new Date('2024-06-21T12:00:00Z');
+      const timeline = generateFlightTimeline(LAX, JFK, departureTime);
+      
+      const first = timeline.points[0];
+      const last = timeline.points[timeline.points.length - 1];
+      expect(first.phase).toBe('taxi');
+      expect(first.altitude).toBe(0);
+      expect(last.phase).toBe('taxi');
+      expect(last.altitude).toBe(0);
+    });
+
+    it('goes through phases in order', () => {
+      const departureTime = new Date('2024-06-21T12:00:00Z');
+      const timeline = generateFlightTimeline(LAX, JFK, departureTime);
+      
+      const order = ['taxi', 'climb', 'cruise', 'descent', 'approach', 'taxi'];
+      const phases = timeline.points
+        .map(point => point.phase)
+        .filter((phase, i, arr) => i === 0 || phase !== arr[i - 1]);
+      expect(phases).toEqual(order);
+    });
+
+    it('is slower than cruise speed on the ground and near airports', () => {
+      const departureTime = new Date('2024-06-21T12:00:00Z');
+      const timeline = generateFlightTimeline(LAX, JFK, departureTime);
+      
+      timeline.points
+        .filter(point => point.phase !== 'cruise')
+        .forEach(point => {
+          expect(point.speed).toBeLessThan(850);
+        });
+    });
+
+    it('gives short hops a realistic block time', () => {
+      const SFO: Airport = {
+        iata: 'SFO',
+        name: 'San Francisco International Airport',
+        city: 'San Francisco',
+        country: 'United States',
+        lat: 37.6213,
+        lon: -122.3790,
+        timezone: 'America/Los_Angeles'
+      };
+      
+      const departureTime = new Date('2024-06-21T12:00:00Z');
+      const timeline = generateFlightTimeline(LAX, SFO, departureTime);
+      
+      // Scheduled LAX-SFO block time is around 80-90 minutes
+      expect(timeline.totalDuration).toBeGreaterThan(65);
+      expect(timeline.totalDuration).toBeLessThan(95);
+    });
   });
 
   describe('Long-haul Flights', () => {
@@ -289,7 +589,8 @@ describe('Flight Timeline Generation', () => {
       
       expect(timeline.totalDistance).toBeGreaterThan(500);
       expect(timeline.totalDistance).toBeLessThan(600);
-      expect(timeline.points).toHaveLength(151); // Default 150 + 1 for endpoint
+      // Short flights keep a minimum number of samples for smooth playback
+      expect(timeline.points.length).toBeGreaterThanOrEqual(101);
     });
 
     it('handles polar route', () => {
@@ -314,5 +615,136 @@ describe('Flight Timeline Generation', () => {
       });
     });
   });
-});
 
+  describe('Antipodal Routes', () => {
+    const EZE: Airport = {
+      iata: 'EZE',
+      name: 'Ministro Pistarini International Airport',
+      city: 'Buenos Aires',
+      country: 'Argentina',
+      lat: -34.8222,
+      lon: -58.5358,
+      timezone: 'America/Argentina/Buenos_Aires'
+    };
+
+    const ANTIPODE: Airport = {
+      ...EZE,
+      iata: 'XXX',
+      lat: 34.8222,
+      lon: 121.4642
+    };
+
+    it('reports a typed warning and stays finite', () => {
+      const timeline = generateFlightTimeline(EZE, ANTIPODE, new Date('2024-06-21T12:00:00Z'));
+
+      expect(timeline.warnings?.map(w => w.type)).toEqual(['antipodal']);
+      timeline.points.forEach(point => {
+        expect(Number.isFinite(point.lat)).toBe(true);
+        expect(Number.isFinite(point.lon)).toBe(true);
+        expect(Number.isFinite(point.sunAltitude)).toBe(true);
+      });
+      expect(Number.isFinite(timeline.statistics.averageSunAltitude)).toBe(true);
+    });
+
+    it('carries leg warnings into itineraries', () => {
+      const timeline = generateItineraryTimeline(
+        [{ origin: LAX, destination: EZE }, { origin: EZE, destination: ANTIPODE }],
+        new Date('2024-06-21T12:00:00Z')
+      );
+
+      expect(timeline.warnings).toHaveLength(1);
+      expect(timeline.warnings![0].message).toMatch(/^Leg 2/);
+    });
+
+    it('has no warnings on ordinary routes', () => {
+      expect(generateFlightTimeline(LAX, JFK, new Date('2024-06-21T12:00:00Z')).warnings).toBeUndefined();
+    });
+  });
+
+  describe('Multi-leg Itineraries', () => {
+    const SIN: Airport = {
+      iata: 'SIN',
+      name: 'Singapore Changi Airport',
+      city: 'Singapore',
+      country: 'Singapore',
+      lat: 1.3644,
+      lon: 103.9915,
+      timezone: 'Asia/Singapore'
+    };
+
+    const DXB: Airport = {
+      iata: 'DXB',
+      name: 'Dubai International Airport',
+      city: 'Dubai',
+      country: 'United Arab Emirates',
+      lat: 25.2528,
+      lon: 55.3644,
+      timezone: 'Asia/Dubai'
+    };
+
+    const departureTime = new Date('2024-06-21T14:00:00Z');
+    const legs = [
+      { origin: SIN, destination: DXB, connectionMinutes: 120 },
+      { origin: DXB, destination: LHR }
+    ];
+
+    it('stitches legs and layover into one timeline', () => {
+      const timeline = generateItineraryTimeline(legs, departureTime);
+
+      expect(timeline.origin.iata).toBe('SIN');
+      expect(timeline.destination.iata).toBe('LHR');
+      expect(timeline.legs).toHaveLength(2);
+
+      const legDurations = timeline.legs!.reduce((sum, leg) => sum + leg.timeline.totalDuration, 0);
+      expect(timeline.totalDuration).toBeCloseTo(legDurations + 120, 1);
+
+      const legDistances = timeline.legs!.reduce((sum, leg) => sum + leg.timeline.totalDistance, 0);
+      expect(timeline.totalDistance).toBeCloseTo(legDistances, 1);
+    });
+
+    it('marks the layover at the connecting airport', () => {
+      const timeline = generateItineraryTimeline(legs, departureTime);
+      const layover = timeline.legs![0].layover!;
+
+      expect(layover.airport.iata).toBe('DXB');
+      expect(layover.minutes).toBe(120);
+      expect(layover.departure.getTime() - layover.arrival.getTime()).toBe(120 * 60000);
+      expect(timeline.legs![1].layover).toBeUndefined();
+
+      for (let i = layover.startIndex + 1; i < layover.endIndex; i++) {
+        expect(timeline.points[i].phase).toBe('layover');
+        expect(timeline.points[i].lat).toBeCloseTo(DXB.lat, 2);
+        expect(timeline.points[i].lon).toBeCloseTo(DXB.lon, 2);
+      }
+    });
+
+    it('keeps legs contiguous in the stitched points', () => {
+      const timeline = generateItineraryTimeline(legs, departureTime);
+      const [first, second] = timeline.legs!;
+
+      expect(first.startIndex).toBe(0);
+      expect(second.startIndex).toBe(first.layover!.endIndex);
+      expect(second.endIndex).toBe(timeline.points.length - 1);
+      expect(timeline.points[second.startIndex].timestamp.getTime())
+        .toBe(first.layover!.departure.getTime());
+
+      for (let i = 1; i < timeline.points.length; i++) {
+        expect(timeline.points[i].elapsedMinutes)
+          .toBeGreaterThan(timeline.points[i - 1].elapsedMinutes);
+      }
+    });
+
+    it('uses the default connection time when none is given', () => {
+      const timeline = generateItineraryTimeline(
+        [{ origin: SIN, destination: DXB }, { origin: DXB, destination: LHR }],
+        departureTime
+      );
+
+      expect(timeline.legs![0].layover!.minutes).toBe(90);
+    });
+
+    it('rejects an empty itinerary', () => {
+      expect(() => generateItineraryTimeline([], departureTime)).toThrow();
+    });
+  });
+});
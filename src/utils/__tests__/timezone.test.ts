@@ -0,0 +1,130 @@
+/**
+ * Unit tests for local time conversion in IANA timezones
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getTimeZoneOffset,
+  localTimeToUtc,
+  resolveLocalTime,
+  formatUtcOffset,
+  parseDuration,
+  getLocalDate,
+  getLocalTime,
+  startOfLocalDay
+} from '../timezone';
+
+describe('Timezones', () => {
+  describe('getTimeZoneOffset', () => {
+    it('follows daylight saving time', () => {
+      expect(getTimeZoneOffset(new Date('2024-01-15T12:00:00Z'), 'America/New_York')).toBe(-300);
+      expect(getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'America/New_York')).toBe(-240);
+      expect(getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'Europe/London')).toBe(60);
+    });
+
+    it('handles fractional offsets', () => {
+      expect(getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'Asia/Kolkata')).toBe(330);
+    });
+  });
+
+  describe('localTimeToUtc', () => {
+    it('converts wall-clock times to UTC', () => {
+      expect(localTimeToUtc('2024-06-21', '08:00', 'America/Los_Angeles').toISOString())
+        .toBe('2024-06-21T15:00:00.000Z');
+      expect(localTimeToUtc('2024-12-21', '08:00', 'America/Los_Angeles').toISOString())
+        .toBe('2024-12-21T16:00:00.000Z');
+      expect(localTimeToUtc('2024-06-21', '06:30', 'Asia/Tokyo').toISOString())
+        .toBe('2024-06-20T21:30:00.000Z');
+    });
+
+    it('uses the offset in force on the day of a DST change', () => {
+      // Clocks in London went forward at 01:00 UTC on 31 March 2024
+      expect(localTimeToUtc('2024-03-31', '00:30', 'Europe/London').toISOString())
+        .toBe('2024-03-31T00:30:00.000Z');
+      expect(localTimeToUtc('2024-03-31', '12:00', 'Europe/London').toISOString())
+        .toBe('2024-03-31T11:00:00.000Z');
+    });
+
+    it('rejects malformed input and unknown zones', () => {
+      expect(() => localTimeToUtc('21/06/2024', '08:00', 'UTC')).toThrow();
+      expect(() => localTimeToUtc('2024-06-21', '8am', 'UTC')).toThrow();
+      expect(() => localTimeToUtc('2024-06-21', '08:00', 'Mars/Olympus')).toThrow();
+    });
+
+    it('chooses between the two readings of a time when clocks go back', () => {
+      // New York fell back from 02:00 EDT to 01:00 EST on 3 November 2024
+      const resolution = resolveLocalTime('2024-11-03', '01:30', 'America/New_York');
+      expect(resolution.kind).toBe('ambiguous');
+      expect(resolution.earlier.toISOString()).toBe('2024-11-03T05:30:00.000Z');
+      expect(resolution.later.toISOString()).toBe('2024-11-03T06:30:00.000Z');
+
+      expect(localTimeToUtc('2024-11-03', '01:30', 'America/New_York').toISOString())
+        .toBe('2024-11-03T05:30:00.000Z');
+      expect(localTimeToUtc('2024-11-03', '01:30', 'America/New_York', 'later').toISOString())
+        .toBe('2024-11-03T06:30:00.000Z');
+      expect(() => localTimeToUtc('2024-11-03', '01:30', 'America/New_York', 'reject')).toThrow(/twice/);
+    });
+
+    it('moves a time skipped when clocks go forward across the gap', () => {
+      // New York sprang forward from 02:00 EST to 03:00 EDT on 10 March 2024
+      const resolution = resolveLocalTime('2024-03-10', '02:30', 'America/New_York');
+      expect(resolution.kind).toBe('skipped');
+      expect(resolution.earlier.toISOString()).toBe('2024-03-10T06:30:00.000Z');
+      expect(resolution.later.toISOString()).toBe('2024-03-10T07:30:00.000Z');
+
+      expect(localTimeToUtc('2024-03-10', '02:30', 'America/New_York').toISOString())
+        .toBe('2024-03-10T07:30:00.000Z');
+      expect(localTimeToUtc('2024-03-10', '02:30', 'America/New_York', 'earlier').toISOString())
+        .toBe('2024-03-10T06:30:00.000Z');
+      expect(() => localTimeToUtc('2024-03-10', '02:30', 'America/New_York', 'reject')).toThrow(/does not exist/);
+    });
+
+    it('handles half-hour DST changes', () => {
+      // Lord Howe Island moves its clocks forward 30 minutes, 02:00 to 02:30
+      const resolution = resolveLocalTime('2024-10-06', '02:15', 'Australia/Lord_Howe');
+      expect(resolution.kind).toBe('skipped');
+      expect(localTimeToUtc('2024-10-06', '02:15', 'Australia/Lord_Howe').toISOString())
+        .toBe('2024-10-05T15:45:00.000Z');
+      expect(resolveLocalTime('2024-10-06', '12:00', 'Australia/Lord_Howe').kind).toBe('unique');
+    });
+  });
+
+  describe('formatUtcOffset', () => {
+    it('formats signed hours and minutes', () => {
+      expect(formatUtcOffset(0)).toBe('UTC+0:00');
+      expect(formatUtcOffset(330)).toBe('UTC+5:30');
+      expect(formatUtcOffset(-240)).toBe('UTC-4:00');
+      expect(formatUtcOffset(-570)).toBe('UTC-9:30');
+    });
+  });
+
+  describe('parseDuration', () => {
+    it('reads hours and minutes or plain minutes', () => {
+      expect(parseDuration('7:45')).toBe(465);
+      expect(parseDuration(' 12:05 ')).toBe(725);
+      expect(parseDuration('90')).toBe(90);
+    });
+
+    it('rejects invalid durations', () => {
+      expect(parseDuration('')).toBeNull();
+      expect(parseDuration('7:75')).toBeNull();
+      expect(parseDuration('0:00')).toBeNull();
+      expect(parseDuration('seven hours')).toBeNull();
+    });
+  });
+
+  describe('startOfLocalDay', () => {
+    it('finds local midnight of the day containing an instant', () => {
+      const instant = new Date('2024-06-21T02:00:00Z');
+
+      expect(getLocalDate(instant, 'America/New_York')).toBe('2024-06-20');
+      expect(startOfLocalDay(instant, 'America/New_York').toISOString()).toBe('2024-06-20T04:00:00.000Z');
+      expect(startOfLocalDay(instant, 'Asia/Tokyo').toISOString()).toBe('2024-06-20T15:00:00.000Z');
+    });
+
+    it('formats the local time of an instant', () => {
+      expect(getLocalTime(new Date('2024-06-21T02:05:00Z'), 'America/New_York')).toBe('22:05');
+      expect(getLocalTime(new Date('2024-06-21T23:30:00Z'), 'Asia/Kolkata')).toBe('05:00');
+    });
+  });
+});
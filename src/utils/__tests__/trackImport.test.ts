@@ -0,0 +1,249 @@
+/**
+ * Unit tests for flight track import (GPX, KML, ADS-B CSV)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseTrackFile,
+  detectTrackFormat,
+  parseGpx,
+  parseKml,
+  parseAdsbCsv,
+  findNearestAirport
+} from '../trackImport';
+import { generateTimelineFromTrack } from '../timeline';
+import { analyzeFlightSunExposure } from '../aircraft';
+import { Airport } from '@/types';
+
+const JFK: Airport = {
+  iata: 'JFK',
+  name: 'John F Kennedy International Airport',
+  city: 'New York',
+  country: 'United States',
+  lat: 40.6413,
+  lon: -73.7781,
+  timezone: 'America/New_York'
+};
+
+const LHR: Airport = {
+  iata: 'LHR',
+  name: 'London Heathrow Airport',
+  city: 'London',
+  country: 'United Kingdom',
+  lat: 51.4700,
+  lon: -0.4543,
+  timezone: 'Europe/London'
+};
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk><trkseg>
+    <trkpt lat="40.6413" lon="-73.7781"><ele>4</ele><time>2024-06-21T22:00:00Z</time></trkpt>
+    <trkpt lat="41.5" lon="-70.0"><ele>9000</ele><time>2024-06-21T22:30:00Z</time></trkpt>
+    <trkpt lat="50.0" lon="-30.0"><ele>11000</ele><time>2024-06-22T02:00:00Z</time></trkpt>
+    <trkpt lat="51.4700" lon="-0.4543"><ele>25</ele><time>2024-06-22T05:30:00Z</time></trkpt>
+  </trkseg></trk>
+</gpx>`;
+
+const KML_TRACK = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+  <Document><Placemark><gx:Track>
+    <when>2024-06-21T22:00:00Z</when>
+    <when>2024-06-22T02:00:00Z</when>
+    <when>2024-06-22T05:30:00Z</when>
+    <gx:coord>-73.7781 40.6413 4</gx:coord>
+    <gx:coord>-30.0 50.0 11000</gx:coord>
+    <gx:coord>-0.4543 51.47 25</gx:coord>
+  </gx:Track></Placemark></Document>
+</kml>`;
+
+const KML_PLACEMARKS = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2"><Document>
+  <Placemark><TimeStamp><when>2024-06-21T22:00:00Z</when></TimeStamp><Point><coordinates>-73.7781,40.6413,4</coordinates></Point></Placemark>
+  <Placemark><TimeStamp><when>2024-06-22T05:30:00Z</when></TimeStamp><Point><coordinates>-0.4543,51.47,25</coordinates></Point></Placemark>
+</Document></kml>`;
+
+const CSV = `time,lat,lon,altitude,track,speed
+2024-06-21T22:00:00Z,40.6413,-73.7781,0,90,10
+2024-06-21 22:30:00,41.5,-70.0,29000,60,420
+1719021600,50.0,-30.0,37000,75,500
+2024-06-22T05:30:00Z,51.47,-0.4543,0,270,12`;
+
+const FR24_CSV = `Timestamp,UTC,Callsign,Position,Altitude,Speed,Direction
+1719007200,2024-06-21T22:00:00Z,BAW112,"40.6413,-73.7781",0,10,90
+1719021600,2024-06-22T02:00:00Z,BAW112,"50.0,-30.0",37000,500,75`;
+
+describe('Track Import', () => {
+  describe('detectTrackFormat', () => {
+    it('uses the file extension', () => {
+      expect(detectTrackFormat('', 'flight.GPX')).toBe('gpx');
+      expect(detectTrackFormat('', 'flight.kml')).toBe('kml');
+      expect(detectTrackFormat('', 'flight.csv')).toBe('csv');
+    });
+
+    it('sniffs the content without an extension', () => {
+      expect(detectTrackFormat(GPX)).toBe('gpx');
+      expect(detectTrackFormat(KML_TRACK)).toBe('kml');
+      expect(detectTrackFormat(CSV)).toBe('csv');
+    });
+
+    it('rejects unknown XML documents', () => {
+      expect(() => detectTrackFormat('<svg></svg>')).toThrow(/format/);
+    });
+  });
+
+  describe('parseGpx', () => {
+    it('reads positions, times and elevation in feet', () => {
+      const points = parseGpx(GPX);
+      expect(points).toHaveLength(4);
+      expect(points[0].lat).toBeCloseTo(40.6413, 4);
+      expect(points[0].timestamp.toISOString()).toBe('2024-06-21T22:00:00.000Z');
+      expect(points[2].altitude).toBeCloseTo(36089, 0);
+    });
+
+    it('rejects malformed XML', () => {
+      expect(() => parseGpx('<gpx><trk>')).toThrow(/XML/);
+    });
+  });
+
+  describe('parseKml', () => {
+    it('reads gx:Track coordinates', () => {
+      const points = parseKml(KML_TRACK);
+      expect(points).toHaveLength(3);
+      expect(points[1].lat).toBe(50);
+      expect(points[1].lon).toBe(-30);
+      expect(points[1].altitude).toBeCloseTo(36089, 0);
+    });
+
+    it('reads time-stamped placemarks', () => {
+      const points = parseKml(KML_PLACEMARKS);
+      expect(points).toHaveLength(2);
+      expect(points[1].lon).toBeCloseTo(-0.4543, 4);
+    });
+
+    it('explains that a plain LineString has no timestamps', () => {
+      const kml = '<kml><Placemark><LineString><coordinates>0,0 1,1</coordinates></LineString></Placemark></kml>';
+      expect(() => parseKml(kml)).toThrow(/timestamps/);
+    });
+  });
+
+  describe('parseAdsbCsv', () => {
+    it('reads ISO, space-separated and Unix timestamps', () => {
+      const points = parseAdsbCsv(CSV);
+      expect(points).toHaveLength(4);
+      expect(points[1].timestamp.toISOString()).toBe('2024-06-21T22:30:00.000Z');
+      expect(points[2].timestamp.toISOString()).toBe('2024-06-22T02:00:00.000Z');
+    });
+
+    it('keeps track, altitude and converts speed from knots', () => {
+      const points = parseAdsbCsv(CSV);
+      expect(points[1].track).toBe(60);
+      expect(points[1].altitude).toBe(29000);
+      expect(points[1].speed).toBeCloseTo(420 * 1.852, 6);
+    });
+
+    it('reads Flightradar24 style position columns', () => {
+      const points = parseAdsbCsv(FR24_CSV);
+      expect(points).toHaveLength(2);
+      expect(points[1].lat).toBe(50);
+      expect(points[1].lon).toBe(-30);
+      expect(points[1].track).toBe(75);
+    });
+
+    it('prefers the numeric timestamp to a UTC column before it', () => {
+      const csv = 'UTC,Timestamp,Position\n2024-06-21T23:00:00Z,1718928000,"40.6,-73.8"\n'
+        + 'not a time,1718928060,"40.7,-73.7"';
+      const points = parseAdsbCsv(csv);
+
+      expect(points[0].timestamp.toISOString()).toBe('2024-06-21T00:00:00.000Z');
+      expect(points[1].timestamp.toISOString()).toBe('2024-06-21T00:01:00.000Z');
+      expect(parseAdsbCsv('datetime,lat,lon\n2024-06-21T23:00:00Z,1,2')[0].timestamp.toISOString())
+        .toBe('2024-06-21T23:00:00.000Z');
+    });
+
+    it('requires time and position columns', () => {
+      expect(() => parseAdsbCsv('lat,lon\n1,2')).toThrow(/time/);
+      expect(() => parseAdsbCsv('time,alt\n2024-01-01T00:00:00Z,100')).toThrow(/latitude/);
+    });
+  });
+
+  describe('parseTrackFile', () => {
+    it('needs at least two positions', () => {
+      expect(() => parseTrackFile('time,lat,lon\n2024-01-01T00:00:00Z,1,2', 'one.csv')).toThrow(/two/);
+    });
+  });
+
+  describe('findNearestAirport', () => {
+    it('matches track ends to airports', () => {
+      expect(findNearestAirport(40.6, -73.8, [JFK, LHR])?.iata).toBe('JFK');
+      expect(findNearestAirport(51.5, -0.4, [JFK, LHR])?.iata).toBe('LHR');
+      expect(findNearestAirport(0, 0, [])).toBeNull();
+    });
+  });
+
+  describe('generateTimelineFromTrack', () => {
+    it('keeps recorded positions and timestamps as-is', () => {
+      const track = parseGpx(GPX);
+      const timeline = generateTimelineFromTrack(track, JFK, LHR);
+
+      expect(timeline.points).toHaveLength(4);
+      timeline.points.forEach((point, i) => {
+        expect(point.lat).toBe(track[i].lat);
+        expect(point.lon).toBe(track[i].lon);
+        expect(point.timestamp.getTime()).toBe(track[i].timestamp.getTime());
+      });
+      expect(timeline.totalDuration).toBe(450);
+    });
+
+    it('uses recorded track and speed when available', () => {
+      const timeline = generateTimelineFromTrack(parseAdsbCsv(CSV), JFK, LHR);
+      const point = timeline.points.find(p => p.altitude === 29000)!;
+
+      expect(point.heading).toBe(60);
+      expect(point.speed).toBeCloseTo(420 * 1.852, 6);
+    });
+
+    it('derives phases from altitude changes', () => {
+      const altitudes = [0, 5000, 15000, 35000, 35000, 35000, 20000, 2000, 0];
+      const start = Date.parse('2024-06-21T22:00:00Z');
+      const track = altitudes.map((altitude, i) => ({
+        lat: 40 + i,
+        lon: -70 + i * 5,
+        timestamp: new Date(start + i * 10 * 60000),
+        altitude,
+        speed: altitude > 0 ? 800 : 20
+      }));
+      const phases = generateTimelineFromTrack(track, JFK, LHR).points.map(p => p.phase);
+
+      expect(phases[0]).toBe('taxi');
+      expect(phases[2]).toBe('climb');
+      expect(phases[4]).toBe('cruise');
+      expect(phases[6]).toBe('descent');
+      expect(phases[7]).toBe('approach');
+    });
+
+    it('runs solar analysis on the recorded track', () => {
+      const timeline = generateTimelineFromTrack(parseGpx(GPX), JFK, LHR);
+      const analysis = analyzeFlightSunExposure(timeline);
+      const total = analysis.leftSideMinutes + analysis.rightSideMinutes
+        + analysis.overheadMinutes + analysis.noSunMinutes;
+
+      expect(total).toBeCloseTo(timeline.totalDuration, 6);
+      expect(timeline.statistics.daylightMinutes + timeline.statistics.darknessMinutes)
+        .toBeCloseTo(timeline.totalDuration, 6);
+    });
+
+    it('sorts positions and drops duplicate timestamps', () => {
+      const track = parseGpx(GPX);
+      const timeline = generateTimelineFromTrack([track[2], track[0], track[0], track[3], track[1]], JFK, LHR);
+
+      expect(timeline.points).toHaveLength(4);
+      expect(timeline.points[0].elapsedMinutes).toBe(0);
+    });
+
+    it('rejects tracks without two distinct timestamps', () => {
+      const [first] = parseGpx(GPX);
+      expect(() => generateTimelineFromTrack([first, first], JFK, LHR)).toThrow();
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for wind grids and the wind triangle
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseWindGrid, getWindAt, calculateWindTriangle } from '../wind';
+import { generateFlightTimeline } from '../timeline';
+import { Airport } from '@/types';
+
+/**
+ * Build a global grid with the same wind everywhere (in the given units)
+ */
+function uniformGrid(u: number, v: number, units: string = 'km/h') {
+  const levels = [100, 300, 400];
+  const lats = [-90, -45, 0, 45, 90];
+  const lons = [-180, -90, 0, 90];
+  const fill = (value: number) => levels.map(() => lats.map(() => lons.map(() => value)));
+  return { units, levels, lats, lons, u: fill(u), v: fill(v) };
+}
+
+describe('Wind Grids', () => {
+  describe('parseWindGrid', () => {
+    it('converts components to km/h', () => {
+      const grid = parseWindGrid(uniformGrid(10, -5, 'm/s'));
+      expect(grid.u[0][0][0]).toBeCloseTo(36, 6);
+      expect(grid.v[0][0][0]).toBeCloseTo(-18, 6);
+    });
+
+    it('treats missing units as m/s', () => {
+      const { units: _units, ...raw } = uniformGrid(10, 0);
+      const grid = parseWindGrid(raw);
+      expect(grid.u[0][0][0]).toBeCloseTo(36, 6);
+    });
+
+    it('rejects unknown units', () => {
+      expect(() => parseWindGrid(uniformGrid(10, 0, 'mph'))).toThrow(/units/);
+    });
+
+    it('rejects axes that are not ascending', () => {
+      const raw = { ...uniformGrid(10, 0), lats: [90, 45, 0, -45, -90] };
+      expect(() => parseWindGrid(raw)).toThrow(/ascending/);
+    });
+
+    it('rejects components that do not match the axes', () => {
+      const raw = uniformGrid(10, 0);
+      raw.u[1].pop();
+      expect(() => parseWindGrid(raw)).toThrow(/latitude/);
+    });
+
+    it('rejects non-objects', () => {
+      expect(() => parseWindGrid(null)).toThrow();
+      expect(() => parseWindGrid('wind')).toThrow();
+    });
+  });
+
+  describe('getWindAt', () => {
+    it('interpolates linearly between grid points', () => {
+      const raw = uniformGrid(0, 0);
+      raw.u = raw.u.map(level => level.map(row => row.map((_, j) => j * 100)));
+      const grid = parseWindGrid(raw);
+
+      // Halfway between lon -90 (100) and lon 0 (200)
+      expect(getWindAt(grid, 10, -45, 30000).u).toBeCloseTo(150, 6);
+    });
+
+    it('wraps across the date line on global grids', () => {
+      const raw = uniformGrid(0, 0);
+      raw.u = raw.u.map(level => level.map(row => row.map((_, j) => (j === 3 ? 100 : j === 0 ? 200 : 0))));
+      const grid = parseWindGrid(raw);
+
+      // Halfway between lon 90 (100) and lon 180 = -180 (200)
+      expect(getWindAt(grid, 0, 135, 30000).u).toBeCloseTo(150, 6);
+      expect(getWindAt(grid, 0, -225, 30000).u).toBeCloseTo(150, 6);
+    });
+
+    it('interpolates between flight levels and clamps outside them', () => {
+      const raw = uniformGrid(0, 0);
+      raw.u = raw.u.map((level, k) => level.map(row => row.map(() => k * 60)));
+      const grid = parseWindGrid(raw);
+
+      expect(getWindAt(grid, 0, 0, 35000).u).toBeCloseTo(90, 6);
+      expect(getWindAt(grid, 0, 0, 0).u).toBe(0);
+      expect(getWindAt(grid, 0, 0, 60000).u).toBe(120);
+    });
+  });
+
+  describe('calculateWindTriangle', () => {
+    it('adds a tailwind to ground speed without crabbing', () => {
+      const result = calculateWindTriangle(90, 800, { u: 150, v: 0 });
+      expect(result.groundSpeed).toBeCloseTo(950, 6);
+      expect(result.windCorrectionAngle).toBeCloseTo(0, 6);
+      expect(result.heading).toBeCloseTo(90, 6);
+      expect(result.headwind).toBeCloseTo(-150, 6);
+    });
+
+    it('subtracts a headwind from ground speed', () => {
+      const result = calculateWindTriangle(270, 800, { u: 150, v: 0 });
+      expect(result.groundSpeed).toBeCloseTo(650, 6);
+      expect(result.headwind).toBeCloseTo(150, 6);
+    });
+
+    it('turns the nose into a crosswind', () => {
+      // Flying north with wind blowing towards the east: nose turns left (west)
+      const result = calculateWindTriangle(0, 800, { u: 100, v: 0 });
+      expect(result.windCorrectionAngle).toBeLessThan(0);
+      expect(result.heading).toBeCloseTo(360 - 7.18, 1);
+      expect(result.groundSpeed).toBeLessThan(800);
+    });
+
+    it('returns the track as heading in still air', () => {
+      const result = calculateWindTriangle(123, 800, { u: 0, v: 0 });
+      expect(result.heading).toBeCloseTo(123, 6);
+      expect(result.groundSpeed).toBeCloseTo(800, 6);
+    });
+  });
+
+  describe('Wind-aware timelines', () => {
+    const JFK: Airport = {
+      iata: 'JFK',
+      name: 'John F Kennedy International Airport',
+      city: 'New York',
+      country: 'United States',
+      lat: 40.6413,
+      lon: -73.7781,
+      timezone: 'America/New_York'
+    };
+
+    const LHR: Airport = {
+      iata: 'LHR',
+      name: 'London Heathrow Airport',
+      city: 'London',
+      country: 'United Kingdom',
+      lat: 51.4700,
+      lon: -0.4543,
+      timezone: 'Europe/London'
+    };
+
+    const westerly = parseWindGrid(uniformGrid(150, 0));
+    const departureTime = new Date('2024-01-15T22:00:00Z');
+
+    it('makes eastbound faster than westbound in westerly winds', () => {
+      const eastbound = generateFlightTimeline(JFK, LHR, departureTime, { windGrid: westerly });
+      const westbound = generateFlightTimeline(LHR, JFK, departureTime, { windGrid: westerly });
+      const stillAir = generateFlightTimeline(JFK, LHR, departureTime);
+
+      expect(eastbound.totalDuration).toBeLessThan(stillAir.totalDuration - 30);
+      expect(westbound.totalDuration).toBeGreaterThan(stillAir.totalDuration + 30);
+    });
+
+    it('separates heading from track in a crosswind', () => {
+      const southerly = parseWindGrid(uniformGrid(0, 150));
+      const timeline = generateFlightTimeline(JFK, LHR, departureTime, { windGrid: southerly });
+
+      const cruise = timeline.points.filter(p => p.phase === 'cruise');
+      cruise.forEach(point => {
+        expect(point.heading).not.toBeCloseTo(point.track, 0);
+      });
+    });
+
+    it('keeps heading equal to track without wind', () => {
+      const timeline = generateFlightTimeline(JFK, LHR, departureTime);
+      timeline.points.forEach(point => {
+        expect(point.heading).toBe(point.track);
+      });
+    });
+  });
+});
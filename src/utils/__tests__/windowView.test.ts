@@ -0,0 +1,70 @@
+/**
+ * Unit tests for the window-seat view geometry
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getSkyColors, getWindowHorizon, getWindowViewFrame, projectToWindow } from '../windowView';
+import { calculateAircraftSunExposure } from '../aircraft';
+import { DEFAULT_WINDOW_GEOMETRY } from '../aircraftProfiles';
+
+describe('Window View', () => {
+  describe('projectToWindow', () => {
+    it('centres a body seen abeam', () => {
+      // Flying north: west is abeam left, east abeam right
+      expect(projectToWindow(270, 10, 0, 'LEFT')).toEqual({ x: 0, y: 10, visible: true });
+      expect(projectToWindow(90, 10, 0, 'RIGHT')).toEqual({ x: 0, y: 10, visible: true });
+    });
+
+    it('puts the nose to the right from the left seat and to the left from the right seat', () => {
+      // Heading 100°: a body at 40° is 60° left of the nose, 30° forward of left abeam
+      expect(projectToWindow(40, 5, 100, 'LEFT').x).toBeCloseTo(30, 6);
+      // A body at 160° is 60° right of the nose, 30° forward of right abeam
+      expect(projectToWindow(160, 5, 100, 'RIGHT').x).toBeCloseTo(-30, 6);
+    });
+
+    it('hides bodies on the other side, too high or below the view', () => {
+      expect(projectToWindow(90, 10, 0, 'LEFT').visible).toBe(false);
+      expect(projectToWindow(270, 80, 0, 'LEFT').visible).toBe(false);
+      expect(projectToWindow(270, -60, 0, 'LEFT').visible).toBe(false);
+    });
+
+    it('agrees with the sunny side of the exposure analysis', () => {
+      for (let azimuth = 0; azimuth < 360; azimuth += 15) {
+        const exposure = calculateAircraftSunExposure(45, azimuth, 20);
+        if (exposure.side === 'LEFT' || exposure.side === 'RIGHT') {
+          expect(projectToWindow(azimuth, 20, 45, exposure.side).visible).toBe(true);
+        }
+      }
+    });
+  });
+
+  describe('getWindowViewFrame', () => {
+    it('spans the window geometry with forward on the nose side', () => {
+      const left = getWindowViewFrame('LEFT');
+      expect(left.right).toBe(DEFAULT_WINDOW_GEOMETRY.forwardView);
+      expect(left.left).toBe(-DEFAULT_WINDOW_GEOMETRY.aftView);
+      expect(left.top).toBe(DEFAULT_WINDOW_GEOMETRY.upwardView);
+      expect(getWindowViewFrame('RIGHT').left).toBe(-DEFAULT_WINDOW_GEOMETRY.forwardView);
+    });
+  });
+
+  describe('getWindowHorizon', () => {
+    it('drops below eye level with height', () => {
+      expect(getWindowHorizon(0)).toBeCloseTo(0, 6);
+      expect(getWindowHorizon(37000)).toBeLessThan(-3);
+      expect(getWindowHorizon(37000)).toBeGreaterThan(-3.5);
+    });
+  });
+
+  describe('getSkyColors', () => {
+    it('darkens the sky as the sun sets', () => {
+      expect(getSkyColors(30)).not.toEqual(getSkyColors(-3));
+      expect(getSkyColors(-30)).toEqual(getSkyColors(-40));
+    });
+
+    it('keeps twilight colours lower at cruise altitude', () => {
+      // 1° below the ground horizon is still golden hour above the window horizon at FL370
+      expect(getSkyColors(-1, 37000)).toEqual(getSkyColors(1, 0));
+    });
+  });
+});
@@ -1,12 +1,18 @@
-import { AircraftSide, AircraftSunExposure, FlightSunAnalysis, FlightTimeline } from '@/types';
+import { AircraftMoonExposure, AircraftSide, AircraftSunExposure, CabinWindowGeometry, FlightSunAnalysis, FlightTimeline } from '@/types';
+import { getPointMinutes } from './timeline';
+import { DEFAULT_WINDOW_GEOMETRY } from './aircraftProfiles';
+import { MOONRISE_MOONSET_ALTITUDE } from './lunar';
 
 /**
  * Determine which side of aircraft faces the sun
+ * The window geometry decides how far ahead, behind and above the sun can
+ * be and still be seen from (or shine into) a window seat.
  */
 export function calculateAircraftSunExposure(
   aircraftHeading: number,  // 0-360, degrees from north
   sunAzimuth: number,       // 0-360, sun's compass direction
-  sunAltitude: number       // -90 to 90, sun's angle above horizon
+  sunAltitude: number,      // -90 to 90, sun's angle above horizon
+  window: CabinWindowGeometry = DEFAULT_WINDOW_GEOMETRY
 ): AircraftSunExposure {
   // Calculate relative bearing of sun to aircraft
   // 0° = directly ahead, 90° = right, -90° = left, ±180° = behind
@@ -45,11 +51,11 @@ export function calculateAircraftSunExposure(
         ? "Sunrise approaching on LEFT side - perfect for golden hour photography!"
         : "Sunset colors visible on LEFT side - grab your camera!";
     }
-  } else if (sunAltitude > 70) {
+  } else if (sunAltitude > window.upwardView) {
     // Sun nearly overhead (tropical routes)
     side = 'OVERHEAD';
     recommendation = "Tropical route - sun overhead, both sides have similar lighting for cloud photography";
-  } else if (relativeBearing >= -30 && relativeBearing <= 30) {
+  } else if (Math.abs(relativeBearing) <= 90 - window.forwardView) {
     // Sun ahead
     side = 'NONE';
     if (sunAltitude < 15) {
@@ -57,7 +63,7 @@ export function calculateAircraftSunExposure(
     } else {
       recommendation = "Sun ahead - balanced lighting on both sides";
     }
-  } else if (relativeBearing >= 150 || relativeBearing <= -150) {
+  } else if (Math.abs(relativeBearing) >= 90 + window.aftView) {
     // Sun behind
     side = 'NONE';
     recommendation = "Sun behind - great lighting for forward views, either side works well";
@@ -104,8 +110,67 @@ export function calculateAircraftSunExposure(
   };
 }
 
+/**
+ * Determine which side of aircraft the Moon can be seen from
+ * Uses the same window geometry as calculateAircraftSunExposure; a Moon
+ * ahead of or behind the visible arcs is not visible from either side.
+ */
+export function calculateAircraftMoonExposure(
+  aircraftHeading: number,  // 0-360, degrees from north
+  moonAzimuth: number,      // 0-360, moon's compass direction
+  moonAltitude: number,     // -90 to 90, moon's angle above horizon
+  illumination: number,     // 0-1, illuminated fraction of the disc
+  window: CabinWindowGeometry = DEFAULT_WINDOW_GEOMETRY
+): AircraftMoonExposure {
+  let relativeBearing = moonAzimuth - aircraftHeading;
+  if (relativeBearing > 180) relativeBearing -= 360;
+  if (relativeBearing < -180) relativeBearing += 360;
+
+  let side: AircraftSide = 'NONE';
+  if (moonAltitude <= MOONRISE_MOONSET_ALTITUDE) {
+    side = 'NONE';
+  } else if (moonAltitude > window.upwardView) {
+    side = 'OVERHEAD';
+  } else if (Math.abs(relativeBearing) > 90 - window.forwardView && Math.abs(relativeBearing) < 90 + window.aftView) {
+    side = relativeBearing > 0 ? 'RIGHT' : 'LEFT';
+  }
+
+  const visible = side === 'LEFT' || side === 'RIGHT';
+  const brightness = moonAltitude > 0
+    ? illumination * Math.min(1, Math.sin(toRadians(moonAltitude)) * 4)
+    : 0;
+
+  let recommendation: string;
+  if (moonAltitude <= MOONRISE_MOONSET_ALTITUDE) {
+    recommendation = "Moon below the horizon - dark skies for stargazing";
+  } else if (side === 'OVERHEAD') {
+    recommendation = "Moon high overhead - out of view from the windows";
+  } else if (!visible) {
+    recommendation = relativeBearing > -90 && relativeBearing < 90
+      ? "Moon ahead of the aircraft - not visible from the side windows"
+      : "Moon behind the aircraft - not visible from the side windows";
+  } else if (illumination < 0.1) {
+    recommendation = `Thin crescent Moon on ${side} side - look for earthshine`;
+  } else if (moonAltitude < 10) {
+    recommendation = `Low Moon on ${side} side - ${illumination > 0.9 ? 'full moon on the horizon' : 'moonlit horizon views'}`;
+  } else if (illumination > 0.5) {
+    recommendation = `Bright Moon on ${side} side - moonlit clouds and landscape below`;
+  } else {
+    recommendation = `Moon visible on ${side} side`;
+  }
+
+  return {
+    side,
+    relativeBearing,
+    visible,
+    brightness,
+    recommendation
+  };
+}
+
 /**
  * Analyze sun exposure over entire flight
+ * For multi-leg itineraries the legs are combined and layovers are left out
  */
 export function analyzeFlightSunExposure(
   timeline: FlightTimeline
@@ -114,41 +179,55 @@ export function analyzeFlightSunExposure(
   let rightMinutes = 0;
   let overheadMinutes = 0;
   let noSunMinutes = 0;
+  let flightMinutes = timeline.totalDuration;
 
-  const minutePerPoint = timeline.totalDuration / timeline.points.length;
-
-  timeline.points.forEach(point => {
-    const exposure = calculateAircraftSunExposure(
-      point.heading,
-      point.sunAzimuth || 0,
-      point.sunAltitude || -90
-    );
-
-    switch (exposure.side) {
-      case 'LEFT':
-        leftMinutes += minutePerPoint;
-        break;
-      case 'RIGHT':
-        rightMinutes += minutePerPoint;
-        break;
-      case 'OVERHEAD':
-        overheadMinutes += minutePerPoint;
-        break;
-      case 'NONE':
-        noSunMinutes += minutePerPoint;
-        break;
-    }
-  });
+  if (timeline.legs && timeline.legs.length > 0) {
+    const legAnalyses = analyzeItinerarySunExposure(timeline);
+    legAnalyses.forEach(analysis => {
+      leftMinutes += analysis.leftSideMinutes;
+      rightMinutes += analysis.rightSideMinutes;
+      overheadMinutes += analysis.overheadMinutes;
+      noSunMinutes += analysis.noSunMinutes;
+    });
+    flightMinutes = timeline.legs.reduce((sum, leg) => sum + leg.timeline.totalDuration, 0);
+  } else {
+    const pointMinutes = getPointMinutes(timeline.points);
+
+    timeline.points.forEach((point, i) => {
+      const minutePerPoint = pointMinutes[i];
+      const exposure = calculateAircraftSunExposure(
+        point.heading,
+        point.sunAzimuth || 0,
+        point.sunAltitude || -90,
+        timeline.aircraft?.window
+      );
+
+      switch (exposure.side) {
+        case 'LEFT':
+          leftMinutes += minutePerPoint;
+          break;
+        case 'RIGHT':
+          rightMinutes += minutePerPoint;
+          break;
+        case 'OVERHEAD':
+          overheadMinutes += minutePerPoint;
+          break;
+        case 'NONE':
+          noSunMinutes += minutePerPoint;
+          break;
+      }
+    });
+  }
 
   // Generate strategic recommendation
   let recommendation: string;
   const totalDaylight = leftMinutes + rightMinutes + overheadMinutes;
-  const daylightPercent = (totalDaylight / timeline.totalDuration) * 100;
+  const daylightPercent = (totalDaylight / flightMinutes) * 100;
   
-  if (noSunMinutes > timeline.totalDuration * 0.8) {
+  if (noSunMinutes > flightMinutes * 0.8) {
     // Mostly night flight
     recommendation = "Red-eye flight - minimal sun exposure. Perfect for sleeping or catching sunrise/sunset moments!";
-  } else if (overheadMinutes > timeline.totalDuration * 0.4) {
+  } else if (overheadMinutes > flightMinutes * 0.4) {
     // Tropical route
     recommendation = "Tropical route with overhead sun - both sides great for cloud photography and ocean views";
   } else if (leftMinutes > rightMinutes * 2) {
@@ -170,10 +249,10 @@ export function analyzeFlightSunExposure(
   } else if (daylightPercent > 80) {
     // Mostly daytime flight
     recommendation = "Full daytime flight - great visibility on both sides. Enjoy the aerial views!";
-  } else if (timeline.sunEvents && timeline.sunEvents.length > 0) {
+  } else if (timeline.sunEvents?.some(event => event.type === 'sunrise' || event.type === 'sunset')) {
     // Has sunrise/sunset
-    const firstEvent = timeline.sunEvents[0];
-    if (firstEvent.type === 'sunrise') {
+    const firstEvent = timeline.sunEvents.find(event => event.type === 'sunrise' || event.type === 'sunset');
+    if (firstEvent?.type === 'sunrise') {
       recommendation = "Flight includes sunrise! Check sun events below for best viewing side and timing";
     } else {
       recommendation = "Flight includes sunset! Check sun events below for best viewing side and timing";
@@ -183,10 +262,10 @@ export function analyzeFlightSunExposure(
   }
 
   const detailedAnalysis = [
-    `Left side exposure: ${formatDuration(leftMinutes)} (${((leftMinutes/timeline.totalDuration)*100).toFixed(0)}%)`,
-    `Right side exposure: ${formatDuration(rightMinutes)} (${((rightMinutes/timeline.totalDuration)*100).toFixed(0)}%)`,
-    `Overhead sun: ${formatDuration(overheadMinutes)} (${((overheadMinutes/timeline.totalDuration)*100).toFixed(0)}%)`,
-    `No sun (night/ahead/behind): ${formatDuration(noSunMinutes)} (${((noSunMinutes/timeline.totalDuration)*100).toFixed(0)}%)`
+    `Left side exposure: ${formatDuration(leftMinutes)} (${((leftMinutes/flightMinutes)*100).toFixed(0)}%)`,
+    `Right side exposure: ${formatDuration(rightMinutes)} (${((rightMinutes/flightMinutes)*100).toFixed(0)}%)`,
+    `Overhead sun: ${formatDuration(overheadMinutes)} (${((overheadMinutes/flightMinutes)*100).toFixed(0)}%)`,
+    `No sun (night/ahead/behind): ${formatDuration(noSunMinutes)} (${((noSunMinutes/flightMinutes)*100).toFixed(0)}%)`
   ];
 
   return {
@@ -199,6 +278,19 @@ export function analyzeFlightSunExposure(
   };
 }
 
+/**
+ * Analyze each leg of a multi-leg itinerary on its own
+ * Returns one analysis per leg, or a single analysis for a direct flight
+ */
+export function analyzeItinerarySunExposure(
+  timeline: FlightTimeline
+): FlightSunAnalysis[] {
+  if (!timeline.legs || timeline.legs.length === 0) {
+    return [analyzeFlightSunExposure(timeline)];
+  }
+  return timeline.legs.map(leg => analyzeFlightSunExposure(leg.timeline));
+}
+
 function toRadians(degrees: number): number {
   return degrees * Math.PI / 180;
 }
@@ -0,0 +1,188 @@
+/**
+ * Aircraft type catalogue: cruise performance, typical flight levels and
+ * cabin window geometry for common airliners
+ */
+
+import { AircraftProfile, CabinWindowGeometry } from '@/types';
+
+/**
+ * Window geometry used when the aircraft type is unknown
+ * Sun more than 70° up is treated as overhead, and the sun counts as being on
+ * a side from 30° off the nose to 30° off the tail.
+ */
+export const DEFAULT_WINDOW_GEOMETRY: CabinWindowGeometry = {
+  width: 25,
+  height: 35,
+  upwardView: 70,
+  forwardView: 60,
+  aftView: 60
+};
+
+export const AIRCRAFT_PROFILES: AircraftProfile[] = [
+  {
+    id: 'A320',
+    name: 'Airbus A320neo',
+    category: 'narrowbody',
+    cruiseMach: 0.78,
+    cruiseSpeed: 830,
+    flightLevels: [330, 350, 370, 390],
+    climbRate: 2000,
+    descentRate: 2200,
+    window: { width: 23, height: 33, upwardView: 68, forwardView: 58, aftView: 58 }
+  },
+  {
+    id: 'B738',
+    name: 'Boeing 737-800',
+    category: 'narrowbody',
+    cruiseMach: 0.785,
+    cruiseSpeed: 840,
+    flightLevels: [330, 350, 370, 390],
+    climbRate: 2000,
+    descentRate: 2300,
+    window: { width: 25, height: 36, upwardView: 70, forwardView: 60, aftView: 60 }
+  },
+  {
+    id: 'B789',
+    name: 'Boeing 787-9',
+    category: 'widebody',
+    cruiseMach: 0.85,
+    cruiseSpeed: 903,
+    flightLevels: [350, 370, 390, 410],
+    climbRate: 1800,
+    descentRate: 2400,
+    window: { width: 27, height: 47, upwardView: 78, forwardView: 64, aftView: 64 }
+  },
+  {
+    id: 'A359',
+    name: 'Airbus A350-900',
+    category: 'widebody',
+    cruiseMach: 0.85,
+    cruiseSpeed: 903,
+    flightLevels: [350, 370, 390, 410],
+    climbRate: 1800,
+    descentRate: 2400,
+    window: { width: 28, height: 40, upwardView: 74, forwardView: 62, aftView: 62 }
+  },
+  {
+    id: 'B77W',
+    name: 'Boeing 777-300ER',
+    category: 'widebody',
+    cruiseMach: 0.84,
+    cruiseSpeed: 892,
+    flightLevels: [310, 330, 350, 370],
+    climbRate: 1600,
+    descentRate: 2400,
+    window: { width: 25, height: 38, upwardView: 72, forwardView: 60, aftView: 60 }
+  },
+  {
+    id: 'A388',
+    name: 'Airbus A380-800',
+    category: 'widebody',
+    cruiseMach: 0.85,
+    cruiseSpeed: 903,
+    flightLevels: [330, 350, 370, 390],
+    climbRate: 1400,
+    descentRate: 2200,
+    window: { width: 25, height: 38, upwardView: 70, forwardView: 60, aftView: 60 }
+  },
+  {
+    id: 'E175',
+    name: 'Embraer E175',
+    category: 'regional',
+    cruiseMach: 0.75,
+    cruiseSpeed: 800,
+    flightLevels: [300, 340, 370],
+    climbRate: 2200,
+    descentRate: 2000,
+    window: { width: 26, height: 36, upwardView: 68, forwardView: 58, aftView: 58 }
+  },
+  {
+    id: 'CRJ9',
+    name: 'Bombardier CRJ900',
+    category: 'regional',
+    cruiseMach: 0.78,
+    cruiseSpeed: 830,
+    flightLevels: [290, 330, 360],
+    climbRate: 2300,
+    descentRate: 2200,
+    // Small windows set low in the fuselage
+    window: { width: 23, height: 30, upwardView: 62, forwardView: 55, aftView: 55 }
+  },
+  {
+    id: 'AT76',
+    name: 'ATR 72-600',
+    category: 'turboprop',
+    cruiseSpeed: 510,
+    flightLevels: [170, 210, 250],
+    climbRate: 1300,
+    descentRate: 1500,
+    // The high wing hides the sky above most window seats
+    window: { width: 23, height: 33, upwardView: 55, forwardView: 58, aftView: 58 }
+  },
+  {
+    id: 'DH8D',
+    name: 'De Havilland Dash 8-400',
+    category: 'turboprop',
+    cruiseSpeed: 667,
+    flightLevels: [210, 250],
+    climbRate: 1800,
+    descentRate: 2000,
+    window: { width: 24, height: 34, upwardView: 55, forwardView: 58, aftView: 58 }
+  }
+];
+
+export const DEFAULT_AIRCRAFT_ID = 'A320';
+
+// Route lengths (km) at which the lowest and highest typical levels are used
+const SHORT_ROUTE_KM = 1000;
+const LONG_ROUTE_KM = 6000;
+
+/**
+ * Look up an aircraft profile by its type designator
+ */
+export function getAircraftProfile(id: string): AircraftProfile | undefined {
+  return AIRCRAFT_PROFILES.find(profile => profile.id === id);
+}
+
+/**
+ * True airspeed for a Mach number at a pressure altitude (ISA, no wind)
+ *
+ * @param altitude Altitude in feet
+ * @returns km/h
+ */
+export function machToTrueAirspeed(mach: number, altitude: number): number {
+  // ISA temperature lapses 1.98 K per 1000 ft up to the tropopause
+  const temperature = Math.max(216.65, 288.15 - 0.0019812 * altitude);
+  const speedOfSound = Math.sqrt(1.4 * 287.053 * temperature); // m/s
+  return mach * speedOfSound * 3.6;
+}
+
+/**
+ * Cruise performance of an aircraft on a route of the given length
+ * Short routes fly the lowest typical level, long hauls the highest.
+ * Jets cruise at their Mach number at that level; turboprops at their
+ * cruise speed.
+ *
+ * @param distance Route length in km
+ */
+export function getCruisePerformance(profile: AircraftProfile, distance: number): {
+  cruisingSpeed: number;    // km/h
+  cruisingAltitude: number; // feet
+  climbRate: number;        // ft/min
+  descentGradient: number;  // ft/km
+} {
+  const levels = profile.flightLevels;
+  const fraction = Math.min(1, Math.max(0, (distance - SHORT_ROUTE_KM) / (LONG_ROUTE_KM - SHORT_ROUTE_KM)));
+  const cruisingAltitude = levels[Math.round(fraction * (levels.length - 1))] * 100;
+  const cruisingSpeed = profile.cruiseMach
+    ? machToTrueAirspeed(profile.cruiseMach, cruisingAltitude)
+    : profile.cruiseSpeed;
+
+  return {
+    cruisingSpeed,
+    cruisingAltitude,
+    climbRate: profile.climbRate,
+    // Feet lost per km flown, descending at roughly cruise speed
+    descentGradient: (profile.descentRate * 60) / cruisingSpeed
+  };
+}
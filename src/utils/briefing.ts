@@ -0,0 +1,94 @@
+/**
+ * Daylight briefing for the airports at each end of a flight: the local
+ * day's sun times and the light at takeoff and landing
+ */
+
+import { Airport, FlightTimeline, SolarModel, TimelinePoint } from '@/types';
+import { getSunPosition } from './spa';
+import {
+  calculateDaylightInfo,
+  findSunCrossings,
+  getTimeZoneDay,
+  DaylightInfo,
+  SUNRISE_SUNSET_ALTITUDE,
+  TwilightType
+} from './daylight';
+import { getLocalDate } from './timezone';
+
+export type LightCondition = 'daylight' | 'twilight' | 'darkness';
+
+/**
+ * Sun times at an airport on its local date, and the light at a moment there
+ */
+export interface AirportBriefing {
+  airport: Airport;
+  time: Date;                        // Takeoff or landing
+  localDate: string;                 // YYYY-MM-DD at the airport
+  daylight: DaylightInfo;            // For the airport's local date
+  light: LightCondition;             // At `time`, on the ground
+  minutesFromSunset: number | null;  // From the nearest sunset to `time` (negative = before); null with no sunset within 12 h
+}
+
+export interface FlightBriefing {
+  departure: AirportBriefing;
+  arrival: AirportBriefing;
+}
+
+const HALF_DAY_MS = 12 * 3600000;
+
+/**
+ * Brief an airport for a moment: its local day's daylight and the light then
+ *
+ * @param solarModel Sun position algorithm, as the timeline being briefed used
+ */
+export function getAirportBriefing(airport: Airport, time: Date, solarModel: SolarModel = 'meeus'): AirportBriefing {
+  const day = getTimeZoneDay(time, airport.timezone);
+  const sunsets = findSunCrossings(airport.lat, airport.lon, {
+    start: new Date(time.getTime() - HALF_DAY_MS),
+    end: new Date(time.getTime() + HALF_DAY_MS)
+  }, SUNRISE_SUNSET_ALTITUDE, solarModel).filter(crossing => !crossing.rising);
+
+  // Sunset nearest the moment, before or after it
+  const nearest = sunsets.reduce<Date | null>((best, { time: sunset }) =>
+    best === null || Math.abs(sunset.getTime() - time.getTime()) < Math.abs(best.getTime() - time.getTime())
+      ? sunset
+      : best, null);
+
+  return {
+    airport,
+    time,
+    localDate: getLocalDate(time, airport.timezone),
+    daylight: calculateDaylightInfo(airport.lat, airport.lon, day.start, day, solarModel),
+    light: getLightCondition(airport.lat, airport.lon, time, solarModel),
+    minutesFromSunset: nearest ? (time.getTime() - nearest.getTime()) / 60000 : null
+  };
+}
+
+/**
+ * Brief the origin at takeoff and the destination at landing
+ * Takeoff and landing are the ends of the airborne part of the timeline;
+ * a timeline with no taxi phases uses its first and last points. Sun times
+ * use the timeline's own solar model.
+ */
+export function getFlightBriefing(timeline: FlightTimeline): FlightBriefing {
+  const { points } = timeline;
+  const airborne = (p: TimelinePoint) => p.phase !== 'taxi';
+  const takeoff = points.find(airborne) ?? points[0];
+  const landing = [...points].reverse().find(airborne) ?? points[points.length - 1];
+
+  return {
+    departure: getAirportBriefing(timeline.origin, takeoff.timestamp, timeline.solarModel),
+    arrival: getAirportBriefing(timeline.destination, landing.timestamp, timeline.solarModel)
+  };
+}
+
+/**
+ * Light on the ground: daylight above sunrise/sunset altitude, twilight down
+ * to the end of civil twilight, darkness below
+ */
+export function getLightCondition(lat: number, lon: number, time: Date, solarModel: SolarModel = 'meeus'): LightCondition {
+  const altitude = getSunPosition(lat, lon, time, solarModel).altitude;
+  if (altitude > SUNRISE_SUNSET_ALTITUDE) return 'daylight';
+  if (altitude > TwilightType.CIVIL) return 'twilight';
+  return 'darkness';
+}
@@ -0,0 +1,157 @@
+/**
+ * Computation jobs run off the main thread: timelines, flight analyses and
+ * departure sweeps, with the typed messages the compute worker exchanges
+ */
+
+import { DepartureSlot, FlightData, FlightSunAnalysis, FlightTimeline, ItineraryLeg } from '@/types';
+import { generateFlightTimeline, generateItineraryTimeline, generateTimelineFromTrack, TimelineOptions } from './timeline';
+import { sweepCalendarYear, sweepDepartureTimes } from './departureSweep';
+import { analyzeFlightSunExposure } from './aircraft';
+import { getFlightBriefing, FlightBriefing } from './briefing';
+import { getLocalDate, getLocalTime, startOfLocalDay } from './timezone';
+
+export type ComputeJob =
+  | { type: 'timeline'; flight: FlightData }     // The flight's timeline (stitched for itineraries)
+  | { type: 'analysis'; timeline: FlightTimeline } // Window sides and daylight briefing
+  | { type: 'sweep'; flight: FlightData }        // Every departure through the origin's local day
+  | { type: 'calendar'; flight: FlightData };    // The same local departure every day of the year
+
+/**
+ * Flight-wide and per-leg window analysis with the daylight briefing
+ */
+export interface TimelineAnalysis {
+  flight: FlightSunAnalysis;
+  legs: FlightSunAnalysis[];  // One per leg of an itinerary; empty for direct flights
+  briefing: FlightBriefing;
+}
+
+export interface CalendarResult {
+  slots: DepartureSlot[];
+  localTime: string;  // Departure time flown every day, HH:mm at the origin
+}
+
+interface ComputeResults {
+  timeline: FlightTimeline;
+  analysis: TimelineAnalysis;
+  sweep: DepartureSlot[];
+  calendar: CalendarResult;
+}
+
+export type ComputeResult<J extends ComputeJob = ComputeJob> = ComputeResults[J['type']];
+
+/** Fraction of a job completed, 0-1 */
+export type ProgressCallback = (progress: number) => void;
+
+// Messages to the worker, and back for each job
+export interface WorkerRequest {
+  id: number;
+  job: ComputeJob;
+}
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'result'; result: ComputeResult }
+  | { id: number; type: 'error'; message: string };
+
+/**
+ * Run a job to completion on the current thread
+ *
+ * @throws Error from the underlying calculation, e.g. an oversized sweep
+ */
+export function runComputeJob<J extends ComputeJob>(job: J, onProgress: ProgressCallback = () => {}): ComputeResult<J> {
+  return computeResult(job, onProgress) as ComputeResult<J>;
+}
+
+/**
+ * Run the job in a request and post its progress and outcome
+ * Errors are posted back rather than thrown, so one failed job does not
+ * take the worker down.
+ */
+export function handleComputeRequest({ id, job }: WorkerRequest, post: (response: WorkerResponse) => void): void {
+  try {
+    const result = runComputeJob(job, progress => post({ id, type: 'progress', progress }));
+    post({ id, type: 'result', result });
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+function computeResult(job: ComputeJob, onProgress: ProgressCallback): ComputeResult {
+  const sweepProgress = (completed: number, total: number) => onProgress(completed / total);
+
+  switch (job.type) {
+    case 'timeline':
+      return buildTimeline(job.flight, onProgress);
+
+    case 'analysis': {
+      // Progress by points walked: the whole flight, each leg, then the briefing
+      const { timeline } = job;
+      const total = 2 * timeline.points.length
+        + (timeline.legs ?? []).reduce((sum, leg) => sum + leg.timeline.points.length, 0);
+      let done = timeline.points.length;
+
+      const flight = analyzeFlightSunExposure(timeline);
+      onProgress(done / total);
+      const legs = (timeline.legs ?? []).map(leg => {
+        const analysis = analyzeFlightSunExposure(leg.timeline);
+        done += leg.timeline.points.length;
+        onProgress(done / total);
+        return analysis;
+      });
+      const briefing = getFlightBriefing(timeline);
+      onProgress(1);
+      return { flight, legs, briefing };
+    }
+
+    case 'sweep': {
+      const { flight } = job;
+      return sweepDepartureTimes(
+        sweepLegs(flight),
+        startOfLocalDay(flight.departureDate, flight.origin.timezone),
+        sweepOptions(flight),
+        sweepProgress
+      );
+    }
+
+    case 'calendar': {
+      const { flight } = job;
+      const timeZone = flight.origin.timezone;
+      const localTime = getLocalTime(flight.departureDate, timeZone);
+      const year = Number(getLocalDate(flight.departureDate, timeZone).slice(0, 4));
+      const slots = sweepCalendarYear(sweepLegs(flight), year, localTime, timeZone, sweepOptions(flight), sweepProgress);
+      return { slots, localTime };
+    }
+  }
+}
+
+// Timeline of a submitted flight: a recorded track, an itinerary or a direct flight
+function buildTimeline(data: FlightData, onProgress: ProgressCallback): FlightTimeline {
+  const options: TimelineOptions = {
+    windGrid: data.windGrid,
+    aircraft: data.aircraft,
+    blockMinutes: data.blockMinutes,
+    horizon: data.horizon,
+    solarModel: data.solarModel,
+    onProgress
+  };
+
+  if (data.track) {
+    const timeline = generateTimelineFromTrack(data.track, data.origin, data.destination, data.aircraft, data.horizon, data.solarModel);
+    onProgress(1);
+    return timeline;
+  }
+  return data.legs && data.legs.length > 1
+    ? generateItineraryTimeline(data.legs, data.departureDate, options)
+    : generateFlightTimeline(data.origin, data.destination, data.departureDate, options);
+}
+
+function sweepOptions(data: FlightData): TimelineOptions {
+  return { windGrid: data.windGrid, aircraft: data.aircraft, horizon: data.horizon, solarModel: data.solarModel };
+}
+
+// Legs to fly for sweeps: the itinerary, or the direct flight as one leg
+function sweepLegs(data: FlightData): ItineraryLeg[] {
+  return data.legs && data.legs.length > 1
+    ? data.legs
+    : [{ origin: data.origin, destination: data.destination, blockMinutes: data.blockMinutes }];
+}
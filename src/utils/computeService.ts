@@ -0,0 +1,175 @@
+/**
+ * Computation service: runs jobs one at a time in a Web Worker, with
+ * progress reports and cancellation
+ * Jobs are synchronous inside the worker, so a running job is cancelled by
+ * terminating the worker; the next job starts a fresh one.
+ */
+
+import {
+  ComputeJob,
+  ComputeResult,
+  ProgressCallback,
+  WorkerRequest,
+  WorkerResponse,
+  handleComputeRequest
+} from './computeJobs';
+
+/** Message of the error a cancelled job's result rejects with */
+export const JOB_CANCELLED = 'Job cancelled';
+
+/**
+ * The part of a Worker the service uses
+ */
+export interface ComputeWorker {
+  postMessage(request: WorkerRequest): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent<WorkerResponse>) => void) | null;
+}
+
+/**
+ * A submitted job
+ */
+export interface ComputeTask<T> {
+  result: Promise<T>;  // Rejects with JOB_CANCELLED when cancelled
+  cancel: () => void;  // No effect once the job has finished
+}
+
+export interface ComputeService {
+  run<J extends ComputeJob>(job: J, onProgress?: ProgressCallback): ComputeTask<ComputeResult<J>>;
+  dispose(): void;  // Cancels every job and stops the worker
+}
+
+interface PendingJob {
+  request: WorkerRequest;
+  onProgress?: ProgressCallback;
+  resolve: (result: ComputeResult) => void;
+  reject: (error: Error) => void;
+}
+
+let sharedService: ComputeService | null = null;
+
+/**
+ * The app-wide service, created on first use
+ */
+export function getComputeService(): ComputeService {
+  sharedService ??= createComputeService();
+  return sharedService;
+}
+
+/**
+ * Create a service that runs jobs in order on workers from createWorker
+ */
+export function createComputeService(createWorker: () => ComputeWorker = createDefaultWorker): ComputeService {
+  const queue: PendingJob[] = [];
+  let running: PendingJob | null = null;
+  let worker: ComputeWorker | null = null;
+  let nextId = 1;
+
+  const handleResponse = (response: WorkerResponse) => {
+    if (!running || response.id !== running.request.id) return;
+
+    if (response.type === 'progress') {
+      running.onProgress?.(response.progress);
+      return;
+    }
+
+    const finished = running;
+    running = null;
+    if (response.type === 'result') {
+      finished.resolve(response.result);
+    } else {
+      finished.reject(new Error(response.message));
+    }
+    startNext();
+  };
+
+  const startNext = () => {
+    if (running) return;
+    running = queue.shift() ?? null;
+    if (!running) return;
+
+    if (!worker) {
+      worker = createWorker();
+      worker.onmessage = event => handleResponse(event.data);
+    }
+    worker.postMessage(running.request);
+  };
+
+  const stopWorker = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  const cancel = (id: number) => {
+    const index = queue.findIndex(pending => pending.request.id === id);
+    if (index >= 0) {
+      const [pending] = queue.splice(index, 1);
+      pending.reject(new Error(JOB_CANCELLED));
+      return;
+    }
+
+    if (running?.request.id === id) {
+      const cancelled = running;
+      running = null;
+      stopWorker();
+      cancelled.reject(new Error(JOB_CANCELLED));
+      startNext();
+    }
+  };
+
+  return {
+    run<J extends ComputeJob>(job: J, onProgress?: ProgressCallback): ComputeTask<ComputeResult<J>> {
+      const id = nextId++;
+      const result = new Promise<ComputeResult<J>>((resolve, reject) => {
+        queue.push({
+          request: { id, job },
+          onProgress,
+          resolve: resolve as (result: ComputeResult) => void,
+          reject
+        });
+      });
+      startNext();
+      return { result, cancel: () => cancel(id) };
+    },
+
+    dispose() {
+      const cancelled = [...(running ? [running] : []), ...queue.splice(0)];
+      running = null;
+      stopWorker();
+      cancelled.forEach(pending => pending.reject(new Error(JOB_CANCELLED)));
+    }
+  };
+}
+
+/**
+ * A worker stand-in that runs jobs on the main thread, one event-loop turn
+ * after they are posted
+ * Used where Web Workers are unavailable; terminating it discards the
+ * responses of a job already running.
+ */
+export function createInlineWorker(): ComputeWorker {
+  let terminated = false;
+
+  const worker: ComputeWorker = {
+    onmessage: null,
+    postMessage(request) {
+      setTimeout(() => {
+        if (terminated) return;
+        handleComputeRequest(request, response => {
+          if (!terminated) worker.onmessage?.(new MessageEvent('message', { data: response }));
+        });
+      }, 0);
+    },
+    terminate() {
+      terminated = true;
+    }
+  };
+  return worker;
+}
+
+function createDefaultWorker(): ComputeWorker {
+  if (typeof Worker === 'undefined') {
+    return createInlineWorker();
+  }
+  return new Worker(new URL('../workers/compute.worker.ts', import.meta.url), { type: 'module' });
+}
@@ -16,6 +16,27 @@ export interface DaylightInfo {
   nightLength: number;           // Hours of darkness
   isAlwaysDay: boolean;          // 24h sun (polar day)
   isAlwaysNight: boolean;        // 24h dark (polar night)
+  crossings: SunCrossing[];      // Every sunrise and sunset in the day, in order
+  polarTransition: PolarTransition | null; // Polar day or night beginning or ending this day
+}
+
+/**
+ * Time span searched for sun events, e.g. a local day (end exclusive)
+ */
+export interface DayWindow {
+  start: Date;
+  end: Date;
+}
+
+export type PolarTransition = 'polar-day-start' | 'polar-day-end' | 'polar-night-start' | 'polar-night-end';
+
+/**
+ * The sun rising or setting through an altitude
+ */
+export interface SunCrossing {
+  time: Date;
+  rising: boolean;
+  polarTransition?: PolarTransition; // The sun stays up/down for a day or more after (start) or before (end)
 }
 
 /**
@@ -32,60 +53,241 @@ export enum TwilightType {
  */
 export const SUNRISE_SUNSET_ALTITUDE = -0.833;
 
-import { calculateSunPosition, getJulianDay, getJulianCentury, cosDeg, sinDeg } from './solar';
+/** Sun altitude at which golden hour begins (evening) or ends (morning) */
+export const GOLDEN_HOUR_ALTITUDE = 6;
+
+/** Sun altitude separating blue hour (below) from the brighter civil twilight */
+export const BLUE_HOUR_ALTITUDE = -4;
+
+// Parts of SUNRISE_SUNSET_ALTITUDE: the sun's semi-diameter and the
+// refraction at a sea-level horizon
+const SUN_SEMI_DIAMETER = 0.266;
+const HORIZON_REFRACTION = 0.567;
+
+/** Coefficient of terrestrial refraction: light from the horizon bends down, reducing the dip */
+const TERRESTRIAL_REFRACTION = 0.13;
+
+const EARTH_RADIUS_M = 6371000;
+const FEET_TO_METERS = 0.3048;
+
+/** Crossings are bracketed by sampling the sun this often, then bisected to CROSSING_PRECISION_MS */
+const SCAN_STEP_MINUTES = 10;
+const CROSSING_PRECISION_MS = 1000;
+
+const DAY_MS = 24 * 3600000;
+
+import { HorizonDefinition, SolarModel, TwilightPhase } from '@/types';
+import { getJulianDay, getJulianCentury, cosDeg, sinDeg, acosDeg } from './solar';
+import { startOfLocalDay } from './timezone';
+import { getSunPosition } from './spa';
+
+/**
+ * Apparent dip of the horizon below eye level for an observer above the surface
+ * About 3.2° at FL370 (3.4° geometric, less terrestrial refraction)
+ *
+ * @param altitude Observer altitude in feet
+ * @returns Degrees
+ */
+export function getHorizonDip(altitude: number): number {
+  const height = Math.max(0, altitude) * FEET_TO_METERS;
+  const geometricDip = acosDeg(EARTH_RADIUS_M / (EARTH_RADIUS_M + height));
+  return geometricDip * Math.sqrt(1 - TERRESTRIAL_REFRACTION);
+}
+
+/**
+ * Astronomical refraction at the horizon for an observer at altitude
+ * Scales the sea-level value with air density (ISA pressure and temperature).
+ *
+ * @param altitude Observer altitude in feet
+ * @returns Degrees
+ */
+export function getHorizonRefraction(altitude: number): number {
+  const height = Math.max(0, altitude) * FEET_TO_METERS;
+  const temperature = Math.max(216.65, 288.15 - 0.0065 * height);
+  const pressureRatio = height <= 11000
+    ? Math.pow(1 - 2.25577e-5 * height, 5.25588)
+    : 0.22336 * Math.exp(-(height - 11000) / 6341.62);
+  return HORIZON_REFRACTION * pressureRatio * (288.15 / temperature);
+}
+
+/**
+ * Sun altitude at which the sun's upper limb touches the horizon
+ * 'ground' is the standard sea-level definition (SUNRISE_SUNSET_ALTITUDE);
+ * 'window' is the horizon seen from the aircraft, lowered by the dip and
+ * with the thinner air's smaller refraction.
+ *
+ * @param altitude Observer altitude in feet
+ */
+export function getSunriseSunsetAltitude(altitude: number = 0, horizon: HorizonDefinition = 'ground'): number {
+  if (horizon === 'ground') {
+    return SUNRISE_SUNSET_ALTITUDE;
+  }
+  return -(SUN_SEMI_DIAMETER + getHorizonRefraction(altitude) + getHorizonDip(altitude));
+}
+
+/**
+ * How far the horizon of a definition lies below the ground-level horizon
+ * Applies to the rise/set altitude of any body (e.g. the Moon).
+ */
+export function getHorizonDepression(altitude: number = 0, horizon: HorizonDefinition = 'ground'): number {
+  return SUNRISE_SUNSET_ALTITUDE - getSunriseSunsetAltitude(altitude, horizon);
+}
+
+/** Display names of the light phases, brightest first */
+export const TWILIGHT_PHASE_LABELS: Record<TwilightPhase, string> = {
+  'day': 'Day',
+  'golden-hour': 'Golden hour',
+  'civil': 'Civil twilight',
+  'nautical': 'Nautical twilight',
+  'astronomical': 'Astronomical twilight',
+  'night': 'Night'
+};
+
+/**
+ * Classify the light at a sun altitude into day, golden hour, twilight or night
+ * With the window horizon every boundary drops with the horizon, as sunrise does.
+ *
+ * @param sunAltitude Sun altitude in degrees
+ * @param altitude Observer altitude in feet
+ */
+export function getTwilightPhase(
+  sunAltitude: number,
+  altitude: number = 0,
+  horizon: HorizonDefinition = 'ground'
+): TwilightPhase {
+  const depression = getHorizonDepression(altitude, horizon);
+  if (sunAltitude > GOLDEN_HOUR_ALTITUDE - depression) return 'day';
+  if (sunAltitude > SUNRISE_SUNSET_ALTITUDE - depression) return 'golden-hour';
+  if (sunAltitude > TwilightType.CIVIL - depression) return 'civil';
+  if (sunAltitude > TwilightType.NAUTICAL - depression) return 'nautical';
+  if (sunAltitude > TwilightType.ASTRONOMICAL - depression) return 'astronomical';
+  return 'night';
+}
 
 /**
- * Calculate complete daylight information for a location and date
- * Handles normal conditions as well as polar day/night edge cases
+ * Calculate complete daylight information for a location and day
+ * Built on findSunCrossings, so it handles any longitude as well as days
+ * when polar day or night begins or ends
+ *
+ * @param date Day to describe: its UTC calendar date, as a mean solar day at
+ *   the longitude, unless a day window is given
+ * @param day Window to search, e.g. a timezone's civil day from getTimeZoneDay
+ * @param solarModel Sun position algorithm; 'spa' for sunrise times good to seconds
  */
 export function calculateDaylightInfo(
   lat: number,
   lon: number,
-  date: Date
+  date: Date,
+  day: DayWindow = getSolarDay(lon, date),
+  solarModel: SolarModel = 'meeus'
 ): DaylightInfo {
-  const solarNoon = calculateSolarNoon(lat, lon, date);
-  const solarMidnight = calculateSolarMidnight(lat, lon, date);
-
-  // Check for polar day/night conditions
-  const noonSun = calculateSunPosition(lat, lon, solarNoon);
-  const midnightSun = calculateSunPosition(lat, lon, solarMidnight);
-
-  const isAlwaysDay = midnightSun.altitude > SUNRISE_SUNSET_ALTITUDE;
-  const isAlwaysNight = noonSun.altitude < SUNRISE_SUNSET_ALTITUDE;
-
-  let sunrise: Date | null = null;
-  let sunset: Date | null = null;
-  let civilTwilightStart: Date | null = null;
-  let civilTwilightEnd: Date | null = null;
-
-  // Only calculate sunrise/sunset if not in polar conditions
-  if (!isAlwaysDay && !isAlwaysNight) {
-    sunrise = findSunEvent(lat, lon, date, solarNoon, SUNRISE_SUNSET_ALTITUDE, 'rise');
-    sunset = findSunEvent(lat, lon, date, solarNoon, SUNRISE_SUNSET_ALTITUDE, 'set');
-    civilTwilightStart = findSunEvent(lat, lon, date, solarNoon, TwilightType.CIVIL, 'rise');
-    civilTwilightEnd = findSunEvent(lat, lon, date, solarNoon, TwilightType.CIVIL, 'set');
-  }
+  const start = day.start.getTime();
+  const end = day.end.getTime();
+
+  // Solar noon on the local mean date at the middle of the window
+  const middle = new Date((start + end) / 2 + (lon / 15) * 3600000);
+  const solarNoon = calculateSolarNoon(lat, lon, middle);
+  const solarMidnight = calculateSolarMidnight(lat, lon, middle);
+
+  const crossings = findSunCrossings(lat, lon, day, SUNRISE_SUNSET_ALTITUDE, solarModel);
+  const civilCrossings = findSunCrossings(lat, lon, day, TwilightType.CIVIL, solarModel);
 
-  // Calculate day length
-  const dayLength = isAlwaysDay ? 24 
-    : isAlwaysNight ? 0
-    : sunrise && sunset ? (sunset.getTime() - sunrise.getTime()) / 3600000
-    : 0;
+  // Hours with the sun up, walking the crossings from the start of the window
+  let up = getSunPosition(lat, lon, day.start, solarModel).altitude > SUNRISE_SUNSET_ALTITUDE;
+  const upAtStart = up;
+  let from = start;
+  let upMilliseconds = 0;
+  crossings.forEach(crossing => {
+    if (up) upMilliseconds += crossing.time.getTime() - from;
+    up = crossing.rising;
+    from = crossing.time.getTime();
+  });
+  if (up) upMilliseconds += end - from;
+
+  const dayLength = upMilliseconds / 3600000;
+  const lastSetting = (list: SunCrossing[]) => [...list].reverse().find(c => !c.rising)?.time ?? null;
 
   return {
-    sunrise,
-    sunset,
+    sunrise: crossings.find(c => c.rising)?.time ?? null,
+    sunset: lastSetting(crossings),
     solarNoon,
     solarMidnight,
-    civilTwilightStart,
-    civilTwilightEnd,
+    civilTwilightStart: civilCrossings.find(c => c.rising)?.time ?? null,
+    civilTwilightEnd: lastSetting(civilCrossings),
     dayLength,
-    nightLength: 24 - dayLength,
-    isAlwaysDay,
-    isAlwaysNight
+    nightLength: (end - start) / 3600000 - dayLength,
+    isAlwaysDay: crossings.length === 0 && upAtStart,
+    isAlwaysNight: crossings.length === 0 && !upAtStart,
+    crossings,
+    polarTransition: crossings.find(c => c.polarTransition)?.polarTransition ?? null
   };
 }
 
+/**
+ * Mean solar day at a longitude: local mean midnight to midnight on the UTC
+ * calendar date of `date`, so solar noon falls mid-window at any longitude
+ */
+export function getSolarDay(lon: number, date: Date): DayWindow {
+  const midnight = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const start = midnight - (lon / 15) * 3600000;
+  return { start: new Date(start), end: new Date(start + DAY_MS) };
+}
+
+/**
+ * Civil day in a timezone: local midnight to midnight on the day containing
+ * an instant (23 or 25 hours long when daylight saving time changes)
+ */
+export function getTimeZoneDay(date: Date, timeZone: string): DayWindow {
+  const start = startOfLocalDay(date, timeZone);
+  return {
+    start,
+    end: startOfLocalDay(new Date(start.getTime() + DAY_MS * 1.5), timeZone)
+  };
+}
+
+/**
+ * Find every time the sun crosses an altitude within a window
+ * Scans the altitude every SCAN_STEP_MINUTES and bisects each bracketed
+ * crossing to a second. A crossing after which the sun stays on the same
+ * side of the altitude for a day or more, or before which it had, is
+ * flagged as the start or end of a polar day or night.
+ *
+ * @param targetAltitude Sun altitude in degrees, e.g. SUNRISE_SUNSET_ALTITUDE or a TwilightType
+ * @param solarModel Sun position algorithm; 'spa' for sunrise times good to seconds
+ */
+export function findSunCrossings(
+  lat: number,
+  lon: number,
+  window: DayWindow,
+  targetAltitude: number = SUNRISE_SUNSET_ALTITUDE,
+  solarModel: SolarModel = 'meeus'
+): SunCrossing[] {
+  const start = window.start.getTime();
+  const end = window.end.getTime();
+
+  // A day either side shows how long the sun stays up or down around each crossing
+  const scanStart = start - DAY_MS;
+  const scanEnd = end + DAY_MS;
+  const crossings = scanSunCrossings(lat, lon, scanStart, scanEnd, targetAltitude, solarModel);
+
+  return crossings
+    .map((crossing, i): SunCrossing => {
+      const time = crossing.time.getTime();
+      const before = time - (i > 0 ? crossings[i - 1].time.getTime() : scanStart);
+      const after = (i < crossings.length - 1 ? crossings[i + 1].time.getTime() : scanEnd) - time;
+
+      let polarTransition: PolarTransition | undefined;
+      if (after >= DAY_MS) {
+        polarTransition = crossing.rising ? 'polar-day-start' : 'polar-night-start';
+      } else if (before >= DAY_MS) {
+        polarTransition = crossing.rising ? 'polar-night-end' : 'polar-day-end';
+      }
+
+      return { ...crossing, ...(polarTransition && { polarTransition }) };
+    })
+    .filter(crossing => crossing.time.getTime() >= start && crossing.time.getTime() < end);
+}
+
 /**
  * Calculate solar noon (time when sun reaches highest altitude)
  * Uses equation of time to correct for Earth's elliptical orbit and axial tilt
@@ -109,14 +311,10 @@ export function calculateSolarNoon(_lat: number, lon: number, date: Date): Date
   
   const solarNoonCorrected = solarNoonApprox + eot / 60;
   
-  // Create date at solar noon
-  const noonDate = new Date(date);
-  noonDate.setUTCHours(Math.floor(solarNoonCorrected));
-  noonDate.setUTCMinutes((solarNoonCorrected % 1) * 60);
-  noonDate.setUTCSeconds(0);
-  noonDate.setUTCMilliseconds(0);
-  
-  return noonDate;
+  // Hours from UTC midnight of the date; may fall on the previous or next
+  // UTC day far from Greenwich. Rounded to the minute.
+  const midnight = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return new Date(midnight + Math.floor(solarNoonCorrected * 60) * 60000);
 }
 
 /**
@@ -129,64 +327,39 @@ export function calculateSolarMidnight(lat: number, lon: number, date: Date): Da
 }
 
 /**
- * Find exact time when sun crosses a given altitude
- * Uses binary search for precision to within ~10 seconds
- * 
- * @param targetAltitude Altitude to find (e.g., -0.833 for sunrise/sunset)
- * @param direction 'rise' searches before noon, 'set' searches after noon
+ * Every crossing of an altitude between two instants (ms), in order
  */
-function findSunEvent(
+function scanSunCrossings(
   lat: number,
   lon: number,
-  date: Date,
-  solarNoon: Date,
+  start: number,
+  end: number,
   targetAltitude: number,
-  direction: 'rise' | 'set'
-): Date | null {
-  // Define search window
-  let low: Date, high: Date;
-  
-  if (direction === 'rise') {
-    // Search from midnight to solar noon
-    low = new Date(date);
-    low.setUTCHours(0, 0, 0, 0);
-    high = solarNoon;
-  } else {
-    // Search from solar noon to midnight
-    low = solarNoon;
-    high = new Date(date);
-    high.setUTCHours(23, 59, 59, 999);
-  }
+  solarModel: SolarModel
+): SunCrossing[] {
+  const isUp = (time: number) => getSunPosition(lat, lon, new Date(time), solarModel).altitude > targetAltitude;
+  const crossings: SunCrossing[] = [];
 
-  const MAX_ITERATIONS = 20;
-  const PRECISION_MS = 10000; // 10 seconds
-
-  // Binary search for the exact crossing time
-  for (let i = 0; i < MAX_ITERATIONS; i++) {
-    if (high.getTime() - low.getTime() < PRECISION_MS) {
-      break;
-    }
+  let low = start;
+  let lowUp = isUp(start);
+  while (low < end) {
+    const high = Math.min(low + SCAN_STEP_MINUTES * 60000, end);
+    const highUp = isUp(high);
 
-    const mid = new Date((low.getTime() + high.getTime()) / 2);
-    const sunPos = calculateSunPosition(lat, lon, mid);
-
-    if (direction === 'rise') {
-      // Before sunrise, altitude is below target
-      if (sunPos.altitude < targetAltitude) {
-        low = mid;
-      } else {
-        high = mid;
-      }
-    } else {
-      // Before sunset, altitude is above target
-      if (sunPos.altitude > targetAltitude) {
-        low = mid;
-      } else {
-        high = mid;
+    if (highUp !== lowUp) {
+      let a = low;
+      let b = high;
+      while (b - a > CROSSING_PRECISION_MS) {
+        const mid = (a + b) / 2;
+        if (isUp(mid) === lowUp) a = mid;
+        else b = mid;
       }
+      crossings.push({ time: new Date(Math.round((a + b) / 2)), rising: highUp });
     }
+
+    low = high;
+    lowUp = highUp;
   }
 
-  return high;
+  return crossings;
 }
-
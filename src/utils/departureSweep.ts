@@ -0,0 +1,163 @@
+/**
+ * Departure-time sweep: the same route flown at a series of departure
+ * times, to compare sun exposure across the day
+ */
+
+import { AircraftSide, DepartureSlot, FlightTimeline, ItineraryLeg } from '@/types';
+import { generateFlightTimeline, generateItineraryTimeline, TimelineOptions } from './timeline';
+import { analyzeFlightSunExposure } from './aircraft';
+import { localTimeToUtc } from './timezone';
+import { createSunEphemerisCache } from './sunBatch';
+
+export interface DepartureSweepOptions extends TimelineOptions {
+  intervalMinutes?: number;  // Time between departures
+  spanMinutes?: number;      // Length of the swept window
+}
+
+/** Called after each departure of a sweep is analysed */
+export type SweepProgressCallback = (completed: number, total: number) => void;
+
+export const DEFAULT_SWEEP_INTERVAL_MINUTES = 15;
+export const DEFAULT_SWEEP_SPAN_MINUTES = 24 * 60;
+
+/** Guards against sweeps that would take too long to compute */
+const MAX_SWEEP_SLOTS = 500;
+
+/**
+ * Generate and analyse a flight for every departure in a time window
+ *
+ * @param legs Route to fly; a single leg for a direct flight
+ * @param start First departure time
+ * @param onProgress Reports each completed departure
+ * @returns One slot per departure, in departure order (the window end is excluded)
+ * @throws Error when the route is empty or the sweep has too many slots
+ */
+export function sweepDepartureTimes(
+  legs: ItineraryLeg[],
+  start: Date,
+  options: DepartureSweepOptions = {},
+  onProgress?: SweepProgressCallback
+): DepartureSlot[] {
+  const {
+    intervalMinutes = DEFAULT_SWEEP_INTERVAL_MINUTES,
+    spanMinutes = DEFAULT_SWEEP_SPAN_MINUTES,
+    ...timelineOptions
+  } = options;
+
+  if (legs.length === 0) {
+    throw new Error('Route must have at least one leg');
+  }
+  if (!(intervalMinutes > 0) || !(spanMinutes > 0)) {
+    throw new Error('Sweep interval and span must be positive');
+  }
+
+  const count = Math.ceil(spanMinutes / intervalMinutes);
+  if (count > MAX_SWEEP_SLOTS) {
+    throw new Error(`Sweep would generate ${count} flights (at most ${MAX_SWEEP_SLOTS})`);
+  }
+
+  // Overlapping flights share the sun's time-dependent terms
+  const sharedOptions = withSunCache(timelineOptions);
+  const slots: DepartureSlot[] = [];
+  for (let i = 0; i < count; i++) {
+    const departureTime = new Date(start.getTime() + i * intervalMinutes * 60000);
+    slots.push(analyzeDeparture(legs, departureTime, sharedOptions));
+    onProgress?.(i + 1, count);
+  }
+  return slots;
+}
+
+/**
+ * Fly the route on every day of a year at the same local departure time
+ * The UTC departure follows daylight saving changes in the timezone.
+ *
+ * @param localTime Departure time, HH:mm, local to timeZone
+ * @param onProgress Reports each completed day
+ * @returns One slot per calendar day (365 or 366)
+ */
+export function sweepCalendarYear(
+  legs: ItineraryLeg[],
+  year: number,
+  localTime: string,
+  timeZone: string,
+  options: TimelineOptions = {},
+  onProgress?: SweepProgressCallback
+): DepartureSlot[] {
+  if (legs.length === 0) {
+    throw new Error('Route must have at least one leg');
+  }
+
+  const dates: string[] = [];
+  for (let day = new Date(Date.UTC(year, 0, 1)); day.getUTCFullYear() === year; day.setUTCDate(day.getUTCDate() + 1)) {
+    dates.push(day.toISOString().slice(0, 10));
+  }
+
+  const sharedOptions = withSunCache(options);
+  const slots: DepartureSlot[] = [];
+  dates.forEach((date, i) => {
+    const departureTime = localTimeToUtc(date, localTime, timeZone);
+    slots.push(analyzeDeparture(legs, departureTime, sharedOptions));
+    onProgress?.(i + 1, dates.length);
+  });
+  return slots;
+}
+
+/**
+ * Generate and analyse one departure of a sweep
+ */
+export function analyzeDeparture(
+  legs: ItineraryLeg[],
+  departureTime: Date,
+  options: TimelineOptions = {}
+): DepartureSlot {
+  return analyzeSlot(generateSweepTimeline(legs, departureTime, options), departureTime);
+}
+
+/**
+ * The window side that sees the sun longest; NONE when the sun is never seen
+ */
+export function getSunnySide(slot: DepartureSlot): AircraftSide {
+  const sides: [AircraftSide, number][] = [
+    ['LEFT', slot.leftSideMinutes],
+    ['RIGHT', slot.rightSideMinutes],
+    ['OVERHEAD', slot.overheadMinutes]
+  ];
+  const [side, minutes] = sides.reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  return minutes > 0 ? side : 'NONE';
+}
+
+// One sun ephemeris cache for every flight of a sweep
+function withSunCache(options: TimelineOptions): TimelineOptions {
+  return { ...options, sunCache: options.sunCache ?? createSunEphemerisCache(options.solarModel) };
+}
+
+function generateSweepTimeline(
+  legs: ItineraryLeg[],
+  departureTime: Date,
+  options: TimelineOptions
+): FlightTimeline {
+  if (legs.length > 1) {
+    return generateItineraryTimeline(legs, departureTime, options);
+  }
+
+  const [leg] = legs;
+  return generateFlightTimeline(leg.origin, leg.destination, departureTime, {
+    ...options,
+    blockMinutes: leg.blockMinutes ?? options.blockMinutes
+  });
+}
+
+function analyzeSlot(timeline: FlightTimeline, departureTime: Date): DepartureSlot {
+  const analysis = analyzeFlightSunExposure(timeline);
+
+  return {
+    departureTime,
+    arrivalTime: new Date(departureTime.getTime() + timeline.totalDuration * 60000),
+    leftSideMinutes: analysis.leftSideMinutes,
+    rightSideMinutes: analysis.rightSideMinutes,
+    overheadMinutes: analysis.overheadMinutes,
+    noSunMinutes: analysis.noSunMinutes,
+    sunrises: timeline.sunEvents.filter(event => event.type === 'sunrise').length,
+    sunsets: timeline.sunEvents.filter(event => event.type === 'sunset').length
+  };
+}
@@ -0,0 +1,320 @@
+/**
+ * Vertical flight profile: taxi, climb, cruise, descent and approach
+ *
+ * The airborne part is integrated in small time steps. Climb is scheduled by
+ * time since take-off, descent and approach by distance to go, and the aircraft
+ * always follows the lower of the two - so short hops level off early or never
+ * reach cruise at all, just like real ones.
+ */
+
+import { FlightPhase } from '@/types';
+
+/**
+ * Profile tuning parameters (speeds in km/h, altitudes in feet)
+ */
+export interface FlightProfileOptions {
+  cruisingSpeed: number;       // True airspeed at cruise, km/h
+  cruisingAltitude: number;    // Cruise altitude, feet
+  climbRate?: number;          // Average climb rate, ft/min
+  descentGradient?: number;    // Descent path, feet lost per km flown
+  taxiOutMinutes?: number;     // Pushback to take-off
+  taxiInMinutes?: number;      // Touchdown to gate
+  // Ground speed for a given airspeed at a point of the route (e.g. with wind).
+  // Defaults to still air, where ground speed equals airspeed.
+  groundSpeed?: (distance: number, altitude: number, airspeed: number) => number;
+}
+
+/**
+ * Aircraft state at a moment of the flight
+ */
+export interface ProfileSample {
+  elapsedMinutes: number;  // Since pushback
+  distance: number;        // km flown along the route
+  altitude: number;        // feet
+  speed: number;           // Ground speed km/h
+  airspeed: number;        // True airspeed km/h
+  phase: FlightPhase;
+}
+
+/**
+ * Complete flight profile from gate to gate
+ */
+export interface FlightProfile {
+  samples: ProfileSample[];
+  totalDistance: number;   // km
+  totalDuration: number;   // minutes, gate to gate (block time)
+  airborneMinutes: number;
+  topOfClimbAltitude: number; // Highest altitude actually reached, feet
+  // Fitted profiles only: scheduled block time the route cannot realistically
+  // take, minutes. Negative when the schedule is too short to fly, positive for
+  // padding beyond MAX_EXTRA_TAXI_MINUTES; 0 when the schedule was met.
+  blockMismatch?: number;
+}
+
+export const TAXI_SPEED_KMH = 20;
+export const TAKEOFF_SPEED_KMH = 290;
+export const LANDING_SPEED_KMH = 260;
+export const APPROACH_SPEED_KMH = 400;   // Speed at the start of the approach
+export const APPROACH_ALTITUDE_FT = 3000; // Where descent hands over to approach
+export const APPROACH_GRADIENT_FT_PER_KM = 172; // ~3° glide path
+
+const DEFAULT_CLIMB_RATE = 1800;        // ft/min average to cruise
+const DEFAULT_DESCENT_GRADIENT = 180;   // ft/km, the "3 to 1" rule of thumb
+const DEFAULT_TAXI_OUT_MINUTES = 15;
+const DEFAULT_TAXI_IN_MINUTES = 7;
+
+// Block-time fitting: cruise speed may vary within these factors of nominal,
+// anything left over is taken up by taxi time
+const MIN_FIT_SPEED_FACTOR = 0.8;
+const MAX_FIT_SPEED_FACTOR = 1.15;
+const MIN_TAXI_MINUTES = 2;
+const FIT_ITERATIONS = 20;
+// Padding beyond the slowest profile still taken as plausible (queues, holding)
+const MAX_EXTRA_TAXI_MINUTES = 60;
+
+const STEP_MINUTES = 1 / 12; // 5 second integration step
+const MIN_GROUND_SPEED_KMH = 50; // Keeps integration moving in extreme headwinds
+
+/**
+ * Build the gate-to-gate profile for a route of the given length
+ *
+ * @param totalDistance Route length in km
+ * @param options Cruise parameters and optional tuning
+ * @returns Profile with dense samples, suitable for interpolation
+ */
+export function buildFlightProfile(
+  totalDistance: number,
+  options: FlightProfileOptions
+): FlightProfile {
+  const {
+    cruisingSpeed,
+    cruisingAltitude,
+    climbRate = DEFAULT_CLIMB_RATE,
+    descentGradient = DEFAULT_DESCENT_GRADIENT,
+    taxiOutMinutes = DEFAULT_TAXI_OUT_MINUTES,
+    taxiInMinutes = DEFAULT_TAXI_IN_MINUTES,
+    groundSpeed = (_distance: number, _altitude: number, airspeed: number) => airspeed
+  } = options;
+
+  const climbMinutes = Math.max(cruisingAltitude / climbRate, STEP_MINUTES);
+  const approachDistance = APPROACH_ALTITUDE_FT / APPROACH_GRADIENT_FT_PER_KM;
+  const descentDistance = Math.max(cruisingAltitude - APPROACH_ALTITUDE_FT, 0) / descentGradient;
+
+  // Climb: rate decays with altitude, speed builds up towards cruise
+  const climbState = (t: number) => {
+    const f = Math.min(t / climbMinutes, 1);
+    return {
+      altitude: cruisingAltitude * (1 - (1 - f) * (1 - f)),
+      speed: TAKEOFF_SPEED_KMH + (cruisingSpeed - TAKEOFF_SPEED_KMH) * f
+    };
+  };
+
+  // Descent and approach: fixed path over the ground ending at the runway
+  const descentState = (remaining: number) => {
+    if (remaining <= approachDistance) {
+      const f = remaining / approachDistance;
+      return {
+        altitude: APPROACH_ALTITUDE_FT * f,
+        speed: LANDING_SPEED_KMH + (APPROACH_SPEED_KMH - LANDING_SPEED_KMH) * f
+      };
+    }
+    const f = descentDistance > 0
+      ? Math.min((remaining - approachDistance) / descentDistance, 1)
+      : 1;
+    return {
+      altitude: APPROACH_ALTITUDE_FT + (cruisingAltitude - APPROACH_ALTITUDE_FT) * f,
+      speed: APPROACH_SPEED_KMH + (cruisingSpeed - APPROACH_SPEED_KMH) * f
+    };
+  };
+
+  const samples: ProfileSample[] = [];
+
+  // Taxi out: holding at the origin
+  samples.push({ elapsedMinutes: 0, distance: 0, altitude: 0, speed: TAXI_SPEED_KMH, airspeed: 0, phase: 'taxi' });
+
+  let t = 0;
+  let distance = 0;
+  let topOfClimbAltitude = 0;
+
+  while (distance < totalDistance) {
+    const remaining = totalDistance - distance;
+    const climb = climbState(t);
+    const descent = descentState(remaining);
+
+    let phase: FlightPhase;
+    let altitude: number;
+    let airspeed: number;
+
+    if (descent.altitude < climb.altitude) {
+      altitude = descent.altitude;
+      airspeed = Math.min(descent.speed, climb.speed);
+      phase = remaining <= approachDistance ? 'approach' : 'descent';
+    } else if (t < climbMinutes) {
+      altitude = climb.altitude;
+      airspeed = climb.speed;
+      phase = 'climb';
+    } else {
+      altitude = cruisingAltitude;
+      airspeed = cruisingSpeed;
+      phase = 'cruise';
+    }
+
+    const speed = Math.max(groundSpeed(distance, altitude, airspeed), MIN_GROUND_SPEED_KMH);
+
+    topOfClimbAltitude = Math.max(topOfClimbAltitude, altitude);
+    samples.push({
+      elapsedMinutes: taxiOutMinutes + t,
+      distance,
+      altitude,
+      speed,
+      airspeed,
+      phase
+    });
+
+    // Advance, landing exactly on the runway threshold
+    const step = Math.min(STEP_MINUTES, (remaining / speed) * 60);
+    distance = Math.min(distance + speed * step / 60, totalDistance);
+    t += step;
+  }
+
+  const airborneMinutes = t;
+
+  samples.push({
+    elapsedMinutes: taxiOutMinutes + airborneMinutes,
+    distance: totalDistance,
+    altitude: 0,
+    speed: samples[samples.length - 1].speed,
+    airspeed: LANDING_SPEED_KMH,
+    phase: 'approach'
+  });
+
+  // Taxi in: holding at the destination
+  const totalDuration = taxiOutMinutes + airborneMinutes + taxiInMinutes;
+  samples.push({
+    elapsedMinutes: totalDuration,
+    distance: totalDistance,
+    altitude: 0,
+    speed: TAXI_SPEED_KMH,
+    airspeed: 0,
+    phase: 'taxi'
+  });
+
+  return {
+    samples,
+    totalDistance,
+    totalDuration,
+    airborneMinutes,
+    topOfClimbAltitude
+  };
+}
+
+/**
+ * Build a profile whose gate-to-gate time matches a scheduled block time
+ * Cruise speed is adjusted first (within realistic limits); a schedule longer
+ * than the slowest profile gets extra taxi-out time, and one shorter than the
+ * fastest profile has its taxi times cut (to a minimum of 2 minutes each).
+ * Blocks too short even then yield the fastest possible profile, and the
+ * unreachable part is reported as `blockMismatch` - as is padding far beyond
+ * the slowest profile.
+ *
+ * @param totalDistance Route length in km
+ * @param options Nominal cruise parameters and optional tuning
+ * @param blockMinutes Scheduled pushback-to-gate time
+ */
+export function fitFlightProfile(
+  totalDistance: number,
+  options: FlightProfileOptions,
+  blockMinutes: number
+): FlightProfile {
+  const withSpeedFactor = (factor: number, taxi: Partial<FlightProfileOptions> = {}) =>
+    buildFlightProfile(totalDistance, { ...options, ...taxi, cruisingSpeed: options.cruisingSpeed * factor });
+
+  const slowest = withSpeedFactor(MIN_FIT_SPEED_FACTOR);
+  const fastest = withSpeedFactor(MAX_FIT_SPEED_FACTOR);
+  const taxiOut = options.taxiOutMinutes ?? DEFAULT_TAXI_OUT_MINUTES;
+  const taxiIn = options.taxiInMinutes ?? DEFAULT_TAXI_IN_MINUTES;
+
+  if (blockMinutes >= slowest.totalDuration) {
+    const padding = blockMinutes - slowest.totalDuration;
+    return {
+      ...withSpeedFactor(MIN_FIT_SPEED_FACTOR, { taxiOutMinutes: taxiOut + padding }),
+      blockMismatch: padding > MAX_EXTRA_TAXI_MINUTES ? padding : 0
+    };
+  }
+
+  if (blockMinutes <= fastest.totalDuration) {
+    const taxiBudget = Math.max(blockMinutes - fastest.airborneMinutes, 2 * MIN_TAXI_MINUTES);
+    const scale = Math.min(1, taxiBudget / (taxiOut + taxiIn));
+    const profile = withSpeedFactor(MAX_FIT_SPEED_FACTOR, {
+      taxiOutMinutes: Math.max(taxiOut * scale, MIN_TAXI_MINUTES),
+      taxiInMinutes: Math.max(taxiIn * scale, MIN_TAXI_MINUTES)
+    });
+    // Allow an integration step of rounding before calling it unreachable
+    const shortfall = blockMinutes - profile.totalDuration;
+    return { ...profile, blockMismatch: shortfall < -STEP_MINUTES ? shortfall : 0 };
+  }
+
+  // Block time shrinks as cruise speed grows: bisect on the speed factor
+  let low = MIN_FIT_SPEED_FACTOR;
+  let high = MAX_FIT_SPEED_FACTOR;
+  for (let i = 0; i < FIT_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (withSpeedFactor(mid).totalDuration > blockMinutes) low = mid;
+    else high = mid;
+  }
+
+  // `high` is just fast enough; the last fraction of a minute goes to taxi-out
+  const fitted = withSpeedFactor(high);
+  return {
+    ...withSpeedFactor(high, { taxiOutMinutes: taxiOut + (blockMinutes - fitted.totalDuration) }),
+    blockMismatch: 0
+  };
+}
+
+/**
+ * Aircraft state at an arbitrary time, interpolated between profile samples
+ *
+ * @param profile Profile from buildFlightProfile
+ * @param elapsedMinutes Minutes since pushback (clamped to the block time)
+ */
+export function sampleFlightProfile(
+  profile: FlightProfile,
+  elapsedMinutes: number
+): ProfileSample {
+  const { samples } = profile;
+  const t = Math.max(0, Math.min(elapsedMinutes, profile.totalDuration));
+
+  // Before take-off / after landing the aircraft is taxiing
+  if (t < samples[1].elapsedMinutes) {
+    return { ...samples[0], elapsedMinutes: t };
+  }
+  if (t >= samples[samples.length - 2].elapsedMinutes) {
+    return { ...samples[samples.length - 1], elapsedMinutes: t };
+  }
+
+  // Binary search for the enclosing pair of samples
+  let low = 1;
+  let high = samples.length - 2;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (samples[mid].elapsedMinutes <= t) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  const a = samples[low];
+  const b = samples[high];
+  const span = b.elapsedMinutes - a.elapsedMinutes;
+  const f = span > 0 ? (t - a.elapsedMinutes) / span : 0;
+
+  return {
+    elapsedMinutes: t,
+    distance: a.distance + (b.distance - a.distance) * f,
+    altitude: a.altitude + (b.altitude - a.altitude) * f,
+    speed: a.speed + (b.speed - a.speed) * f,
+    airspeed: a.airspeed + (b.airspeed - a.airspeed) * f,
+    phase: a.phase
+  };
+}
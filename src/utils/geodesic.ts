@@ -1,13 +1,44 @@
 /**
  * Geodesic calculations for great circle routes
- * Based on Haversine formula and spherical interpolation
+ * Based on Haversine formula and spherical interpolation, with an optional
+ * WGS84 ellipsoid model (Vincenty inverse/direct solutions)
  */
 
-import { Waypoint } from '@/types';
+import { Waypoint, RouteWarning } from '@/types';
 
 // Earth's mean radius in kilometers
 const EARTH_RADIUS_KM = 6371;
 
+// WGS84 ellipsoid
+const WGS84_A = 6378137;               // Semi-major axis (m)
+const WGS84_F = 1 / 298.257223563;     // Flattening
+const WGS84_B = WGS84_A * (1 - WGS84_F); // Semi-minor axis (m)
+
+// Within this many degrees of the antipode the route is flagged as unstable
+const NEAR_ANTIPODAL_DEG = 1;
+
+// Closer than this (radians) to the antipode the great circle is undefined
+const ANTIPODAL_TOLERANCE_RAD = 1e-6;
+
+const VINCENTY_MAX_ITERATIONS = 200;
+const VINCENTY_TOLERANCE = 1e-12;
+
+/**
+ * Earth model used for distances, bearings and route interpolation
+ * - spherical: mean-radius sphere (fast, ~0.5% distance error)
+ * - wgs84: WGS84 ellipsoid, accurate to well under a meter
+ */
+export type GeodesicModel = 'spherical' | 'wgs84';
+
+/**
+ * Solution of the inverse geodesic problem
+ */
+export interface GeodesicInverse {
+  distance: number;        // km
+  initialBearing: number;  // 0-360 at point 1
+  finalBearing: number;    // 0-360 at point 2
+}
+
 /**
  * Convert degrees to radians
  */
@@ -29,22 +60,29 @@ function toDegrees(radians: number): number {
  * @param lon1 Longitude of point 1 (degrees)
  * @param lat2 Latitude of point 2 (degrees)
  * @param lon2 Longitude of point 2 (degrees)
+ * @param model Earth model (defaults to spherical)
  * @returns Distance in kilometers
  */
 export function calculateDistance(
   lat1: number,
   lon1: number,
   lat2: number,
-  lon2: number
+  lon2: number,
+  model: GeodesicModel = 'spherical'
 ): number {
+  if (model === 'wgs84') {
+    return vincentyInverse(lat1, lon1, lat2, lon2).distance;
+  }
+
   const φ1 = toRadians(lat1);
   const φ2 = toRadians(lat2);
   const Δφ = toRadians(lat2 - lat1);
   const Δλ = toRadians(lon2 - lon1);
 
-  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+  // Clamped: rounding can push a just past 1 for antipodal points
+  const a = Math.min(1, Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
             Math.cos(φ1) * Math.cos(φ2) *
-            Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+            Math.sin(Δλ / 2) * Math.sin(Δλ / 2));
   
   const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
   
@@ -54,14 +92,20 @@ export function calculateDistance(
 /**
  * Calculate initial bearing from point 1 to point 2
  * 
+ * @param model Earth model (defaults to spherical)
  * @returns Bearing in degrees (0-360, where 0=North, 90=East)
  */
 export function calculateInitialBearing(
   lat1: number,
   lon1: number,
   lat2: number,
-  lon2: number
+  lon2: number,
+  model: GeodesicModel = 'spherical'
 ): number {
+  if (model === 'wgs84') {
+    return vincentyInverse(lat1, lon1, lat2, lon2).initialBearing;
+  }
+
   const φ1 = toRadians(lat1);
   const φ2 = toRadians(lat2);
   const Δλ = toRadians(lon2 - lon1);
@@ -75,6 +119,235 @@ export function calculateInitialBearing(
   return (toDegrees(θ) + 360) % 360;
 }
 
+/**
+ * Check how a route relates to the antipode of its origin
+ * Near the antipode the great circle is ill-conditioned: a tiny change in
+ * either endpoint swings the route across the globe, and exactly at the
+ * antipode every great circle is equally short.
+ * 
+ * @returns A warning for antipodal or nearly antipodal routes, otherwise null
+ */
+export function getRouteWarning(
+  origin: { lat: number; lon: number },
+  destination: { lat: number; lon: number }
+): RouteWarning | null {
+  const angularDistance = toDegrees(
+    calculateDistance(origin.lat, origin.lon, destination.lat, destination.lon) / EARTH_RADIUS_KM
+  );
+  const fromAntipode = 180 - angularDistance;
+
+  if (toRadians(fromAntipode) < ANTIPODAL_TOLERANCE_RAD) {
+    return {
+      type: 'antipodal',
+      message: 'Origin and destination are antipodal: every great circle between them is equally short. ' +
+        'Showing the route that departs due north.',
+      angularDistance
+    };
+  }
+
+  if (fromAntipode < NEAR_ANTIPODAL_DEG) {
+    return {
+      type: 'near-antipodal',
+      message: `Destination is ${fromAntipode.toFixed(2)}° from the antipode of the origin: ` +
+        'the shortest route is very sensitive to the exact positions and real flights may take a different path.',
+      angularDistance
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Solve the inverse problem on the WGS84 ellipsoid (Vincenty, 1975)
+ * Distance and bearings between two points. Vincenty's iteration does not
+ * converge for nearly antipodal points; the spherical solution is returned
+ * for those.
+ * 
+ * @returns Distance in km and initial/final bearings in degrees
+ */
+export function vincentyInverse(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): GeodesicInverse {
+  return solveVincentyInverse(lat1, lon1, lat2, lon2) ?? {
+    distance: calculateDistance(lat1, lon1, lat2, lon2),
+    initialBearing: calculateInitialBearing(lat1, lon1, lat2, lon2),
+    finalBearing: (calculateInitialBearing(lat2, lon2, lat1, lon1) + 180) % 360
+  };
+}
+
+/**
+ * Vincenty inverse iteration; null when it fails to converge
+ */
+function solveVincentyInverse(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): GeodesicInverse | null {
+  const f = WGS84_F;
+  const L = toRadians(lon2 - lon1);
+  const U1 = Math.atan((1 - f) * Math.tan(toRadians(lat1)));
+  const U2 = Math.atan((1 - f) * Math.tan(toRadians(lat2)));
+  const sinU1 = Math.sin(U1), cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2), cosU2 = Math.cos(U2);
+
+  let λ = L;
+  let sinλ = 0, cosλ = 0;
+  let sinσ = 0, cosσ = 0, σ = 0;
+  let sinα = 0, cos2α = 0, cos2σm = 0;
+  let converged = false;
+
+  for (let i = 0; i < VINCENTY_MAX_ITERATIONS; i++) {
+    sinλ = Math.sin(λ);
+    cosλ = Math.cos(λ);
+    sinσ = Math.sqrt(
+      (cosU2 * sinλ) ** 2 +
+      (cosU1 * sinU2 - sinU1 * cosU2 * cosλ) ** 2
+    );
+
+    // Coincident points
+    if (sinσ === 0) {
+      return { distance: 0, initialBearing: 0, finalBearing: 0 };
+    }
+
+    cosσ = sinU1 * sinU2 + cosU1 * cosU2 * cosλ;
+    σ = Math.atan2(sinσ, cosσ);
+    sinα = (cosU1 * cosU2 * sinλ) / sinσ;
+    cos2α = 1 - sinα * sinα;
+    cos2σm = cos2α !== 0 ? cosσ - (2 * sinU1 * sinU2) / cos2α : 0; // Equatorial line
+
+    const C = (f / 16) * cos2α * (4 + f * (4 - 3 * cos2α));
+    const λPrev = λ;
+    λ = L + (1 - C) * f * sinα * (σ + C * sinσ * (cos2σm + C * cosσ * (-1 + 2 * cos2σm * cos2σm)));
+
+    if (Math.abs(λ) > Math.PI * 1.5) break; // Diverging: nearly antipodal
+    if (Math.abs(λ - λPrev) < VINCENTY_TOLERANCE) {
+      converged = true;
+      break;
+    }
+  }
+
+  if (!converged) {
+    return null;
+  }
+
+  const u2 = cos2α * (WGS84_A * WGS84_A - WGS84_B * WGS84_B) / (WGS84_B * WGS84_B);
+  const A = 1 + (u2 / 16384) * (4096 + u2 * (-768 + u2 * (320 - 175 * u2)));
+  const B = (u2 / 1024) * (256 + u2 * (-128 + u2 * (74 - 47 * u2)));
+  const Δσ = B * sinσ * (cos2σm + (B / 4) * (
+    cosσ * (-1 + 2 * cos2σm * cos2σm) -
+    (B / 6) * cos2σm * (-3 + 4 * sinσ * sinσ) * (-3 + 4 * cos2σm * cos2σm)
+  ));
+
+  const distanceMeters = WGS84_B * A * (σ - Δσ);
+  const α1 = Math.atan2(cosU2 * sinλ, cosU1 * sinU2 - sinU1 * cosU2 * cosλ);
+  const α2 = Math.atan2(cosU1 * sinλ, -sinU1 * cosU2 + cosU1 * sinU2 * cosλ);
+
+  return {
+    distance: distanceMeters / 1000,
+    initialBearing: (toDegrees(α1) + 360) % 360,
+    finalBearing: (toDegrees(α2) + 360) % 360
+  };
+}
+
+/**
+ * Solve the direct problem on the WGS84 ellipsoid (Vincenty, 1975)
+ * Destination reached from a start point, initial bearing and distance
+ * 
+ * @param bearing Initial bearing in degrees
+ * @param distance Distance in km
+ * @returns Destination and final bearing in degrees
+ */
+export function vincentyDirect(
+  lat: number,
+  lon: number,
+  bearing: number,
+  distance: number
+): { lat: number; lon: number; finalBearing: number } {
+  const f = WGS84_F;
+  const s = distance * 1000;
+  const α1 = toRadians(bearing);
+  const sinα1 = Math.sin(α1), cosα1 = Math.cos(α1);
+
+  const tanU1 = (1 - f) * Math.tan(toRadians(lat));
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+  const sinU1 = tanU1 * cosU1;
+  const σ1 = Math.atan2(tanU1, cosα1);
+  const sinα = cosU1 * sinα1;
+  const cos2α = 1 - sinα * sinα;
+
+  const u2 = cos2α * (WGS84_A * WGS84_A - WGS84_B * WGS84_B) / (WGS84_B * WGS84_B);
+  const A = 1 + (u2 / 16384) * (4096 + u2 * (-768 + u2 * (320 - 175 * u2)));
+  const B = (u2 / 1024) * (256 + u2 * (-128 + u2 * (74 - 47 * u2)));
+
+  let σ = s / (WGS84_B * A);
+  let sinσ = 0, cosσ = 0, cos2σm = 0;
+
+  for (let i = 0; i < VINCENTY_MAX_ITERATIONS; i++) {
+    cos2σm = Math.cos(2 * σ1 + σ);
+    sinσ = Math.sin(σ);
+    cosσ = Math.cos(σ);
+    const Δσ = B * sinσ * (cos2σm + (B / 4) * (
+      cosσ * (-1 + 2 * cos2σm * cos2σm) -
+      (B / 6) * cos2σm * (-3 + 4 * sinσ * sinσ) * (-3 + 4 * cos2σm * cos2σm)
+    ));
+    const σPrev = σ;
+    σ = s / (WGS84_B * A) + Δσ;
+    if (Math.abs(σ - σPrev) < VINCENTY_TOLERANCE) break;
+  }
+
+  cos2σm = Math.cos(2 * σ1 + σ);
+  sinσ = Math.sin(σ);
+  cosσ = Math.cos(σ);
+
+  const x = sinU1 * sinσ - cosU1 * cosσ * cosα1;
+  const φ2 = Math.atan2(
+    sinU1 * cosσ + cosU1 * sinσ * cosα1,
+    (1 - f) * Math.sqrt(sinα * sinα + x * x)
+  );
+  const λ = Math.atan2(sinσ * sinα1, cosU1 * cosσ - sinU1 * sinσ * cosα1);
+  const C = (f / 16) * cos2α * (4 + f * (4 - 3 * cos2α));
+  const L = λ - (1 - C) * f * sinα * (σ + C * sinσ * (cos2σm + C * cosσ * (-1 + 2 * cos2σm * cos2σm)));
+  const α2 = Math.atan2(sinα, -x);
+
+  return {
+    lat: toDegrees(φ2),
+    lon: ((lon + toDegrees(L) + 540) % 360) - 180,
+    finalBearing: (toDegrees(α2) + 360) % 360
+  };
+}
+
+/**
+ * Calculate points at fractions along the WGS84 geodesic
+ * Solves the inverse problem once, then walks along it with the direct solution.
+ * Nearly antipodal routes, where Vincenty does not converge, use the sphere.
+ */
+function ellipsoidalPoints(
+  p1: { lat: number; lon: number },
+  p2: { lat: number; lon: number },
+  fractions: number[]
+): { lat: number; lon: number }[] {
+  const inverse = solveVincentyInverse(p1.lat, p1.lon, p2.lat, p2.lon);
+  if (!inverse) {
+    return fractions.map(fraction => intermediatePoint(p1, p2, fraction));
+  }
+  const { distance, initialBearing } = inverse;
+
+  return fractions.map(fraction => {
+    if (distance === 0 || fraction <= 0) {
+      return { lat: p1.lat, lon: p1.lon };
+    }
+    if (fraction >= 1) {
+      return { lat: p2.lat, lon: p2.lon };
+    }
+    const { lat, lon } = vincentyDirect(p1.lat, p1.lon, initialBearing, distance * fraction);
+    return { lat, lon };
+  });
+}
+
 /**
  * Calculate intermediate point at fraction along great circle
  * Uses spherical linear interpolation (slerp)
@@ -103,6 +376,16 @@ function intermediatePoint(
     return { lat: p1.lat, lon: p1.lon };
   }
 
+  // Antipodal: sin(δ) vanishes and the great circle is undefined, so pick
+  // one deterministically - due north (due south from the North Pole)
+  if (Math.PI - δ < ANTIPODAL_TOLERANCE_RAD) {
+    if (fraction >= 1) {
+      return { lat: p2.lat, lon: p2.lon };
+    }
+    const bearing = p1.lat >= 90 ? 180 : 0;
+    return destinationPoint(p1, bearing, fraction * Math.PI);
+  }
+
   const a = Math.sin((1 - fraction) * δ) / Math.sin(δ);
   const b = Math.sin(fraction * δ) / Math.sin(δ);
 
@@ -119,6 +402,34 @@ function intermediatePoint(
   };
 }
 
+/**
+ * Point reached from a start point along a great circle
+ * 
+ * @param bearing Initial bearing in degrees
+ * @param δ Angular distance in radians
+ */
+function destinationPoint(
+  p: { lat: number; lon: number },
+  bearing: number,
+  δ: number
+): { lat: number; lon: number } {
+  const φ1 = toRadians(p.lat);
+  const λ1 = toRadians(p.lon);
+  const θ = toRadians(bearing);
+
+  const sinφ2 = Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ);
+  const φ2 = Math.asin(Math.max(-1, Math.min(1, sinφ2)));
+  const λ2 = λ1 + Math.atan2(
+    Math.sin(θ) * Math.sin(δ) * Math.cos(φ1),
+    Math.cos(δ) - Math.sin(φ1) * sinφ2
+  );
+
+  return {
+    lat: toDegrees(φ2),
+    lon: ((toDegrees(λ2) + 540) % 360) - 180
+  };
+}
+
 /**
  * Handle routes that cross the International Date Line (±180°)
  * Prevents visual artifacts where route appears to wrap around globe
@@ -144,43 +455,87 @@ function handleAntimeridianCrossing(waypoints: Waypoint[]): Waypoint[] {
  * @param origin Starting point {lat, lon}
  * @param destination Ending point {lat, lon}
  * @param numPoints Number of waypoints to generate
+ * @param model Earth model (defaults to spherical)
  * @returns Array of waypoints with position and metadata
  */
 export function generateWaypoints(
   origin: { lat: number; lon: number },
   destination: { lat: number; lon: number },
-  numPoints: number = 100
+  numPoints: number = 100,
+  model: GeodesicModel = 'spherical'
+): Waypoint[] {
+  const fractions: number[] = [];
+  for (let i = 0; i <= numPoints; i++) {
+    fractions.push(i / numPoints);
+  }
+
+  return generateWaypointsAtFractions(origin, destination, fractions, model);
+}
+
+/**
+ * Generate waypoints at arbitrary fractions along great circle route
+ * Fractions must be non-decreasing; repeated fractions (e.g. an aircraft
+ * holding position while taxiing) produce repeated waypoints
+ * 
+ * @param origin Starting point {lat, lon}
+ * @param destination Ending point {lat, lon}
+ * @param fractions Fractions along route (0 to 1), one per waypoint
+ * @param model Earth model (defaults to spherical)
+ * @returns Array of waypoints with position and metadata
+ */
+export function generateWaypointsAtFractions(
+  origin: { lat: number; lon: number },
+  destination: { lat: number; lon: number },
+  fractions: number[],
+  model: GeodesicModel = 'spherical'
 ): Waypoint[] {
-  const waypoints: Waypoint[] = [];
   const totalDistance = calculateDistance(
     origin.lat, origin.lon,
-    destination.lat, destination.lon
+    destination.lat, destination.lon,
+    model
   );
 
-  for (let i = 0; i <= numPoints; i++) {
-    const fraction = i / numPoints;
-    const point = intermediatePoint(origin, destination, fraction);
-    
-    // Calculate bearing to next point (or use last bearing for final point)
-    let bearing: number;
-    if (i < numPoints) {
-      const nextPoint = intermediatePoint(origin, destination, (i + 1) / numPoints);
-      bearing = calculateInitialBearing(
-        point.lat, point.lon,
-        nextPoint.lat, nextPoint.lon
+  const points = model === 'wgs84'
+    ? ellipsoidalPoints(origin, destination, fractions)
+    : fractions.map(fraction => intermediatePoint(origin, destination, fraction));
+  const bearings: number[] = new Array(points.length);
+
+  // Bearing points to the next waypoint further along the route.
+  // Walk backwards so repeated positions inherit the bearing of the next distinct one
+  let nextDistinct = -1;
+  for (let i = points.length - 1; i >= 0; i--) {
+    if (nextDistinct >= 0) {
+      bearings[i] = calculateInitialBearing(
+        points[i].lat, points[i].lon,
+        points[nextDistinct].lat, points[nextDistinct].lon,
+        model
       );
-    } else {
-      bearing = waypoints[i - 1].bearing;
     }
+    if (i > 0 && fractions[i - 1] < fractions[i]) {
+      nextDistinct = i;
+    }
+  }
 
-    waypoints.push({
-      lat: point.lat,
-      lon: point.lon,
-      distance: totalDistance * fraction,
-      bearing: bearing
-    });
+  // Waypoints with nothing ahead of them keep the last bearing (or the initial one)
+  let lastBearing = calculateInitialBearing(
+    origin.lat, origin.lon,
+    destination.lat, destination.lon,
+    model
+  );
+  for (let i = 0; i < points.length; i++) {
+    if (bearings[i] === undefined) {
+      bearings[i] = lastBearing;
+    }
+    lastBearing = bearings[i];
   }
 
+  const waypoints: Waypoint[] = points.map((point, i) => ({
+    lat: point.lat,
+    lon: point.lon,
+    distance: totalDistance * fractions[i],
+    bearing: bearings[i]
+  }));
+
   return handleAntimeridianCrossing(waypoints);
 }
 
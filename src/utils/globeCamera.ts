@@ -0,0 +1,86 @@
+/**
+ * Camera views of the globe: fitting a whole route, and easing between views
+ */
+
+import { toDegrees, toRadians } from './solar';
+
+/**
+ * How the globe camera moves during playback
+ * 'orbit' leaves it to the user, 'follow' keeps the aircraft centred and
+ * 'fit' frames the whole route.
+ */
+export type CameraMode = 'orbit' | 'follow' | 'fit';
+
+/**
+ * A camera position, as globe.gl's pointOfView
+ */
+export interface GlobeView {
+  lat: number;
+  lng: number;
+  altitude: number;  // Height above the surface in globe radii
+}
+
+/** globe.gl's vertical field of view, degrees */
+const CAMERA_FOV = 50;
+
+/** Share of the half field of view a fitted route may fill */
+const FIT_MARGIN = 0.8;
+
+/** Closest and farthest fitted views, in globe radii (the zoom limits) */
+const MIN_FIT_ALTITUDE = 0.3;
+const MAX_FIT_ALTITUDE = 4;
+
+/** Farthest a fitted point may be from the view centre; beyond it is the far side */
+const MAX_FIT_ANGLE = 80;
+
+/**
+ * Camera view looking straight down on the centre of a route, high enough
+ * to see every point
+ */
+export function getRouteFitView(points: { lat: number; lon: number }[]): GlobeView {
+  if (points.length === 0) {
+    throw new Error('Cannot fit an empty route');
+  }
+
+  const vectors = points.map(({ lat, lon }) => [
+    Math.cos(toRadians(lat)) * Math.cos(toRadians(lon)),
+    Math.cos(toRadians(lat)) * Math.sin(toRadians(lon)),
+    Math.sin(toRadians(lat))
+  ]);
+
+  // Mean direction; it vanishes for routes spread around the globe, so fall
+  // back to the middle point
+  const sum = vectors.reduce((total, v) => total.map((c, i) => c + v[i]), [0, 0, 0]);
+  const length = Math.hypot(...sum);
+  const centre = length > 1e-6 ? sum.map(c => c / length) : vectors[Math.floor(vectors.length / 2)];
+
+  const spread = Math.min(MAX_FIT_ANGLE, Math.max(...vectors.map(v =>
+    toDegrees(Math.acos(Math.min(1, v[0] * centre[0] + v[1] * centre[1] + v[2] * centre[2])))
+  )));
+
+  // Camera distance (in radii from the globe's centre) at which a point
+  // `spread` from the centre appears at the edge of the allowed angle
+  const distance = Math.cos(toRadians(spread))
+    + Math.sin(toRadians(spread)) / Math.tan(toRadians(CAMERA_FOV / 2 * FIT_MARGIN));
+
+  return {
+    lat: toDegrees(Math.asin(centre[2])),
+    lng: toDegrees(Math.atan2(centre[1], centre[0])),
+    altitude: Math.min(MAX_FIT_ALTITUDE, Math.max(MIN_FIT_ALTITUDE, distance - 1))
+  };
+}
+
+/**
+ * View a fraction (0-1) of the way between two views, crossing the
+ * antimeridian the short way
+ */
+export function interpolateView(from: GlobeView, to: GlobeView, fraction: number): GlobeView {
+  const lngDelta = ((to.lng - from.lng) % 360 + 540) % 360 - 180;
+  const lng = from.lng + lngDelta * fraction;
+
+  return {
+    lat: from.lat + (to.lat - from.lat) * fraction,
+    lng: ((lng % 360) + 540) % 360 - 180,
+    altitude: from.altitude + (to.altitude - from.altitude) * fraction
+  };
+}
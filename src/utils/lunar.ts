@@ -0,0 +1,285 @@
+/**
+ * Lunar position and phase calculations
+ * Reference: Jean Meeus - Astronomical Algorithms (2nd Edition), Chapters 47-48
+ * (main periodic terms only; accurate to a few arcminutes)
+ */
+
+import { MoonPhaseName } from '@/types';
+import {
+  getJulianDay,
+  getJulianCentury,
+  getSolarLongitude,
+  getObliquity,
+  getGreenwichSiderealTime,
+  getRefractionCorrection,
+  toRadians,
+  toDegrees,
+  sinDeg,
+  cosDeg,
+  asinDeg,
+  atan2Deg
+} from './solar';
+
+/**
+ * Moon's position and appearance from observer's perspective
+ */
+export interface MoonPosition {
+  azimuth: number;        // 0-360°, 0=North, 90=East
+  altitude: number;       // -90 to +90°, topocentric, with refraction
+  distance: number;       // Earth-Moon distance in km
+  rightAscension: number; // Hours (0-24), geocentric
+  declination: number;    // Degrees, geocentric
+  illumination: number;   // Illuminated fraction of the disc (0-1)
+  phase: number;          // 0-1: 0=new, 0.25=first quarter, 0.5=full, 0.75=last quarter
+  phaseName: MoonPhaseName;
+}
+
+/**
+ * Altitude of the Moon's centre at moonrise/moonset: the upper limb touches
+ * the horizon (mean semi-diameter; parallax and refraction are already in
+ * the altitude from calculateMoonPosition)
+ */
+export const MOONRISE_MOONSET_ALTITUDE = -0.26;
+
+/** Half-width of the new, quarter and full phases, as a fraction of the cycle */
+const PRINCIPAL_PHASE_WINDOW = 1 / 32;
+
+const EARTH_RADIUS_KM = 6378.14;
+const AU_KM = 149597870.7;
+
+// Periodic terms for longitude (Σl, 1e-6°) and distance (Σr, 1e-3 km):
+// multiples of D, M, M', F and the two coefficients (Meeus table 47.A)
+const LONGITUDE_DISTANCE_TERMS: [number, number, number, number, number, number][] = [
+  [0, 0, 1, 0, 6288774, -20905355],
+  [2, 0, -1, 0, 1274027, -3699111],
+  [2, 0, 0, 0, 658314, -2955968],
+  [0, 0, 2, 0, 213618, -569925],
+  [0, 1, 0, 0, -185116, 48888],
+  [0, 0, 0, 2, -114332, -3149],
+  [2, 0, -2, 0, 58793, 246158],
+  [2, -1, -1, 0, 57066, -152138],
+  [2, 0, 1, 0, 53322, -170733],
+  [2, -1, 0, 0, 45758, -204586],
+  [0, 1, -1, 0, -40923, -129620],
+  [1, 0, 0, 0, -34720, 108743],
+  [0, 1, 1, 0, -30383, 104755],
+  [2, 0, 0, -2, 15327, 10321],
+  [0, 0, 1, 2, -12528, 0],
+  [0, 0, 1, -2, 10980, 79661],
+  [4, 0, -1, 0, 10675, -34782],
+  [0, 0, 3, 0, 10034, -23210],
+  [4, 0, -2, 0, 8548, -21636],
+  [2, 1, -1, 0, -7888, 24208],
+  [2, 1, 0, 0, -6766, 30824],
+  [1, 0, -1, 0, -5163, -8379],
+  [1, 1, 0, 0, 4987, -16675],
+  [2, -1, 1, 0, 4036, -12831],
+  [2, 0, 2, 0, 3994, -10445],
+  [4, 0, 0, 0, 3861, -11650],
+  [2, 0, -3, 0, 3665, 14403],
+  [0, 1, -2, 0, -2689, -7003],
+  [2, 0, -1, 2, -2602, 0],
+  [2, -1, -2, 0, 2390, 10056],
+  [1, 0, 1, 0, -2348, 6322],
+  [2, -2, 0, 0, 2236, -9884],
+  [0, 1, 2, 0, -2120, 5751],
+  [0, 2, 0, 0, -2069, 0]
+];
+
+// Periodic terms for latitude (Σb, 1e-6°): multiples of D, M, M', F (table 47.B)
+const LATITUDE_TERMS: [number, number, number, number, number][] = [
+  [0, 0, 0, 1, 5128122],
+  [0, 0, 1, 1, 280602],
+  [0, 0, 1, -1, 277693],
+  [2, 0, 0, -1, 173237],
+  [2, 0, -1, 1, 55413],
+  [2, 0, -1, -1, 46271],
+  [2, 0, 0, 1, 32573],
+  [0, 0, 2, 1, 17198],
+  [2, 0, 1, -1, 9266],
+  [0, 0, 2, -1, 8822],
+  [2, -1, 0, -1, 8216],
+  [2, 0, -2, -1, 4324],
+  [2, 0, 1, 1, 4200],
+  [2, 1, 0, -1, -3359],
+  [2, -1, -1, 1, 2463],
+  [2, -1, 0, 1, 2211],
+  [2, -1, -1, -1, 2065],
+  [0, 1, -1, -1, -1870]
+];
+
+/**
+ * Calculate moon's geocentric ecliptic position
+ * Reference: Meeus, Astronomical Algorithms, Chapter 47
+ *
+ * @returns Apparent longitude and latitude in degrees, distance in km
+ */
+export function getLunarEclipticCoordinates(jd: number): {
+  longitude: number;
+  latitude: number;
+  distance: number;
+} {
+  const T = getJulianCentury(jd);
+
+  // Mean longitude, mean elongation, anomalies and argument of latitude (degrees)
+  const Lp = 218.3164477 + 481267.88123421 * T;
+  const D = 297.8501921 + 445267.1114034 * T;
+  const M = 357.5291092 + 35999.0502909 * T;
+  const Mp = 134.9633964 + 477198.8675055 * T;
+  const F = 93.2720950 + 483202.0175233 * T;
+
+  // Planetary perturbations (Venus, Jupiter) and Earth's orbital eccentricity
+  const A1 = 119.75 + 131.849 * T;
+  const A2 = 53.09 + 479264.290 * T;
+  const A3 = 313.45 + 481266.484 * T;
+  const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+
+  let sumL = 0;
+  let sumR = 0;
+  LONGITUDE_DISTANCE_TERMS.forEach(([d, m, mp, f, l, r]) => {
+    const argument = d * D + m * M + mp * Mp + f * F;
+    const eccentricity = Math.pow(E, Math.abs(m));
+    sumL += l * eccentricity * sinDeg(argument);
+    sumR += r * eccentricity * cosDeg(argument);
+  });
+
+  let sumB = 0;
+  LATITUDE_TERMS.forEach(([d, m, mp, f, b]) => {
+    sumB += b * Math.pow(E, Math.abs(m)) * sinDeg(d * D + m * M + mp * Mp + f * F);
+  });
+
+  sumL += 3958 * sinDeg(A1) + 1962 * sinDeg(Lp - F) + 318 * sinDeg(A2);
+  sumB += -2235 * sinDeg(Lp) + 382 * sinDeg(A3) + 175 * sinDeg(A1 - F)
+    + 175 * sinDeg(A1 + F) + 127 * sinDeg(Lp - Mp) - 115 * sinDeg(Lp + Mp);
+
+  // Nutation in longitude, as in the solar apparent longitude
+  const omega = 125.04 - 1934.136 * T;
+  const longitude = Lp + sumL / 1e6 - 0.00478 * sinDeg(omega);
+
+  return {
+    longitude: ((longitude % 360) + 360) % 360,
+    latitude: sumB / 1e6,
+    distance: 385000.56 + sumR / 1000
+  };
+}
+
+/**
+ * Calculate moon's position in equatorial coordinates
+ * Returns right ascension (in hours), declination (in degrees) and distance (km)
+ */
+export function getLunarCoordinates(jd: number): {
+  rightAscension: number;
+  declination: number;
+  distance: number;
+} {
+  const { longitude, latitude, distance } = getLunarEclipticCoordinates(jd);
+  const epsilon = getObliquity(jd);
+
+  const rightAscension = atan2Deg(
+    sinDeg(longitude) * cosDeg(epsilon) - Math.tan(toRadians(latitude)) * sinDeg(epsilon),
+    cosDeg(longitude)
+  );
+  const declination = asinDeg(
+    sinDeg(latitude) * cosDeg(epsilon) + cosDeg(latitude) * sinDeg(epsilon) * sinDeg(longitude)
+  );
+
+  return {
+    rightAscension: ((rightAscension + 360) % 360) / 15,
+    declination,
+    distance
+  };
+}
+
+/**
+ * Illuminated fraction and phase of the Moon (the same for every observer)
+ * Reference: Meeus, Astronomical Algorithms, Chapter 48
+ */
+export function calculateMoonIllumination(date: Date): {
+  illumination: number;
+  phase: number;
+  phaseName: MoonPhaseName;
+} {
+  const jd = getJulianDay(date);
+  const moon = getLunarEclipticCoordinates(jd);
+  const sunLongitude = getSolarLongitude(jd);
+
+  // Geocentric elongation of the Moon from the Sun
+  const elongation = Math.acos(cosDeg(moon.latitude) * cosDeg(moon.longitude - sunLongitude));
+
+  // Phase angle (Sun-Moon-Earth); the Sun is ~1 AU away
+  const phaseAngle = Math.atan2(
+    AU_KM * Math.sin(elongation),
+    moon.distance - AU_KM * Math.cos(elongation)
+  );
+
+  // Waxing while the Moon is less than 180° east of the Sun
+  const eastward = (((moon.longitude - sunLongitude) % 360) + 360) % 360;
+  const waxedAngle = toDegrees(Math.PI - phaseAngle);
+  const phase = (eastward < 180 ? waxedAngle : 360 - waxedAngle) / 360;
+
+  return {
+    illumination: (1 + Math.cos(phaseAngle)) / 2,
+    phase,
+    phaseName: getMoonPhaseName(phase)
+  };
+}
+
+/**
+ * Name of a lunar phase (0-1, 0=new, 0.5=full)
+ * New, quarter and full name the day around their instants (±1/32 of the
+ * cycle, ~0.9 days); the crescent and gibbous phases fill the rest.
+ */
+export function getMoonPhaseName(phase: number): MoonPhaseName {
+  const p = ((phase % 1) + 1) % 1;
+  const quarter = Math.round(p * 4) % 4;
+  if (Math.abs(p * 4 - Math.round(p * 4)) < PRINCIPAL_PHASE_WINDOW * 4) {
+    return (['new', 'first-quarter', 'full', 'last-quarter'] as MoonPhaseName[])[quarter];
+  }
+
+  const names: MoonPhaseName[] = ['waxing-crescent', 'waxing-gibbous', 'waning-gibbous', 'waning-crescent'];
+  return names[Math.floor(p * 4)];
+}
+
+/**
+ * Calculate moon's position as seen from observer's location
+ * Converts equatorial coordinates to horizontal coordinates, then corrects
+ * the altitude for parallax (up to ~1° for the Moon) and refraction.
+ *
+ * @param lat Observer's latitude in degrees (-90 to +90)
+ * @param lon Observer's longitude in degrees (-180 to +180)
+ * @param date Date and time of observation
+ */
+export function calculateMoonPosition(lat: number, lon: number, date: Date): MoonPosition {
+  const jd = getJulianDay(date);
+  const { rightAscension, declination, distance } = getLunarCoordinates(jd);
+
+  const lst = (getGreenwichSiderealTime(jd) + lon + 360) % 360;
+  const hourAngle = lst - rightAscension * 15;
+
+  const latRad = toRadians(lat);
+  const haRad = toRadians(hourAngle);
+  const decRad = toRadians(declination);
+
+  const sinAlt = Math.sin(latRad) * Math.sin(decRad)
+    + Math.cos(latRad) * Math.cos(decRad) * Math.cos(haRad);
+  const geocentricAltitude = toDegrees(Math.asin(sinAlt));
+
+  // Azimuth measured clockwise from North
+  const azimuth = atan2Deg(
+    -Math.cos(decRad) * Math.sin(haRad),
+    Math.sin(decRad) * Math.cos(latRad) - Math.cos(decRad) * Math.sin(latRad) * Math.cos(haRad)
+  );
+
+  // The Moon is close enough for the observer's offset from Earth's centre to matter
+  const parallax = asinDeg(EARTH_RADIUS_KM / distance);
+  const topocentricAltitude = geocentricAltitude - parallax * cosDeg(geocentricAltitude);
+
+  return {
+    azimuth: (azimuth + 360) % 360,
+    altitude: topocentricAltitude + getRefractionCorrection(topocentricAltitude),
+    distance,
+    rightAscension,
+    declination,
+    ...calculateMoonIllumination(date)
+  };
+}
@@ -106,6 +106,30 @@ export function getSolarCoordinates(jd: number): {
   rightAscension: number;
   declination: number;
 } {
+  const lambda = getSolarLongitude(jd);
+  const epsilon = getObliquity(jd);
+
+  // Convert ecliptic coordinates to equatorial coordinates
+  // Right Ascension
+  const rightAscension = atan2Deg(
+    cosDeg(epsilon) * sinDeg(lambda),
+    cosDeg(lambda)
+  );
+
+  // Declination
+  const declination = asinDeg(sinDeg(epsilon) * sinDeg(lambda));
+
+  return {
+    rightAscension: ((rightAscension + 360) % 360) / 15, // Convert to hours (0-24)
+    declination
+  };
+}
+
+/**
+ * Sun's apparent ecliptic longitude in degrees
+ * Reference: Meeus, Astronomical Algorithms, Chapter 25
+ */
+export function getSolarLongitude(jd: number): number {
   const T = getJulianCentury(jd);
 
   // Geometric mean longitude of the sun (degrees)
@@ -126,25 +150,72 @@ export function getSolarCoordinates(jd: number): {
 
   // Apparent longitude (corrected for nutation and aberration)
   const omega = 125.04 - 1934.136 * T;
-  const lambda = sunLongitude - 0.00569 - 0.00478 * sinDeg(omega);
+  return sunLongitude - 0.00569 - 0.00478 * sinDeg(omega);
+}
+
+/**
+ * Earth-Sun distance in AU from the sun's orbital eccentricity and anomaly
+ * Reference: Meeus, Astronomical Algorithms, Chapter 25
+ */
+export function getSolarDistance(jd: number): number {
+  const T = getJulianCentury(jd);
+  const M = 357.52911 + T * (35999.05029 - T * 0.0001537);
+  const e = 0.016708634 - T * (0.000042037 + T * 0.0000001267);
+  const C = (1.914602 - T * (0.004817 + T * 0.000014)) * sinDeg(M)
+    + (0.019993 - T * 0.000101) * sinDeg(2 * M)
+    + 0.000289 * sinDeg(3 * M);
 
-  // Obliquity of the ecliptic (Earth's axial tilt, ~23.44°)
+  // True anomaly
+  const v = M + C;
+  return (1.000001018 * (1 - e * e)) / (1 + e * cosDeg(v));
+}
+
+/**
+ * Apparent obliquity of the ecliptic in degrees (Earth's axial tilt, ~23.44°)
+ * Reference: Meeus, Astronomical Algorithms, Chapter 22
+ */
+export function getObliquity(jd: number): number {
+  const T = getJulianCentury(jd);
+  const omega = 125.04 - 1934.136 * T;
   const epsilon0 = 23.439291 - T * (0.0130042 + T * (0.00000016 - T * 0.000000504));
-  const epsilon = epsilon0 + 0.00256 * cosDeg(omega);
+  return epsilon0 + 0.00256 * cosDeg(omega);
+}
 
-  // Convert ecliptic coordinates to equatorial coordinates
-  // Right Ascension
-  const rightAscension = atan2Deg(
-    cosDeg(epsilon) * sinDeg(lambda),
-    cosDeg(lambda)
-  );
+/**
+ * Greenwich Mean Sidereal Time in degrees (0-360)
+ * GMST is the angle between the prime meridian and vernal equinox
+ * Reference: Meeus, Astronomical Algorithms, Chapter 12
+ */
+export function getGreenwichSiderealTime(jd: number): number {
+  const T = getJulianCentury(jd);
+  const gmst = (280.46061837
+    + 360.98564736629 * (jd - 2451545.0)
+    + T * T * (0.000387933 - T / 38710000)) % 360;
+  return (gmst + 360) % 360;
+}
 
-  // Declination
-  const declination = asinDeg(sinDeg(epsilon) * sinDeg(lambda));
+/**
+ * Time-dependent terms of the sun's position, the same for every observer
+ * at one instant; the batch calculation shares them between nearby times
+ */
+export interface SunEphemeris {
+  rightAscension: number;     // Degrees (0-360), geocentric
+  declination: number;        // Degrees, geocentric
+  distance: number;           // Earth-Sun distance in AU
+  siderealCorrection: number; // Degrees from mean to apparent sidereal time
+}
 
+/**
+ * Sun's geocentric position at an instant (Meeus series)
+ * Mean sidereal time is used as is, so there is no sidereal correction.
+ */
+export function getSunEphemeris(jd: number): SunEphemeris {
+  const { rightAscension, declination } = getSolarCoordinates(jd);
   return {
-    rightAscension: ((rightAscension + 360) % 360) / 15, // Convert to hours (0-24)
-    declination
+    rightAscension: rightAscension * 15,
+    declination,
+    distance: getSolarDistance(jd),
+    siderealCorrection: 0
   };
 }
 
@@ -163,14 +234,43 @@ export function calculateSunPosition(
   date: Date
 ): SunPosition {
   const jd = getJulianDay(date);
-  const { rightAscension, declination } = getSolarCoordinates(jd);
+  const ephemeris = getSunEphemeris(jd);
+  const { azimuth, altitude } = getSunHorizontalPosition(lat, lon, jd, ephemeris);
 
-  // Calculate Greenwich Mean Sidereal Time (GMST) in degrees
-  // GMST is the angle between the prime meridian and vernal equinox
-  const T = getJulianCentury(jd);
-  const gmst = (280.46061837 
-    + 360.98564736629 * (jd - 2451545.0)
-    + T * T * (0.000387933 - T / 38710000)) % 360;
+  return {
+    azimuth,
+    altitude,
+    zenith: 90 - altitude, // Zenith angle (complement of altitude)
+    distance: ephemeris.distance,
+    rightAscension: ephemeris.rightAscension / 15,
+    declination: ephemeris.declination
+  };
+}
+
+/**
+ * Point on Earth where the sun is overhead at an instant
+ * Its latitude is the declination; its longitude puts the sun on the
+ * local meridian (hour angle zero).
+ */
+export function getSubsolarPoint(date: Date): { lat: number; lon: number } {
+  const jd = getJulianDay(date);
+  const { rightAscension, declination } = getSunEphemeris(jd);
+  const lon = rightAscension - getGreenwichSiderealTime(jd);
+  return { lat: declination, lon: ((lon % 360) + 540) % 360 - 180 };
+}
+
+/**
+ * Azimuth and refracted altitude of the sun for an observer, from its
+ * geocentric position at the instant jd
+ */
+export function getSunHorizontalPosition(
+  lat: number,
+  lon: number,
+  jd: number,
+  ephemeris: SunEphemeris
+): { azimuth: number; altitude: number } {
+  // Greenwich Mean Sidereal Time (GMST) in degrees
+  const gmst = getGreenwichSiderealTime(jd);
 
   // Calculate Local Sidereal Time (LST) in degrees
   // LST = GMST + observer's longitude
@@ -178,12 +278,12 @@ export function calculateSunPosition(
 
   // Calculate Hour Angle (degrees)
   // Hour angle is the angle between the celestial object and the meridian
-  const hourAngle = lst - rightAscension * 15; // Convert RA from hours to degrees
+  const hourAngle = lst - ephemeris.rightAscension;
 
   // Convert to radians for trigonometric functions
   const latRad = toRadians(lat);
   const haRad = toRadians(hourAngle);
-  const decRad = toRadians(declination);
+  const decRad = toRadians(ephemeris.declination);
 
   // Calculate altitude (elevation angle above horizon)
   // Uses spherical trigonometry
@@ -205,19 +305,9 @@ export function calculateSunPosition(
     azimuth = 360 - azimuth;
   }
 
-  // Apply atmospheric refraction correction
-  const altitudeRefracted = altitude + getRefractionCorrection(altitude);
-
-  // Calculate zenith angle (complement of altitude)
-  const zenith = 90 - altitudeRefracted;
-
   return {
     azimuth: (azimuth + 360) % 360, // Normalize to 0-360
-    altitude: altitudeRefracted,
-    zenith,
-    distance: 1.0, // Simplified: 1 AU (actual distance varies ±3%)
-    rightAscension,
-    declination
+    altitude: altitude + getRefractionCorrection(altitude) // Apply atmospheric refraction correction
   };
 }
 
@@ -229,7 +319,7 @@ export function calculateSunPosition(
  * @param altitude Geometric altitude in degrees
  * @returns Refraction correction in degrees (always positive)
  */
-function getRefractionCorrection(altitude: number): number {
+export function getRefractionCorrection(altitude: number): number {
   // No correction needed high in the sky
   if (altitude > 85) return 0;
   
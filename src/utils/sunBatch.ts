@@ -0,0 +1,114 @@
+/**
+ * Batch sun positions for many (lat, lon, time) samples at once
+ * The time-dependent terms (solar coordinates, distance, nutation) are
+ * computed once per hour and interpolated in between, so the per-sample
+ * cost is only the observer's hour angle, parallax and refraction.
+ */
+
+import { SolarModel } from '@/types';
+import { SunEphemeris, getJulianDay, getSunEphemeris, getSunHorizontalPosition } from './solar';
+import { getDeltaT, getSpaEphemeris, getSpaTopocentricPosition } from './spa';
+
+/**
+ * Sun positions for a batch of samples, index for index
+ */
+export interface SunPositionBatch {
+  azimuth: Float64Array;  // 0-360°, 0=North, 90=East
+  altitude: Float64Array; // -90 to +90°, with refraction
+}
+
+/**
+ * Time-dependent terms already computed, for reuse across batches
+ * (e.g. every flight of a departure sweep)
+ */
+export interface SunEphemerisCache {
+  model: SolarModel;
+  nodes: Map<number, SunEphemeris>;  // By whole hours since the Unix epoch
+}
+
+/** Spacing of the instants the time-dependent terms are computed at (interpolation error < 1e-6°) */
+const NODE_INTERVAL_MS = 3600000;
+
+/** Empty cache for one solar model */
+export function createSunEphemerisCache(model: SolarModel = 'meeus'): SunEphemerisCache {
+  return { model, nodes: new Map() };
+}
+
+/**
+ * Calculate the sun's azimuth and altitude for every sample
+ *
+ * @param lats Observer latitudes in degrees
+ * @param lons Observer longitudes in degrees
+ * @param times Observation times in ms since the Unix epoch (UTC)
+ * @param model Solar model, as for getSunPosition
+ * @param cache Time-dependent terms to reuse and extend
+ * @throws Error when the arrays differ in length or the cache is for another model
+ */
+export function calculateSunPositions(
+  lats: Float64Array,
+  lons: Float64Array,
+  times: Float64Array,
+  model: SolarModel = 'meeus',
+  cache: SunEphemerisCache = createSunEphemerisCache(model)
+): SunPositionBatch {
+  if (lats.length !== times.length || lons.length !== times.length) {
+    throw new Error('Latitude, longitude and time arrays must have the same length');
+  }
+  if (cache.model !== model) {
+    throw new Error(`Ephemeris cache is for the ${cache.model} model, not ${model}`);
+  }
+
+  const nodeAt = (index: number): SunEphemeris => {
+    let node = cache.nodes.get(index);
+    if (!node) {
+      const date = new Date(index * NODE_INTERVAL_MS);
+      node = model === 'spa'
+        ? getSpaEphemeris(getJulianDay(date), getDeltaT(date))
+        : getSunEphemeris(getJulianDay(date));
+      cache.nodes.set(index, node);
+    }
+    return node;
+  };
+
+  const azimuth = new Float64Array(times.length);
+  const altitude = new Float64Array(times.length);
+
+  for (let i = 0; i < times.length; i++) {
+    const index = Math.floor(times[i] / NODE_INTERVAL_MS);
+    const ephemeris = interpolateEphemeris(
+      nodeAt(index),
+      nodeAt(index + 1),
+      times[i] / NODE_INTERVAL_MS - index
+    );
+
+    // Same instant as the single-sample models: whole seconds for Meeus,
+    // milliseconds for the SPA
+    const date = new Date(times[i]);
+    const position = model === 'spa'
+      ? getSpaTopocentricPosition(lats[i], lons[i], getJulianDay(date) + date.getUTCMilliseconds() / 86400000, ephemeris)
+      : getSunHorizontalPosition(lats[i], lons[i], getJulianDay(date), ephemeris);
+
+    azimuth[i] = position.azimuth;
+    altitude[i] = position.altitude;
+  }
+
+  return { azimuth, altitude };
+}
+
+/**
+ * Linear interpolation between two hourly nodes (fraction 0-1)
+ * Right ascension is unwrapped across 360°.
+ */
+function interpolateEphemeris(a: SunEphemeris, b: SunEphemeris, fraction: number): SunEphemeris {
+  const lerp = (from: number, to: number) => from + (to - from) * fraction;
+
+  let toAscension = b.rightAscension;
+  if (toAscension - a.rightAscension < -180) toAscension += 360;
+
+  return {
+    rightAscension: lerp(a.rightAscension, toAscension) % 360,
+    declination: lerp(a.declination, b.declination),
+    distance: lerp(a.distance, b.distance),
+    siderealCorrection: lerp(a.siderealCorrection, b.siderealCorrection)
+  };
+}
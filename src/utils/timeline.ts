@@ -2,18 +2,110 @@
  * Flight timeline generation with solar data integration
  */
 
-import { Airport, FlightTimeline, TimelinePoint, SunEvent, TimelineStatistics } from '@/types';
-import { generateWaypoints } from './geodesic';
-import { calculateSunPosition } from './solar';
-import { SUNRISE_SUNSET_ALTITUDE } from './daylight';
+import { Airport, AircraftProfile, FlightPhase, HorizonDefinition, SolarModel, FlightTimeline, ScheduleWarning, TimelineWarning, TimelinePoint, SunEvent, SunEventType, MoonEvent, TimelineStatistics, TwilightPhase, ItineraryLeg, TimelineLeg, WindGrid, TrackPoint } from '@/types';
+import { calculateDistance, calculateInitialBearing, generateWaypoints, generateWaypointsAtFractions, getRouteWarning, GeodesicModel } from './geodesic';
+import { getSunPosition } from './spa';
+import { calculateSunPositions, createSunEphemerisCache, SunEphemerisCache, SunPositionBatch } from './sunBatch';
+import { calculateMoonPosition, MOONRISE_MOONSET_ALTITUDE } from './lunar';
+import {
+  getHorizonDepression,
+  getSunriseSunsetAltitude,
+  getTwilightPhase,
+  SUNRISE_SUNSET_ALTITUDE,
+  GOLDEN_HOUR_ALTITUDE,
+  BLUE_HOUR_ALTITUDE,
+  TwilightType
+} from './daylight';
 import { formatCoordinates } from './geodesic';
+import { buildFlightProfile, fitFlightProfile, sampleFlightProfile, FlightProfile, ProfileSample, FlightProfileOptions } from './flightProfile';
+import { getWindAt, calculateWindTriangle } from './wind';
+import { getCruisePerformance } from './aircraftProfiles';
+
+/**
+ * Options shared by single-flight and itinerary timeline generation
+ */
+export interface TimelineOptions {
+  numPoints?: number;  // Fixed number of evenly spaced intervals; overrides resolutionMinutes
+  resolutionMinutes?: number;  // Sampling interval, refined around sunrise/sunset
+  aircraft?: AircraftProfile;  // Supplies cruise speed, level, climb and descent
+  cruisingSpeed?: number;  // km/h, overrides the aircraft's
+  cruisingAltitude?: number;  // feet, overrides the aircraft's
+  climbRate?: number;  // ft/min, overrides the aircraft's
+  taxiOutMinutes?: number;
+  taxiInMinutes?: number;
+  blockMinutes?: number;  // Scheduled gate-to-gate time to fit the profile to
+  windGrid?: WindGrid;  // Upper-air winds; still air when omitted
+  geodesicModel?: GeodesicModel;  // Earth model for the route; spherical by default
+  horizon?: HorizonDefinition;  // Sunrise/sunset at the ground (default) or window horizon
+  solarModel?: SolarModel;  // Sun position algorithm; the fast Meeus series by default
+  sunCache?: SunEphemerisCache;  // Sun terms to reuse, e.g. across the flights of a sweep
+  onProgress?: (progress: number) => void;  // Fraction 0-1 generated so far, reported as work completes
+}
+
+/** Default sampling interval of generated timelines */
+export const DEFAULT_RESOLUTION_MINUTES = 2;
+
+/** Short flights still get this many intervals for smooth playback */
+const MIN_SAMPLES = 100;
+
+/** Sampling interval within EVENT_WINDOW_MINUTES of a sunrise or sunset */
+const EVENT_RESOLUTION_MINUTES = 0.25;
+const EVENT_WINDOW_MINUTES = 6;
+
+/** Sunrise and sunset instants are solved to within this many minutes (0.1 s) */
+const EVENT_TOLERANCE_MINUTES = 1 / 600;
+
+/** Share of the work done after fitting the profile, placing the samples and computing the points */
+const PROFILE_PROGRESS = 0.2;
+const SAMPLING_PROGRESS = 0.4;
+const POINTS_PROGRESS = 0.9;
+
+/** Points computed between progress reports */
+const PROGRESS_CHUNK_POINTS = 250;
+
+/** Route resolution used for wind lookups while integrating ground speed */
+const WIND_ROUTE_SEGMENTS = 200;
+
+/** Connection time used when a leg does not specify one */
+export const DEFAULT_CONNECTION_MINUTES = 90;
+
+/**
+ * Sun altitudes (at the ground horizon) whose crossings are timeline events,
+ * with the event for the sun rising and for it setting through each
+ */
+const SUN_EVENT_BOUNDARIES: { altitude: number; rising: SunEventType; setting: SunEventType }[] = [
+  { altitude: GOLDEN_HOUR_ALTITUDE, rising: 'golden-hour-end', setting: 'golden-hour-start' },
+  { altitude: SUNRISE_SUNSET_ALTITUDE, rising: 'sunrise', setting: 'sunset' },
+  { altitude: BLUE_HOUR_ALTITUDE, rising: 'blue-hour-end', setting: 'blue-hour-start' },
+  { altitude: TwilightType.CIVIL, rising: 'blue-hour-start', setting: 'blue-hour-end' },
+  { altitude: TwilightType.NAUTICAL, rising: 'nautical-dawn', setting: 'nautical-dusk' },
+  { altitude: TwilightType.ASTRONOMICAL, rising: 'astronomical-dawn', setting: 'astronomical-dusk' }
+];
+
+/** Display names of sun and moon events */
+export const SKY_EVENT_LABELS: Record<SunEventType | MoonEvent['type'], string> = {
+  'sunrise': 'Sunrise',
+  'sunset': 'Sunset',
+  'golden-hour-start': 'Golden hour begins',
+  'golden-hour-end': 'Golden hour ends',
+  'blue-hour-start': 'Blue hour begins',
+  'blue-hour-end': 'Blue hour ends',
+  'nautical-dawn': 'Nautical dawn',
+  'nautical-dusk': 'Nautical dusk',
+  'astronomical-dawn': 'Astronomical dawn',
+  'astronomical-dusk': 'Astronomical dusk',
+  'moonrise': 'Moonrise',
+  'moonset': 'Moonset'
+};
 
 /**
  * Generate complete flight timeline with solar data at each waypoint
+ * Follows a taxi/climb/cruise/descent/approach profile, so the total
+ * duration is a gate-to-gate block time
  * 
  * @param origin Departure airport
  * @param destination Arrival airport
- * @param departureTime Departure date and time (UTC)
+ * @param departureTime Departure (pushback) date and time (UTC)
  * @param options Optional configuration for timeline generation
  * @returns Complete timeline with waypoints, sun positions, and statistics
  */
@@ -21,37 +113,90 @@ export function generateFlightTimeline(
   origin: Airport,
   destination: Airport,
   departureTime: Date,
-  options: {
-    numPoints?: number;
-    cruisingSpeed?: number;  // km/h
-    cruisingAltitude?: number;  // feet
-  } = {}
+  options: TimelineOptions = {}
 ): FlightTimeline {
   const {
-    numPoints = 150,
-    cruisingSpeed = 850,  // Typical commercial jet cruise speed
-    cruisingAltitude = 37000  // Typical cruise altitude (FL370)
+    numPoints,
+    resolutionMinutes = DEFAULT_RESOLUTION_MINUTES,
+    aircraft,
+    blockMinutes,
+    windGrid,
+    geodesicModel = 'spherical',
+    horizon = 'ground',
+    solarModel = 'meeus',
+    sunCache = createSunEphemerisCache(solarModel),
+    onProgress
   } = options;
 
-  // Generate spatial waypoints using geodesic calculations
-  const waypoints = generateWaypoints(
+  // Vertical profile gives distance, altitude and speed over time, gate to gate
+  const profile = buildTimelineProfile(origin, destination, options);
+  const { totalDistance, totalDuration } = profile;
+  onProgress?.(PROFILE_PROGRESS);
+
+  const fractionAt = (state: ProfileSample) => totalDistance > 0 ? state.distance / totalDistance : 0;
+  const placeOnRoute = (states: ProfileSample[]) => generateWaypointsAtFractions(
     { lat: origin.lat, lon: origin.lon },
     { lat: destination.lat, lon: destination.lon },
-    numPoints
+    states.map(fractionAt),
+    geodesicModel
   );
 
-  // Calculate total distance and flight duration
-  const totalDistance = waypoints[waypoints.length - 1].distance;
-  const totalDuration = (totalDistance / cruisingSpeed) * 60; // Convert to minutes
+  // Exact position at any moment, for solving sunrise/sunset instants
+  const positionAt = (elapsedMinutes: number): Position => {
+    const state = sampleFlightProfile(profile, elapsedMinutes);
+    const [wp] = placeOnRoute([state]);
+    return { lat: wp.lat, lon: wp.lon, altitude: state.altitude };
+  };
+
+  // Sample evenly in time; adaptive sampling also adds dense samples
+  // around each sunrise/sunset and one at the exact crossing
+  const steps = numPoints ?? Math.max(MIN_SAMPLES, Math.ceil(totalDuration / resolutionMinutes));
+  let sampleTimes: number[] = [];
+  for (let i = 0; i <= steps; i++) {
+    sampleTimes.push(totalDuration * i / steps);
+  }
+
+  if (numPoints === undefined) {
+    const sunriseAltitude = (altitude: number) => getSunriseSunsetAltitude(altitude, horizon);
+    const positions = sampleTimes.map(elapsedMinutes => ({
+      ...positionAt(elapsedMinutes),
+      timestamp: new Date(departureTime.getTime() + elapsedMinutes * 60000)
+    }));
+    const sun = sunPositionsAt(positions, solarModel, sunCache);
+    const coarse = positions.map((position, i) => ({
+      elapsedMinutes: sampleTimes[i],
+      isUp: sun.altitude[i] > sunriseAltitude(position.altitude)
+    }));
+    const crossings = findHorizonCrossings(coarse, departureTime, positionAt, sunAltitude(solarModel), sunriseAltitude);
+    sampleTimes = refineSampleTimes(sampleTimes, crossings.map(c => c.elapsedMinutes), totalDuration);
+  }
+  onProgress?.(SAMPLING_PROGRESS);
+
+  // Place each sample on the great circle
+  const states = sampleTimes.map(elapsedMinutes => sampleFlightProfile(profile, elapsedMinutes));
+  const waypoints = placeOnRoute(states);
+  const timestamps = states.map(state => new Date(departureTime.getTime() + state.elapsedMinutes * 60000));
+
+  // Sun positions for every waypoint in one batch
+  const sun = sunPositionsAt(waypoints.map((wp, i) => ({ lat: wp.lat, lon: wp.lon, timestamp: timestamps[i] })), solarModel, sunCache);
 
   // Generate time-stamped points with solar data
   const points: TimelinePoint[] = waypoints.map((wp, index) => {
-    const fraction = index / (waypoints.length - 1);
-    const elapsedMinutes = totalDuration * fraction;
-    const timestamp = new Date(departureTime.getTime() + elapsedMinutes * 60000);
+    const state = states[index];
+    const elapsedMinutes = state.elapsedMinutes;
+    const timestamp = timestamps[index];
+    const sunPos = { azimuth: sun.azimuth[index], altitude: sun.altitude[index] };
 
-    // Calculate sun position at this location and time
-    const sunPos = calculateSunPosition(wp.lat, wp.lon, timestamp);
+    // In the air the nose is turned into the wind to hold the track
+    let heading = wp.bearing;
+    if (windGrid && state.phase !== 'taxi') {
+      const wind = getWindAt(windGrid, wp.lat, wp.lon, state.altitude);
+      heading = calculateWindTriangle(wp.bearing, state.airspeed, wind).heading;
+    }
+
+    if ((index + 1) % PROGRESS_CHUNK_POINTS === 0) {
+      onProgress?.(SAMPLING_PROGRESS + (POINTS_PROGRESS - SAMPLING_PROGRESS) * (index + 1) / waypoints.length);
+    }
 
     return {
       lat: wp.lat,
@@ -61,20 +206,31 @@ export function generateFlightTimeline(
       elapsedMinutes,
       sunAzimuth: sunPos.azimuth,
       sunAltitude: sunPos.altitude,
-      sunZenith: sunPos.zenith,
-      isDaylight: sunPos.altitude > SUNRISE_SUNSET_ALTITUDE,
-      heading: wp.bearing,
-      speed: cruisingSpeed,
-      altitude: cruisingAltitude || undefined
+      sunZenith: 90 - sunPos.altitude,
+      isDaylight: sunPos.altitude > getSunriseSunsetAltitude(state.altitude, horizon),
+      twilightPhase: getTwilightPhase(sunPos.altitude, state.altitude, horizon),
+      ...getMoonData(wp.lat, wp.lon, timestamp),
+      heading,
+      track: wp.bearing,
+      speed: state.speed,
+      altitude: state.altitude,
+      phase: state.phase
     };
   });
 
-  // Detect sunrise/sunset events during flight
-  const sunEvents = detectSunEvents(points);
+  // Detect sunrise/sunset and moonrise/moonset events during flight
+  const sunEvents = detectSunEvents(points, horizon, solarModel, positionAt);
+  const moonEvents = detectMoonEvents(points, horizon, positionAt);
 
   // Calculate statistics
   const statistics = calculateStatistics(points);
 
+  const warnings: TimelineWarning[] = [
+    getRouteWarning(origin, destination),
+    blockMinutes !== undefined ? getScheduleWarning(profile, blockMinutes) : null
+  ].filter((warning): warning is TimelineWarning => warning !== null);
+  onProgress?.(1);
+
   return {
     points,
     origin,
@@ -82,59 +238,621 @@ export function generateFlightTimeline(
     totalDistance,
     totalDuration,
     sunEvents,
-    statistics
+    moonEvents,
+    statistics,
+    ...(aircraft && { aircraft }),
+    horizon,
+    solarModel,
+    ...(warnings.length > 0 && { warnings })
   };
 }
 
 /**
- * Detect sunrise and sunset events during the flight
- * Identifies transitions between daylight and darkness
+ * Vertical profile of a flight, gate to gate: fitted to the scheduled block
+ * time if there is one, with the aircraft's performance and any winds
  */
-function detectSunEvents(points: TimelinePoint[]): SunEvent[] {
-  const events: SunEvent[] = [];
+function buildTimelineProfile(origin: Airport, destination: Airport, options: TimelineOptions): FlightProfile {
+  const { aircraft, taxiOutMinutes, taxiInMinutes, blockMinutes, windGrid, geodesicModel = 'spherical' } = options;
 
-  for (let i = 1; i < points.length; i++) {
-    const prev = points[i - 1];
-    const curr = points[i];
-
-    // Day → Night transition (sunset)
-    if (prev.isDaylight && !curr.isDaylight) {
-      events.push({
-        type: 'sunset',
-        timestamp: curr.timestamp,
-        lat: curr.lat,
-        lon: curr.lon,
-        pointIndex: i,
-        description: `Sunset at ${formatCoordinates(curr.lat, curr.lon)}`
+  const totalDistance = calculateDistance(origin.lat, origin.lon, destination.lat, destination.lon, geodesicModel);
+
+  // Explicit options win over the aircraft profile
+  const performance = aircraft ? getCruisePerformance(aircraft, totalDistance) : undefined;
+  const {
+    cruisingSpeed = performance?.cruisingSpeed ?? 850,  // Typical commercial jet cruise speed
+    cruisingAltitude = performance?.cruisingAltitude ?? 37000,  // Typical cruise altitude (FL370)
+    climbRate = performance?.climbRate
+  } = options;
+
+  // Coarse copy of the route to look up position and track while integrating winds
+  const route = windGrid ? generateWaypoints(origin, destination, WIND_ROUTE_SEGMENTS, geodesicModel) : [];
+  const routeAt = (distance: number) => {
+    const fraction = totalDistance > 0 ? distance / totalDistance : 0;
+    return route[Math.min(Math.round(fraction * WIND_ROUTE_SEGMENTS), WIND_ROUTE_SEGMENTS)];
+  };
+
+  const profileOptions: FlightProfileOptions = {
+    cruisingSpeed,
+    cruisingAltitude,
+    climbRate,
+    descentGradient: performance?.descentGradient,
+    taxiOutMinutes,
+    taxiInMinutes,
+    groundSpeed: windGrid
+      ? (distance, altitude, airspeed) => {
+          const wp = routeAt(distance);
+          const wind = getWindAt(windGrid, wp.lat, wp.lon, altitude);
+          return calculateWindTriangle(wp.bearing, airspeed, wind).groundSpeed;
+        }
+      : undefined
+  };
+
+  return blockMinutes !== undefined
+    ? fitFlightProfile(totalDistance, profileOptions, blockMinutes)
+    : buildFlightProfile(totalDistance, profileOptions);
+}
+
+/**
+ * Warn when a scheduled block time could not be met realistically
+ * The timeline then follows the model, so its arrival differs from the
+ * schedule (too short) or it sits at the gate for hours (too long).
+ */
+function getScheduleWarning(profile: FlightProfile, blockMinutes: number): ScheduleWarning | null {
+  const mismatch = profile.blockMismatch ?? 0;
+  if (mismatch === 0) {
+    return null;
+  }
+
+  const block = formatMinutes(blockMinutes);
+  if (mismatch < 0) {
+    return {
+      type: 'block-too-short',
+      message: `Scheduled block time of ${block} is too short for this route: the fastest realistic flight ` +
+        `takes ${formatMinutes(profile.totalDuration)}, so the arrival shown is ${formatMinutes(-mismatch)} later than scheduled.`,
+      blockMinutes,
+      mismatchMinutes: mismatch
+    };
+  }
+
+  return {
+    type: 'block-too-long',
+    message: `Scheduled block time of ${block} is ${formatMinutes(mismatch)} longer than the slowest realistic flight ` +
+      'on this route: the extra time is shown as taxi-out before take-off.',
+    blockMinutes,
+    mismatchMinutes: mismatch
+  };
+}
+
+/** Duration as h:mm */
+function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Generate one stitched timeline for a multi-leg itinerary
+ * Each leg is generated on its own, then joined with ground time at the
+ * connecting airport. Points are spread so that every leg and layover is
+ * sampled at roughly the same time resolution.
+ * 
+ * @param legs Ordered legs; each leg's origin should be the previous destination
+ * @param departureTime Departure (pushback) of the first leg (UTC)
+ * @param options Optional configuration, applied to every leg
+ * @returns Stitched timeline with per-leg timelines in `legs`
+ */
+export function generateItineraryTimeline(
+  legs: ItineraryLeg[],
+  departureTime: Date,
+  options: TimelineOptions = {}
+): FlightTimeline {
+  if (legs.length === 0) {
+    throw new Error('Itinerary must contain at least one leg');
+  }
+
+  const {
+    numPoints,
+    resolutionMinutes = DEFAULT_RESOLUTION_MINUTES,
+    horizon = 'ground',
+    solarModel = 'meeus',
+    sunCache = createSunEphemerisCache(solarModel),
+    onProgress
+  } = options;
+  const legOptions: TimelineOptions = { ...options, sunCache, onProgress: undefined };
+
+  const connectionMinutes = legs.map((leg, i) =>
+    i < legs.length - 1 ? Math.max(0, leg.connectionMinutes ?? DEFAULT_CONNECTION_MINUTES) : 0
+  );
+
+  // With a fixed point budget, share it by duration (first pass: profiles only)
+  let legDurations: number[] = [];
+  let minutesPerPoint = resolutionMinutes;
+  if (numPoints !== undefined) {
+    legDurations = legs.map(leg =>
+      buildTimelineProfile(leg.origin, leg.destination, { ...legOptions, blockMinutes: leg.blockMinutes }).totalDuration
+    );
+    const itineraryMinutes = legDurations.reduce((sum, d) => sum + d, 0)
+      + connectionMinutes.reduce((sum, d) => sum + d, 0);
+    minutesPerPoint = itineraryMinutes / Math.max(numPoints, legs.length);
+  }
+
+  const points: TimelinePoint[] = [];
+  const timelineLegs: TimelineLeg[] = [];
+  let legDeparture = departureTime;
+  let totalDistance = 0;
+
+  legs.forEach((leg, i) => {
+    // Each leg reports its share; stitching afterwards is quick
+    const legProgress = onProgress && ((progress: number) => onProgress((i + progress) / legs.length));
+    const legTimeline = generateFlightTimeline(leg.origin, leg.destination, legDeparture,
+      numPoints !== undefined
+        ? { ...legOptions, blockMinutes: leg.blockMinutes, numPoints: Math.max(10, Math.round(legDurations[i] / minutesPerPoint)), onProgress: legProgress }
+        : { ...legOptions, blockMinutes: leg.blockMinutes, onProgress: legProgress }
+    );
+
+    const elapsedOffset = (legDeparture.getTime() - departureTime.getTime()) / 60000;
+    const startIndex = points.length;
+    legTimeline.points.forEach(point => {
+      points.push({
+        ...point,
+        distance: point.distance + totalDistance,
+        elapsedMinutes: point.elapsedMinutes + elapsedOffset
       });
-    }
+    });
+    const endIndex = points.length - 1;
+
+    totalDistance += legTimeline.totalDistance;
+    const arrival = legTimeline.points[legTimeline.points.length - 1].timestamp;
+    const timelineLeg: TimelineLeg = { timeline: legTimeline, startIndex, endIndex };
 
-    // Night → Day transition (sunrise)
-    if (!prev.isDaylight && curr.isDaylight) {
-      events.push({
-        type: 'sunrise',
-        timestamp: curr.timestamp,
-        lat: curr.lat,
-        lon: curr.lon,
-        pointIndex: i,
-        description: `Sunrise at ${formatCoordinates(curr.lat, curr.lon)}`
+    if (i < legs.length - 1) {
+      const minutes = connectionMinutes[i];
+      const groundPoints = Math.max(2, Math.round(minutes / minutesPerPoint));
+      const lastPoint = points[endIndex];
+
+      // Interior ground points at the connecting airport
+      const elapsedTimes = Array.from({ length: groundPoints - 1 }, (_, j) => (minutes * (j + 1)) / groundPoints);
+      const sun = sunPositionsAt(
+        elapsedTimes.map(elapsed => ({ lat: lastPoint.lat, lon: lastPoint.lon, timestamp: new Date(arrival.getTime() + elapsed * 60000) })),
+        solarModel,
+        sunCache
+      );
+      elapsedTimes.forEach((elapsed, j) => {
+        const timestamp = new Date(arrival.getTime() + elapsed * 60000);
+        const sunPos = { azimuth: sun.azimuth[j], altitude: sun.altitude[j] };
+
+        points.push({
+          ...lastPoint,
+          timestamp,
+          elapsedMinutes: lastPoint.elapsedMinutes + elapsed,
+          sunAzimuth: sunPos.azimuth,
+          sunAltitude: sunPos.altitude,
+          sunZenith: 90 - sunPos.altitude,
+          isDaylight: sunPos.altitude > getSunriseSunsetAltitude(0, horizon),
+          twilightPhase: getTwilightPhase(sunPos.altitude, 0, horizon),
+          ...getMoonData(lastPoint.lat, lastPoint.lon, timestamp),
+          speed: 0,
+          altitude: 0,
+          phase: 'layover'
+        });
       });
+
+      legDeparture = new Date(arrival.getTime() + minutes * 60000);
+      timelineLeg.layover = {
+        airport: leg.destination,
+        arrival,
+        departure: legDeparture,
+        minutes,
+        startIndex: endIndex,
+        endIndex: points.length
+      };
     }
+
+    timelineLegs.push(timelineLeg);
+  });
+
+  const totalDuration = points[points.length - 1].elapsedMinutes;
+  const warnings = timelineLegs.flatMap(({ timeline }, i) =>
+    (timeline.warnings ?? []).map(warning => ({
+      ...warning,
+      message: `Leg ${i + 1} (${timeline.origin.iata} → ${timeline.destination.iata}): ${warning.message}`
+    }))
+  );
+
+  return {
+    points,
+    origin: legs[0].origin,
+    destination: legs[legs.length - 1].destination,
+    totalDistance,
+    totalDuration,
+    sunEvents: detectSunEvents(points, horizon, solarModel),
+    moonEvents: detectMoonEvents(points, horizon),
+    statistics: calculateStatistics(points),
+    legs: timelineLegs,
+    ...(options.aircraft && { aircraft: options.aircraft }),
+    horizon,
+    solarModel,
+    ...(warnings.length > 0 && { warnings })
+  };
+}
+
+/**
+ * Build a timeline from a recorded flight track
+ * Positions and timestamps are used as recorded; only the solar data,
+ * sun events and statistics are computed on top of them.
+ * 
+ * @param track Recorded positions, in any order (sorted by time here)
+ * @param origin Departure airport
+ * @param destination Arrival airport
+ * @param aircraft Aircraft type, used for its cabin window geometry
+ * @param horizon Sunrise/sunset definition; the window horizon uses the recorded altitudes
+ * @param solarModel Sun position algorithm
+ * @returns Timeline with one point per distinct track timestamp
+ */
+export function generateTimelineFromTrack(
+  track: TrackPoint[],
+  origin: Airport,
+  destination: Airport,
+  aircraft?: AircraftProfile,
+  horizon: HorizonDefinition = 'ground',
+  solarModel: SolarModel = 'meeus'
+): FlightTimeline {
+  // Sort by time and drop repeated timestamps
+  const sorted = [...track]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .filter((p, i, arr) => i === 0 || p.timestamp.getTime() > arr[i - 1].timestamp.getTime());
+
+  if (sorted.length < 2) {
+    throw new Error('Track needs at least two positions with distinct timestamps');
   }
 
-  return events;
+  const start = sorted[0].timestamp.getTime();
+  const sun = sunPositionsAt(sorted, solarModel, createSunEphemerisCache(solarModel));
+  let distance = 0;
+
+  const points: TimelinePoint[] = sorted.map((tp, i) => {
+    const prev = sorted[i - 1];
+    const next = sorted[i + 1];
+
+    if (prev) {
+      distance += calculateDistance(prev.lat, prev.lon, tp.lat, tp.lon);
+    }
+
+    // Direction and speed from neighbouring positions when not recorded
+    const [from, to] = next ? [tp, next] : [prev, tp];
+    const legMinutes = (to.timestamp.getTime() - from.timestamp.getTime()) / 60000;
+    const legDistance = calculateDistance(from.lat, from.lon, to.lat, to.lon);
+    const track = tp.track ?? (legDistance > 0
+      ? calculateInitialBearing(from.lat, from.lon, to.lat, to.lon)
+      : 0);
+    const speed = tp.speed ?? (legDistance / legMinutes) * 60;
+
+    const sunPos = { azimuth: sun.azimuth[i], altitude: sun.altitude[i] };
+
+    return {
+      lat: tp.lat,
+      lon: tp.lon,
+      distance,
+      timestamp: tp.timestamp,
+      elapsedMinutes: (tp.timestamp.getTime() - start) / 60000,
+      sunAzimuth: sunPos.azimuth,
+      sunAltitude: sunPos.altitude,
+      sunZenith: 90 - sunPos.altitude,
+      isDaylight: sunPos.altitude > getSunriseSunsetAltitude(tp.altitude ?? 0, horizon),
+      twilightPhase: getTwilightPhase(sunPos.altitude, tp.altitude ?? 0, horizon),
+      ...getMoonData(tp.lat, tp.lon, tp.timestamp),
+      heading: track,
+      track,
+      speed,
+      altitude: tp.altitude,
+      phase: inferPhase(sorted, i, speed)
+    };
+  });
+
+  return {
+    points,
+    origin,
+    destination,
+    totalDistance: distance,
+    totalDuration: points[points.length - 1].elapsedMinutes,
+    sunEvents: detectSunEvents(points, horizon, solarModel),
+    moonEvents: detectMoonEvents(points, horizon),
+    statistics: calculateStatistics(points),
+    ...(aircraft && { aircraft }),
+    horizon,
+    solarModel
+  };
+}
+
+/**
+ * Minutes of flight each point stands for: half the gap to each neighbour
+ * Sums to the total duration, also for unevenly spaced (recorded) points
+ */
+export function getPointMinutes(points: TimelinePoint[]): number[] {
+  return points.map((point, i) => {
+    const before = i > 0 ? point.elapsedMinutes - points[i - 1].elapsedMinutes : 0;
+    const after = i < points.length - 1 ? points[i + 1].elapsedMinutes - point.elapsedMinutes : 0;
+    return (before + after) / 2;
+  });
+}
+
+/**
+ * Guess the flight phase of a recorded position from altitude and vertical speed
+ */
+function inferPhase(track: TrackPoint[], i: number, speed: number): FlightPhase {
+  const point = track[i];
+  if (point.altitude === undefined) {
+    return 'cruise';
+  }
+  if (point.altitude < 100 && speed < 100) {
+    return 'taxi';
+  }
+
+  // Vertical speed over the neighbouring positions, ft/min
+  const a = track[Math.max(i - 1, 0)];
+  const b = track[Math.min(i + 1, track.length - 1)];
+  const minutes = (b.timestamp.getTime() - a.timestamp.getTime()) / 60000;
+  const verticalSpeed = a.altitude !== undefined && b.altitude !== undefined && minutes > 0
+    ? (b.altitude - a.altitude) / minutes
+    : 0;
+
+  if (verticalSpeed > 300) return 'climb';
+  if (verticalSpeed < -300) return point.altitude < 3000 ? 'approach' : 'descent';
+  return 'cruise';
+}
+
+/**
+ * Index of the first point at or after an elapsed time
+ * (the last point when the time is past the end)
+ */
+export function findPointIndexAtTime(points: TimelinePoint[], elapsedMinutes: number): number {
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (points[mid].elapsedMinutes < elapsedMinutes - 1e-9) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Detect sunrise, sunset, golden/blue hour and twilight events along the timeline
+ * Each transition between samples is solved for the exact instant and
+ * position where the sun crosses the boundary altitude.
+ * 
+ * @param horizon Sunrise/sunset definition the points were classified with
+ * @param solarModel Sun position algorithm the points were computed with
+ * @param positionAt Position at any elapsed time; defaults to linear
+ *   interpolation between neighbouring points
+ */
+function detectSunEvents(
+  points: TimelinePoint[],
+  horizon: HorizonDefinition,
+  solarModel: SolarModel,
+  positionAt: (elapsedMinutes: number) => Position = interpolatePosition(points)
+): SunEvent[] {
+  const start = getStartTime(points);
+
+  return SUN_EVENT_BOUNDARIES
+    .flatMap(boundary => {
+      const threshold = (altitude: number) => boundary.altitude - getHorizonDepression(altitude, horizon);
+      const samples = points.map(p => ({
+        elapsedMinutes: p.elapsedMinutes,
+        isUp: p.sunAltitude > threshold(p.altitude ?? 0)
+      }));
+      const crossings = findHorizonCrossings(samples, start, positionAt, sunAltitude(solarModel), threshold);
+      return toEvents(points, crossings, rising => rising ? boundary.rising : boundary.setting);
+    })
+    .sort((a, b) => a.elapsedMinutes - b.elapsedMinutes);
+}
+
+/**
+ * Detect moonrise and moonset events along the timeline, like detectSunEvents
+ */
+function detectMoonEvents(
+  points: TimelinePoint[],
+  horizon: HorizonDefinition,
+  positionAt: (elapsedMinutes: number) => Position = interpolatePosition(points)
+): MoonEvent[] {
+  const threshold = (altitude: number) => MOONRISE_MOONSET_ALTITUDE - getHorizonDepression(altitude, horizon);
+  const samples = points.map(p => ({
+    elapsedMinutes: p.elapsedMinutes,
+    isUp: p.moonAltitude > threshold(p.altitude ?? 0)
+  }));
+  const crossings = findHorizonCrossings(samples, getStartTime(points), positionAt, moonAltitude, threshold);
+  return toEvents(points, crossings, rising => rising ? 'moonrise' : 'moonset');
+}
+
+function getStartTime(points: TimelinePoint[]): Date {
+  return new Date(points[0].timestamp.getTime() - points[0].elapsedMinutes * 60000);
+}
+
+/**
+ * Moon position, illumination and phase fields of a timeline point
+ */
+function getMoonData(lat: number, lon: number, timestamp: Date) {
+  const moon = calculateMoonPosition(lat, lon, timestamp);
+  return {
+    moonAzimuth: moon.azimuth,
+    moonAltitude: moon.altitude,
+    moonIllumination: moon.illumination,
+    moonPhase: moon.phase
+  };
+}
+
+/**
+ * Time-stamp and describe horizon crossings as timeline events
+ */
+function toEvents<T extends SunEventType | MoonEvent['type']>(
+  points: TimelinePoint[],
+  crossings: HorizonCrossing[],
+  typeOf: (rising: boolean) => T
+) {
+  const start = getStartTime(points);
+
+  return crossings.map(crossing => {
+    const lon = ((crossing.lon % 360) + 540) % 360 - 180;
+    const type = typeOf(crossing.rising);
+
+    return {
+      type,
+      timestamp: new Date(start.getTime() + crossing.elapsedMinutes * 60000),
+      elapsedMinutes: crossing.elapsedMinutes,
+      lat: crossing.lat,
+      lon,
+      pointIndex: findPointIndexAtTime(points, crossing.elapsedMinutes - EVENT_TOLERANCE_MINUTES),
+      description: `${SKY_EVENT_LABELS[type]} at ${formatCoordinates(crossing.lat, lon)}`
+    };
+  });
+}
+
+// Sun positions at many places and times, in one batch
+function sunPositionsAt(
+  samples: { lat: number; lon: number; timestamp: Date }[],
+  solarModel: SolarModel,
+  cache: SunEphemerisCache
+): SunPositionBatch {
+  return calculateSunPositions(
+    Float64Array.from(samples, s => s.lat),
+    Float64Array.from(samples, s => s.lon),
+    Float64Array.from(samples, s => s.timestamp.getTime()),
+    solarModel,
+    cache
+  );
+}
+
+// Altitude of the sun or moon at a place and time, in degrees
+type BodyAltitude = (lat: number, lon: number, timestamp: Date) => number;
+
+function sunAltitude(solarModel: SolarModel): BodyAltitude {
+  return (lat, lon, timestamp) => getSunPosition(lat, lon, timestamp, solarModel).altitude;
+}
+
+function moonAltitude(lat: number, lon: number, timestamp: Date): number {
+  return calculateMoonPosition(lat, lon, timestamp).altitude;
+}
+
+interface HorizonCrossing {
+  rising: boolean;
+  elapsedMinutes: number;
+  lat: number;
+  lon: number;
+}
+
+// Aircraft position; altitude in feet
+interface Position {
+  lat: number;
+  lon: number;
+  altitude: number;
+}
+
+/**
+ * Find where the sun or moon crosses a boundary altitude between samples
+ * Bisects each bracketing interval on the true altitude at the position
+ * returned by positionAt.
+ * 
+ * @param samples Elapsed times with whether the body is above the boundary at each
+ * @param start Time at elapsed minute zero
+ * @param threshold Boundary altitude of the body for an aircraft altitude (feet)
+ */
+function findHorizonCrossings(
+  samples: { elapsedMinutes: number; isUp: boolean }[],
+  start: Date,
+  positionAt: (elapsedMinutes: number) => Position,
+  bodyAltitude: BodyAltitude,
+  threshold: (altitude: number) => number
+): HorizonCrossing[] {
+  const upAt = (elapsedMinutes: number) => {
+    const { lat, lon, altitude } = positionAt(elapsedMinutes);
+    const timestamp = new Date(start.getTime() + elapsedMinutes * 60000);
+    return bodyAltitude(lat, lon, timestamp) > threshold(altitude);
+  };
+
+  const crossings: HorizonCrossing[] = [];
+
+  for (let i = 1; i < samples.length; i++) {
+    const prev = samples[i - 1];
+    const curr = samples[i];
+    if (prev.isUp === curr.isUp) continue;
+
+    let low = prev.elapsedMinutes;
+    let high = curr.elapsedMinutes;
+    while (high - low > EVENT_TOLERANCE_MINUTES) {
+      const mid = (low + high) / 2;
+      if (upAt(mid) === prev.isUp) low = mid;
+      else high = mid;
+    }
+
+    const elapsedMinutes = (low + high) / 2;
+    const { lat, lon } = positionAt(elapsedMinutes);
+    crossings.push({ rising: curr.isUp, elapsedMinutes, lat, lon });
+  }
+
+  return crossings;
+}
+
+/**
+ * Add dense samples around each event and one at the event itself
+ */
+function refineSampleTimes(times: number[], eventTimes: number[], totalDuration: number): number[] {
+  const refined = [...times];
+
+  eventTimes.forEach(eventTime => {
+    refined.push(eventTime);
+    for (let dt = EVENT_RESOLUTION_MINUTES; dt <= EVENT_WINDOW_MINUTES; dt += EVENT_RESOLUTION_MINUTES) {
+      if (eventTime - dt > 0) refined.push(eventTime - dt);
+      if (eventTime + dt < totalDuration) refined.push(eventTime + dt);
+    }
+  });
+
+  refined.sort((a, b) => a - b);
+  return refined.filter((t, i) => i === 0 || t - refined[i - 1] > 1e-6);
+}
+
+/**
+ * Position at any elapsed time by linear interpolation between points
+ * (used where the path between samples is not known, e.g. recorded tracks)
+ */
+function interpolatePosition(points: TimelinePoint[]) {
+  return (elapsedMinutes: number): Position => {
+    const i = Math.max(1, findPointIndexAtTime(points, elapsedMinutes));
+    const prev = points[i - 1];
+    const next = points[i];
+    const span = next.elapsedMinutes - prev.elapsedMinutes;
+    const f = span > 0 ? Math.min(1, Math.max(0, (elapsedMinutes - prev.elapsedMinutes) / span)) : 0;
+    const Δlon = ((next.lon - prev.lon + 540) % 360) - 180;
+    const prevAltitude = prev.altitude ?? 0;
+
+    return {
+      lat: prev.lat + (next.lat - prev.lat) * f,
+      lon: prev.lon + Δlon * f,
+      altitude: prevAltitude + ((next.altitude ?? 0) - prevAltitude) * f
+    };
+  };
 }
 
 /**
  * Calculate statistical summary of sun exposure during flight
  */
 function calculateStatistics(points: TimelinePoint[]): TimelineStatistics {
-  const daylightPoints = points.filter(p => p.isDaylight);
+  const pointMinutes = getPointMinutes(points);
   const totalDuration = points[points.length - 1].elapsedMinutes;
   
-  const daylightMinutes = (daylightPoints.length / points.length) * totalDuration;
+  const daylightMinutes = points.reduce((sum, p, i) => sum + (p.isDaylight ? pointMinutes[i] : 0), 0);
   const darknessMinutes = totalDuration - daylightMinutes;
 
+  const phaseMinutes: Record<TwilightPhase, number> = {
+    'day': 0,
+    'golden-hour': 0,
+    'civil': 0,
+    'nautical': 0,
+    'astronomical': 0,
+    'night': 0
+  };
+  points.forEach((p, i) => {
+    phaseMinutes[p.twilightPhase] += pointMinutes[i];
+  });
+
   const sunAltitudes = points.map(p => p.sunAltitude);
   const averageSunAltitude = sunAltitudes.reduce((sum, alt) => sum + alt, 0) / sunAltitudes.length;
 
@@ -142,6 +860,7 @@ function calculateStatistics(points: TimelinePoint[]): TimelineStatistics {
     daylightMinutes,
     darknessMinutes,
     daylightPercentage: (daylightMinutes / totalDuration) * 100,
+    phaseMinutes,
     averageSunAltitude,
     maxSunAltitude: Math.max(...sunAltitudes),
     minSunAltitude: Math.min(...sunAltitudes)
@@ -0,0 +1,180 @@
+/**
+ * Local wall-clock times in IANA timezones (DST-aware, via Intl)
+ */
+
+/**
+ * Offset of a timezone from UTC at an instant, in minutes (east positive)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(p => p.type === type)?.value);
+
+  const wallClock = Date.UTC(
+    part('year'), part('month') - 1, part('day'),
+    part('hour'), part('minute'), part('second')
+  );
+  return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * How a local wall-clock time is chosen when DST makes it ambiguous (it
+ * happens twice as clocks go back) or skipped (clocks go forward past it)
+ * 'compatible' takes the earlier instant of an ambiguous time and moves a
+ * skipped time forward by the gap, as the clocks do.
+ */
+export type Disambiguation = 'compatible' | 'earlier' | 'later' | 'reject';
+
+/**
+ * The instants a local date and time can mean in a timezone
+ * For a skipped time, `earlier` moves it back by the gap (read with the
+ * offset after the change) and `later` moves it forward (offset before).
+ */
+export interface LocalTimeResolution {
+  kind: 'unique' | 'ambiguous' | 'skipped';
+  earlier: Date;
+  later: Date;  // Same as `earlier` for unique times
+}
+
+const DAY_MS = 86400000;
+
+/**
+ * Find the UTC instants a local date and time correspond to in a timezone
+ *
+ * @param date Local date, YYYY-MM-DD
+ * @param time Local time, HH:mm
+ * @param timeZone IANA timezone, e.g. 'Europe/London'
+ * @throws Error for malformed dates/times or unknown timezones
+ */
+export function resolveLocalTime(date: string, time: string, timeZone: string): LocalTimeResolution {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  const timeMatch = /^(\d{2}):(\d{2})$/.exec(time);
+  if (!dateMatch || !timeMatch) {
+    throw new Error('Invalid date or time');
+  }
+
+  const [year, month, day] = dateMatch.slice(1).map(Number);
+  const [hours, minutes] = timeMatch.slice(1).map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  if (isNaN(wallClock)) {
+    throw new Error('Invalid date or time');
+  }
+
+  // Offsets in force a day either side; DST changes are further apart than that
+  const offsetBefore = getTimeZoneOffset(new Date(wallClock - DAY_MS), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(wallClock + DAY_MS), timeZone);
+
+  // An offset gives a valid reading if the zone really uses it at that instant
+  const readings = [...new Set([offsetBefore, offsetAfter])]
+    .map(offset => wallClock - offset * 60000)
+    .filter(utc => getTimeZoneOffset(new Date(utc), timeZone) * 60000 === wallClock - utc)
+    .sort((a, b) => a - b);
+
+  if (readings.length === 0) {
+    return {
+      kind: 'skipped',
+      earlier: new Date(wallClock - offsetAfter * 60000),
+      later: new Date(wallClock - offsetBefore * 60000)
+    };
+  }
+  return {
+    kind: readings.length > 1 ? 'ambiguous' : 'unique',
+    earlier: new Date(readings[0]),
+    later: new Date(readings[readings.length - 1])
+  };
+}
+
+/**
+ * Convert a local date and time in a timezone to a UTC instant
+ *
+ * @param date Local date, YYYY-MM-DD
+ * @param time Local time, HH:mm
+ * @param timeZone IANA timezone, e.g. 'Europe/London'
+ * @param disambiguation Choice for times made ambiguous or skipped by DST
+ * @throws Error for malformed dates/times, unknown timezones, and with
+ *   'reject' for ambiguous or skipped times
+ */
+export function localTimeToUtc(
+  date: string,
+  time: string,
+  timeZone: string,
+  disambiguation: Disambiguation = 'compatible'
+): Date {
+  const { kind, earlier, later } = resolveLocalTime(date, time, timeZone);
+
+  if (kind !== 'unique' && disambiguation === 'reject') {
+    throw new Error(kind === 'skipped'
+      ? `${time} on ${date} does not exist in ${timeZone} (clocks go forward)`
+      : `${time} on ${date} happens twice in ${timeZone} (clocks go back)`);
+  }
+  if (disambiguation === 'later' || (disambiguation === 'compatible' && kind === 'skipped')) {
+    return later;
+  }
+  return earlier;
+}
+
+/**
+ * Format an offset from UTC in minutes, e.g. "UTC+5:30" or "UTC-4:00"
+ */
+export function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `UTC${sign}${Math.floor(absolute / 60)}:${String(absolute % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Parse a duration typed as "H:MM" (or plain minutes)
+ *
+ * @returns Minutes, or null when the text is not a positive duration
+ */
+export function parseDuration(text: string): number | null {
+  const match = /^\s*(\d+)(?::(\d{1,2}))?\s*$/.exec(text);
+  if (!match) return null;
+
+  const minutes = match[2] === undefined
+    ? Number(match[1])
+    : Number(match[1]) * 60 + Number(match[2]);
+  if (match[2] !== undefined && Number(match[2]) >= 60) return null;
+  return minutes > 0 ? minutes : null;
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function getLocalDate(date: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+}
+
+/**
+ * UTC instant of local midnight on the day containing an instant
+ */
+export function startOfLocalDay(date: Date, timeZone: string): Date {
+  return localTimeToUtc(getLocalDate(date, timeZone), '00:00', timeZone);
+}
+
+/**
+ * Local wall-clock time (HH:mm) of an instant in a timezone
+ */
+export function getLocalTime(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hourCycle: 'h23',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).format(date);
+}
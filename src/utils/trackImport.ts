@@ -0,0 +1,286 @@
+/**
+ * Import recorded flight tracks: GPX, KML (gx:Track or time-stamped
+ * placemarks) and ADS-B style CSV exports
+ */
+
+import { Airport, TrackPoint } from '@/types';
+import { calculateDistance } from './geodesic';
+
+export type TrackFormat = 'gpx' | 'kml' | 'csv';
+
+const METERS_TO_FEET = 3.28084;
+const KNOTS_TO_KMH = 1.852;
+
+/**
+ * Parse a track file, picking the format from the file name or content
+ *
+ * @param text File contents
+ * @param fileName Used to detect the format by extension
+ * @throws Error when the format is unknown or the file has no usable positions
+ */
+export function parseTrackFile(text: string, fileName: string = ''): TrackPoint[] {
+  const format = detectTrackFormat(text, fileName);
+  const points = format === 'gpx' ? parseGpx(text)
+    : format === 'kml' ? parseKml(text)
+    : parseAdsbCsv(text);
+
+  if (points.length < 2) {
+    throw new Error('Track must contain at least two time-stamped positions');
+  }
+  return points;
+}
+
+/**
+ * Detect the track format from the extension, falling back to content sniffing
+ */
+export function detectTrackFormat(text: string, fileName: string = ''): TrackFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'gpx' || extension === 'kml' || extension === 'csv') {
+    return extension;
+  }
+
+  const head = text.trimStart().slice(0, 500).toLowerCase();
+  if (head.includes('<gpx')) return 'gpx';
+  if (head.includes('<kml')) return 'kml';
+  if (!head.startsWith('<')) return 'csv';
+
+  throw new Error('Unrecognised track format (expected GPX, KML or CSV)');
+}
+
+/**
+ * Parse GPX track points (<trkpt> with <time> and optional <ele> in meters)
+ */
+export function parseGpx(text: string): TrackPoint[] {
+  const doc = parseXml(text);
+  const points: TrackPoint[] = [];
+
+  Array.from(doc.getElementsByTagName('trkpt')).forEach(el => {
+    const lat = parseFloat(el.getAttribute('lat') || '');
+    const lon = parseFloat(el.getAttribute('lon') || '');
+    const time = childText(el, 'time');
+    const ele = childText(el, 'ele');
+    const timestamp = time ? parseTimestamp(time) : null;
+
+    if (!isValidPosition(lat, lon) || !timestamp) return;
+    points.push({
+      lat,
+      lon,
+      timestamp,
+      altitude: ele ? parseFloat(ele) * METERS_TO_FEET : undefined
+    });
+  });
+
+  return points;
+}
+
+/**
+ * Parse KML tracks: <gx:Track> (paired <when>/<gx:coord>) or placemarks
+ * with a <TimeStamp> and a <Point>. Altitudes are in meters.
+ */
+export function parseKml(text: string): TrackPoint[] {
+  const doc = parseXml(text);
+  const points: TrackPoint[] = [];
+
+  // gx:Track - parallel lists of timestamps and "lon lat alt" coordinates
+  Array.from(doc.getElementsByTagNameNS('*', 'Track')).forEach(trackEl => {
+    const whens = Array.from(trackEl.getElementsByTagNameNS('*', 'when'));
+    const coords = Array.from(trackEl.getElementsByTagNameNS('*', 'coord'));
+    const count = Math.min(whens.length, coords.length);
+
+    for (let i = 0; i < count; i++) {
+      const [lon, lat, alt] = (coords[i].textContent || '').trim().split(/\s+/).map(parseFloat);
+      const timestamp = parseTimestamp(whens[i].textContent || '');
+      if (!isValidPosition(lat, lon) || !timestamp) continue;
+      points.push({
+        lat,
+        lon,
+        timestamp,
+        altitude: isFinite(alt) ? alt * METERS_TO_FEET : undefined
+      });
+    }
+  });
+
+  if (points.length > 0) {
+    return points;
+  }
+
+  // Time-stamped placemarks - "lon,lat,alt" coordinates
+  Array.from(doc.getElementsByTagName('Placemark')).forEach(placemark => {
+    const when = placemark.getElementsByTagName('TimeStamp')[0]?.getElementsByTagName('when')[0];
+    const coordinates = placemark.getElementsByTagName('Point')[0]?.getElementsByTagName('coordinates')[0];
+    if (!when || !coordinates) return;
+
+    const [lon, lat, alt] = (coordinates.textContent || '').trim().split(',').map(parseFloat);
+    const timestamp = parseTimestamp(when.textContent || '');
+    if (!isValidPosition(lat, lon) || !timestamp) return;
+    points.push({
+      lat,
+      lon,
+      timestamp,
+      altitude: isFinite(alt) ? alt * METERS_TO_FEET : undefined
+    });
+  });
+
+  if (points.length === 0 && doc.getElementsByTagName('LineString').length > 0) {
+    throw new Error('KML route has no timestamps; export it as a track (gx:Track) instead');
+  }
+
+  return points;
+}
+
+/**
+ * Parse an ADS-B style CSV export with a header row
+ *
+ * Recognised columns (case-insensitive): time/timestamp/utc, lat/latitude,
+ * lon/lng/longitude, alt/altitude (feet), track/heading/direction (degrees),
+ * speed/gs (knots). A combined "position" column holding "lat,lon" is also
+ * accepted, as found in Flightradar24 exports. Times may be ISO 8601 or
+ * Unix seconds.
+ */
+export function parseAdsbCsv(text: string): TrackPoint[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length < 2) {
+    throw new Error('CSV must have a header row and at least one data row');
+  }
+
+  const header = splitCsvLine(lines[0]).map(h => h.trim().toLowerCase());
+  const column = (...names: string[]) => header.findIndex(h => names.includes(h));
+  // First of the names present, in order of preference rather than file order
+  const preferredColumn = (...names: string[]) => names.map(name => header.indexOf(name)).find(i => i >= 0) ?? -1;
+
+  // Prefer a numeric timestamp column, fall back to a textual UTC one
+  const utcCol = preferredColumn('utc', 'datetime');
+  const timestampCol = preferredColumn('timestamp', 'time');
+  const timeCol = timestampCol >= 0 ? timestampCol : utcCol;
+  const latCol = column('lat', 'latitude');
+  const lonCol = column('lon', 'lng', 'long', 'longitude');
+  const positionCol = column('position');
+  const altCol = column('alt', 'altitude', 'alt_ft', 'altitude_ft');
+  const trackCol = column('track', 'heading', 'direction', 'course');
+  const speedCol = column('speed', 'gs', 'ground_speed', 'groundspeed');
+
+  if (timeCol < 0) {
+    throw new Error('CSV is missing a time column');
+  }
+  if ((latCol < 0 || lonCol < 0) && positionCol < 0) {
+    throw new Error('CSV is missing latitude/longitude columns');
+  }
+
+  const points: TrackPoint[] = [];
+
+  lines.slice(1).forEach(line => {
+    const cells = splitCsvLine(line);
+    const number = (col: number) => (col >= 0 ? parseFloat(cells[col]) : NaN);
+
+    let lat = number(latCol);
+    let lon = number(lonCol);
+    if ((!isFinite(lat) || !isFinite(lon)) && positionCol >= 0) {
+      [lat, lon] = (cells[positionCol] || '').split(',').map(parseFloat);
+    }
+
+    const timestamp = parseTimestamp(cells[timeCol] || '')
+      || (utcCol >= 0 && utcCol !== timeCol ? parseTimestamp(cells[utcCol] || '') : null);
+
+    if (!isValidPosition(lat, lon) || !timestamp) return;
+
+    const altitude = number(altCol);
+    const track = number(trackCol);
+    const speed = number(speedCol);
+
+    points.push({
+      lat,
+      lon,
+      timestamp,
+      altitude: isFinite(altitude) ? altitude : undefined,
+      track: isFinite(track) ? ((track % 360) + 360) % 360 : undefined,
+      speed: isFinite(speed) ? speed * KNOTS_TO_KMH : undefined
+    });
+  });
+
+  return points;
+}
+
+/**
+ * Find the airport closest to a position (e.g. the ends of an imported track)
+ */
+export function findNearestAirport(lat: number, lon: number, airports: Airport[]): Airport | null {
+  let nearest: Airport | null = null;
+  let nearestDistance = Infinity;
+
+  for (const airport of airports) {
+    const distance = calculateDistance(lat, lon, airport.lat, airport.lon);
+    if (distance < nearestDistance) {
+      nearest = airport;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Parse ISO 8601 (assumed UTC without an offset) or Unix seconds/milliseconds
+ */
+function parseTimestamp(value: string): Date | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const number = parseFloat(trimmed);
+    const date = new Date(number > 1e12 ? number : number * 1000);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  let iso = trimmed.replace(' ', 'T');
+  if (!/(Z|[+-]\d{2}:?\d{2})$/i.test(iso)) {
+    iso += 'Z';
+  }
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Split one CSV line, honouring double-quoted cells
+ */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+
+  return cells;
+}
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Track file is not well-formed XML');
+  }
+  return doc;
+}
+
+function childText(el: Element, tagName: string): string | null {
+  const child = el.getElementsByTagName(tagName)[0];
+  return child?.textContent?.trim() || null;
+}
+
+function isValidPosition(lat: number, lon: number): boolean {
+  return isFinite(lat) && isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+}
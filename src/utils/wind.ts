@@ -0,0 +1,231 @@
+/**
+ * Upper-air wind grids and the wind triangle
+ *
+ * Wind files are JSON documents holding u/v components on a regular
+ * level × latitude × longitude grid:
+ *
+ *   {
+ *     "units": "kt",                 // "m/s" (default), "kt" or "km/h"
+ *     "validTime": "2024-06-21T12:00:00Z",
+ *     "levels": [300, 340, 390],      // flight levels, ascending
+ *     "lats": [-90, ..., 90],         // ascending
+ *     "lons": [-180, ..., 175],       // ascending
+ *     "u": [[[...lon] ...lat] ...level],
+ *     "v": [[[...lon] ...lat] ...level]
+ *   }
+ *
+ * Components are converted to km/h on load so they combine directly
+ * with the airspeeds used elsewhere.
+ */
+
+import { WindGrid } from '@/types';
+import { toRadians, toDegrees } from './solar';
+
+/**
+ * Wind vector in km/h (u = towards east, v = towards north)
+ */
+export interface WindVector {
+  u: number;
+  v: number;
+}
+
+/**
+ * Result of solving the wind triangle for a desired track
+ */
+export interface WindTriangle {
+  heading: number;              // Where the nose must point (0-360)
+  groundSpeed: number;          // km/h along the track
+  windCorrectionAngle: number;  // heading - track, degrees (negative = nose left)
+  headwind: number;             // km/h, positive against the direction of travel
+  crosswind: number;            // km/h, positive from the left (pushing right)
+}
+
+const UNIT_TO_KMH: Record<string, number> = {
+  'm/s': 3.6,
+  'kt': 1.852,
+  'km/h': 1
+};
+
+/**
+ * Validate a parsed wind file and convert it to a WindGrid in km/h
+ *
+ * @param data Parsed JSON document
+ * @throws Error describing the first problem found
+ */
+export function parseWindGrid(data: unknown): WindGrid {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Wind file must be a JSON object');
+  }
+  const raw = data as Record<string, unknown>;
+
+  const units = raw.units === undefined ? 'm/s' : String(raw.units);
+  const factor = UNIT_TO_KMH[units];
+  if (factor === undefined) {
+    throw new Error(`Unsupported wind units "${units}" (expected m/s, kt or km/h)`);
+  }
+
+  const levels = parseAxis(raw.levels, 'levels');
+  const lats = parseAxis(raw.lats, 'lats');
+  const lons = parseAxis(raw.lons, 'lons');
+
+  const parseComponent = (value: unknown, name: string): number[][][] => {
+    if (!Array.isArray(value) || value.length !== levels.length) {
+      throw new Error(`Wind component "${name}" must have one entry per level`);
+    }
+    return value.map((level, i) => {
+      if (!Array.isArray(level) || level.length !== lats.length) {
+        throw new Error(`Wind component "${name}" level ${i} must have one row per latitude`);
+      }
+      return level.map((row, j) => {
+        if (!Array.isArray(row) || row.length !== lons.length) {
+          throw new Error(`Wind component "${name}" level ${i} row ${j} must have one value per longitude`);
+        }
+        return row.map(speed => {
+          if (typeof speed !== 'number' || !isFinite(speed)) {
+            throw new Error(`Wind component "${name}" contains a non-numeric value`);
+          }
+          return speed * factor;
+        });
+      });
+    });
+  };
+
+  return {
+    levels,
+    lats,
+    lons,
+    u: parseComponent(raw.u, 'u'),
+    v: parseComponent(raw.v, 'v'),
+    validTime: typeof raw.validTime === 'string' ? raw.validTime : undefined,
+    source: typeof raw.source === 'string' ? raw.source : undefined
+  };
+}
+
+/**
+ * Read and parse a wind grid from a local file chosen by the user
+ */
+export async function loadWindGridFile(file: File): Promise<WindGrid> {
+  const text = await file.text();
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${file.name} is not valid JSON`);
+  }
+  return parseWindGrid(data);
+}
+
+/**
+ * Interpolate the wind at a position and altitude
+ * Bilinear in latitude/longitude, linear between flight levels.
+ * Outside the grid the nearest edge value is used; longitudes wrap
+ * around when the grid covers the whole globe.
+ *
+ * @param altitude Altitude in feet
+ */
+export function getWindAt(grid: WindGrid, lat: number, lon: number, altitude: number): WindVector {
+  const level = axisPosition(grid.levels, altitude / 100);
+  const row = axisPosition(grid.lats, lat);
+  const col = lonPosition(grid.lons, lon);
+
+  const sample = (component: number[][][]) => {
+    const at = (k: number) => {
+      const top = component[k][row.i0][col.i0] * (1 - col.f) + component[k][row.i0][col.i1] * col.f;
+      const bottom = component[k][row.i1][col.i0] * (1 - col.f) + component[k][row.i1][col.i1] * col.f;
+      return top * (1 - row.f) + bottom * row.f;
+    };
+    return at(level.i0) * (1 - level.f) + at(level.i1) * level.f;
+  };
+
+  return { u: sample(grid.u), v: sample(grid.v) };
+}
+
+/**
+ * Solve the wind triangle: heading and ground speed needed to hold a track
+ *
+ * @param track Desired direction over the ground (0-360)
+ * @param trueAirspeed Speed through the air, km/h
+ * @param wind Wind vector (direction the air moves towards), km/h
+ */
+export function calculateWindTriangle(
+  track: number,
+  trueAirspeed: number,
+  wind: WindVector
+): WindTriangle {
+  const θ = toRadians(track);
+
+  // Wind components along and across the track
+  const tailwind = wind.u * Math.sin(θ) + wind.v * Math.cos(θ);
+  const crosswind = wind.u * Math.cos(θ) - wind.v * Math.sin(θ);
+
+  if (trueAirspeed <= 0) {
+    return { heading: track, groundSpeed: Math.max(tailwind, 0), windCorrectionAngle: 0, headwind: -tailwind, crosswind };
+  }
+
+  // Crab into the wind; a crosswind stronger than the airspeed cannot be held
+  const ratio = Math.max(-1, Math.min(1, crosswind / trueAirspeed));
+  const wca = -toDegrees(Math.asin(ratio));
+  const groundSpeed = trueAirspeed * Math.cos(toRadians(wca)) + tailwind;
+
+  return {
+    heading: (track + wca + 360) % 360,
+    groundSpeed,
+    windCorrectionAngle: wca,
+    headwind: -tailwind,
+    crosswind
+  };
+}
+
+/**
+ * Validate a grid axis: non-empty, numeric and strictly ascending
+ */
+function parseAxis(value: unknown, name: string): number[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`Wind grid "${name}" must be a non-empty array`);
+  }
+  for (let i = 0; i < value.length; i++) {
+    if (typeof value[i] !== 'number' || !isFinite(value[i])) {
+      throw new Error(`Wind grid "${name}" must contain only numbers`);
+    }
+    if (i > 0 && value[i] <= value[i - 1]) {
+      throw new Error(`Wind grid "${name}" must be strictly ascending`);
+    }
+  }
+  return value as number[];
+}
+
+/**
+ * Enclosing indices and interpolation weight on an ascending axis (clamped)
+ */
+function axisPosition(axis: number[], x: number): { i0: number; i1: number; f: number } {
+  if (axis.length === 1 || x <= axis[0]) return { i0: 0, i1: 0, f: 0 };
+  const last = axis.length - 1;
+  if (x >= axis[last]) return { i0: last, i1: last, f: 0 };
+
+  let low = 0;
+  let high = last;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (axis[mid] <= x) low = mid;
+    else high = mid;
+  }
+  return { i0: low, i1: high, f: (x - axis[low]) / (axis[high] - axis[low]) };
+}
+
+/**
+ * Like axisPosition, but wraps across the date line on global grids
+ */
+function lonPosition(lons: number[], lon: number): { i0: number; i1: number; f: number } {
+  const first = lons[0];
+  const last = lons[lons.length - 1];
+  const spacing = lons.length > 1 ? (last - first) / (lons.length - 1) : 360;
+  const isGlobal = last - first + spacing >= 360 - 1e-6;
+
+  // Bring the query into [first, first + 360)
+  const x = ((lon - first) % 360 + 360) % 360 + first;
+
+  if (isGlobal && x > last) {
+    return { i0: lons.length - 1, i1: 0, f: (x - last) / (first + 360 - last) };
+  }
+  return axisPosition(lons, isGlobal ? x : lon);
+}
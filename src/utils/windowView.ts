@@ -0,0 +1,105 @@
+/**
+ * Geometry and colours of the view from a cabin window seat
+ * The view faces abeam; angles are drawn to scale, so a position in the
+ * view is the direction's angle from abeam (across) and from eye level (up).
+ */
+
+import { AircraftSide, CabinWindowGeometry, TwilightPhase } from '@/types';
+import { DEFAULT_WINDOW_GEOMETRY } from './aircraftProfiles';
+import { getHorizonDip, getTwilightPhase } from './daylight';
+
+export type WindowSeat = Extract<AircraftSide, 'LEFT' | 'RIGHT'>;
+
+/**
+ * Angular extent of the view, in degrees from abeam and from eye level
+ * Forward is to the right from the left seat and to the left from the right.
+ */
+export interface WindowViewFrame {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;  // Negative: below eye level
+}
+
+/**
+ * Direction of a body in the view
+ */
+export interface WindowViewPosition {
+  x: number;         // Degrees right of abeam as seen from the seat
+  y: number;         // Degrees above eye level
+  visible: boolean;  // Inside the frame
+}
+
+export interface SkyColors {
+  zenith: string;   // Top of the window
+  horizon: string;  // Sky at the horizon
+  ground: string;   // Surface below the horizon
+  glow: string;     // Sky around a low sun
+}
+
+/** How far below eye level a window seat sees, degrees */
+const DOWNWARD_VIEW = 45;
+
+const SKY_COLORS: Record<TwilightPhase, SkyColors> = {
+  'day': { zenith: '#1e4fa3', horizon: '#9cc7ee', ground: '#5b6b5a', glow: '#fff8e1' },
+  'golden-hour': { zenith: '#2c5aa0', horizon: '#f6c27a', ground: '#4a4a3c', glow: '#ffb347' },
+  'civil': { zenith: '#1d2f5e', horizon: '#f08a5d', ground: '#2a2a30', glow: '#ff7043' },
+  'nautical': { zenith: '#0f1838', horizon: '#4a4f7c', ground: '#15161c', glow: '#7e57c2' },
+  'astronomical': { zenith: '#070b1c', horizon: '#1c2244', ground: '#0b0c10', glow: '#283593' },
+  'night': { zenith: '#020308', horizon: '#0a0d1a', ground: '#050507', glow: '#0a0d1a' }
+};
+
+/**
+ * Angular extent of the view from a seat
+ */
+export function getWindowViewFrame(
+  seat: WindowSeat,
+  windowGeometry: CabinWindowGeometry = DEFAULT_WINDOW_GEOMETRY
+): WindowViewFrame {
+  return seat === 'LEFT'
+    ? { left: -windowGeometry.aftView, right: windowGeometry.forwardView, top: windowGeometry.upwardView, bottom: -DOWNWARD_VIEW }
+    : { left: -windowGeometry.forwardView, right: windowGeometry.aftView, top: windowGeometry.upwardView, bottom: -DOWNWARD_VIEW };
+}
+
+/**
+ * Where a body at an azimuth and altitude appears from a window seat
+ *
+ * @param azimuth Body's compass direction, 0-360
+ * @param altitude Body's altitude above the horizontal, degrees
+ * @param heading Direction the aircraft's nose points, 0-360
+ */
+export function projectToWindow(
+  azimuth: number,
+  altitude: number,
+  heading: number,
+  seat: WindowSeat,
+  windowGeometry: CabinWindowGeometry = DEFAULT_WINDOW_GEOMETRY
+): WindowViewPosition {
+  // Bearing from the nose (-180 to 180), then from abeam on the seat's side
+  const relativeBearing = ((azimuth - heading) % 360 + 540) % 360 - 180;
+  const x = seat === 'LEFT' ? relativeBearing + 90 : relativeBearing - 90;
+  const y = altitude;
+
+  const frame = getWindowViewFrame(seat, windowGeometry);
+  const visible = x >= frame.left && x <= frame.right && y >= frame.bottom && y <= frame.top;
+  return { x, y, visible };
+}
+
+/**
+ * Height of the visible horizon in the view: below eye level by the dip
+ *
+ * @param altitude Aircraft altitude in feet
+ */
+export function getWindowHorizon(altitude: number = 0): number {
+  return -getHorizonDip(altitude);
+}
+
+/**
+ * Sky and ground colours for the light at a sun altitude, with the
+ * twilight boundaries lowered to the aircraft's horizon
+ *
+ * @param altitude Aircraft altitude in feet
+ */
+export function getSkyColors(sunAltitude: number, altitude: number = 0): SkyColors {
+  return SKY_COLORS[getTwilightPhase(sunAltitude, altitude, 'window')];
+}
@@ -0,0 +1,9 @@
+/**
+ * Web Worker that runs computation jobs for the compute service
+ */
+
+import { handleComputeRequest, WorkerRequest, WorkerResponse } from '@/utils/computeJobs';
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  handleComputeRequest(event.data, (response: WorkerResponse) => self.postMessage(response));
+};